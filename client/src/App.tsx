@@ -8,13 +8,16 @@ import { UpdateNotification } from "@/components/UpdateNotification";
 import { PlanBanner } from "@/components/PlanBanner"; // Cost Saver Pack v6.0
 import { TrialBanner } from "@/components/TrialBanner"; // feat(subscriptions)
 import UpgradeModal from "@/components/UpgradeModal";
+import { useAuth } from "@/hooks/use-auth";
 
 const Trainer = lazy(() => import("@/pages/Trainer"));
 const History = lazy(() => import("@/pages/History"));
 const Puzzles = lazy(() => import("@/pages/Puzzles"));
 const Settings = lazy(() => import("@/pages/Settings"));
 const Stats = lazy(() => import("@/pages/Stats"));
+const Repertoire = lazy(() => import("@/pages/Repertoire"));
 const NotFound = lazy(() => import("@/pages/not-found"));
+const AuthPage = lazy(() => import("@/pages/AuthPage"));
 
 function Fallback() {
   return (
@@ -25,6 +28,17 @@ function Fallback() {
 }
 
 function Router() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) return <Fallback />;
+  if (!user) {
+    return (
+      <Suspense fallback={<Fallback />}>
+        <AuthPage />
+      </Suspense>
+    );
+  }
+
   return (
     <Suspense fallback={<Fallback />}>
       <Switch>
@@ -33,6 +47,7 @@ function Router() {
         <Route path="/puzzles" component={Puzzles} />
         <Route path="/settings" component={Settings} />
         <Route path="/stats" component={Stats} />
+        <Route path="/repertoire" component={Repertoire} />
         <Route component={NotFound} />
       </Switch>
     </Suspense>
@@ -3,13 +3,17 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Bot, Volume2 } from "lucide-react";
 import { MoveAnalysis } from "@shared/schema";
+import type { GameReport } from "@shared/types";
 import { EvaluationBar } from "./EvaluationBar";
+import { GameReportCard } from "./GameReportCard";
 
 interface AnalysisPanelProps {
   analysis: MoveAnalysis | null;
   moveHistory: string[];
   currentMove: number;
   isSpeaking: boolean;
+  report?: GameReport | null;
+  onSelectPly?: (ply: number) => void;
 }
 
 const evaluationConfig: Record<string, { label: string; color: string }> = {
@@ -24,7 +28,9 @@ export function AnalysisPanel({
   analysis, 
   moveHistory, 
   currentMove,
-  isSpeaking 
+  isSpeaking,
+  report,
+  onSelectPly,
 }: AnalysisPanelProps) {
   return (
     <Card className="h-full flex flex-col">
@@ -50,6 +56,13 @@ export function AnalysisPanel({
           />
         )}
 
+        {/* Game Review summary */}
+        {report && (
+          <div className="p-3 border rounded-md bg-muted/30">
+            <GameReportCard report={report} onSelectPly={onSelectPly} />
+          </div>
+        )}
+
         {/* Current analysis */}
         {analysis ? (
           <div className="space-y-4">
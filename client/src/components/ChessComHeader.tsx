@@ -1,9 +1,10 @@
-import { Trophy, Volume2, VolumeX, History, Target, Settings, Crown } from "lucide-react";
+import { Trophy, Volume2, VolumeX, History, Target, Settings, Crown, BookOpen, LogOut } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { GameLoader } from "@/components/GameLoader";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAuth } from "@/hooks/use-auth";
 
 interface ChessComHeaderProps {
   voiceMode: "pro" | "kids";
@@ -22,6 +23,8 @@ export function ChessComHeader({
   onGameLoad,
   isLoading = false,
 }: ChessComHeaderProps) {
+  const { user, logout } = useAuth();
+
   return (
     <header className="border-b bg-card sticky top-0 z-50">
       <div className="mx-auto px-4 sm:px-6 lg:px-8">
@@ -90,6 +93,12 @@ export function ChessComHeader({
                   <span className="hidden lg:inline">Puzzles</span>
                 </Button>
               </Link>
+              <Link href="/repertoire">
+                <Button variant="ghost" size="sm" className="h-8" data-testid="button-view-repertoire">
+                  <BookOpen className="w-4 h-4 mr-1" />
+                  <span className="hidden lg:inline">Repertorio</span>
+                </Button>
+              </Link>
               <Link href="/settings">
                 <Button variant="ghost" size="sm" className="h-8" data-testid="button-view-settings">
                   <Settings className="w-4 h-4 mr-1" />
@@ -120,6 +129,21 @@ export function ChessComHeader({
             </div>
             
             <ThemeToggle />
+
+            {user && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8"
+                onClick={() => logout.mutate()}
+                disabled={logout.isPending}
+                data-testid="button-logout"
+                title={`Log out ${user.username}`}
+              >
+                <LogOut className="w-4 h-4" />
+                <span className="hidden lg:inline ml-1">{user.username}</span>
+              </Button>
+            )}
           </div>
         </div>
       </div>
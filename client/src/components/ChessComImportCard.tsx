@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ChessComImportResult } from "@shared/types";
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+/**
+ * Import a Chess.com player's games for a month range from the public archives.
+ */
+export function ChessComImportCard({ onImported }: { onImported: () => void }) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [from, setFrom] = useState(currentMonth());
+  const [to, setTo] = useState(currentMonth());
+  const [result, setResult] = useState<ChessComImportResult | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", "/api/games/import-chesscom", { username: username.trim(), from, to })).json(),
+    onSuccess: (data: ChessComImportResult) => {
+      setResult(data);
+      onImported();
+      toast({
+        title: `${data.imported} games imported from Chess.com`,
+        description: `${data.duplicates} already in library, ${data.failed} failed.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Chess.com import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const failures = result ? result.games.filter((g) => g.status === "failed") : [];
+  const monthErrors = result ? result.months.filter((m) => m.error) : [];
+
+  return (
+    <Card className="p-4 mb-6" data-testid="card-chesscom-import">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-48">
+          <Label htmlFor="chesscom-username" className="text-xs">Chess.com username</Label>
+          <Input
+            id="chesscom-username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Chess.com username"
+            data-testid="input-chesscom-username"
+          />
+        </div>
+        <div>
+          <Label htmlFor="chesscom-from" className="text-xs">From</Label>
+          <Input
+            id="chesscom-from"
+            type="month"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            data-testid="input-chesscom-from"
+          />
+        </div>
+        <div>
+          <Label htmlFor="chesscom-to" className="text-xs">To</Label>
+          <Input
+            id="chesscom-to"
+            type="month"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            data-testid="input-chesscom-to"
+          />
+        </div>
+        <Button
+          onClick={() => importMutation.mutate()}
+          disabled={!username.trim() || !from || importMutation.isPending}
+          data-testid="button-import-chesscom-archive"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {importMutation.isPending ? "Importing..." : "Import archive"}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="text-xs text-muted-foreground mt-2 space-y-1" data-testid="text-chesscom-import-result">
+          <p>
+            {result.months.length === 0
+              ? "No archived games in that range."
+              : `${result.months.length} months: ${result.imported} imported, ${result.duplicates} duplicates, ${result.failed} failed.`}
+          </p>
+          {monthErrors.map((m) => (
+            <p key={m.month} className="text-destructive">{m.month}: {m.error}</p>
+          ))}
+          {failures.slice(0, 10).map((g) => (
+            <p key={g.url} className="text-destructive truncate">
+              <a href={g.url} target="_blank" rel="noreferrer" className="underline">{g.url}</a>: {g.error}
+            </p>
+          ))}
+          {failures.length > 10 && <p>...and {failures.length - 10} more</p>}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -7,11 +7,14 @@ interface EvaluationBarProps {
 }
 
 export function EvaluationBar({ score, mate, className = "" }: EvaluationBarProps) {
+  // Mate 0 (checkmate on the board) has no sign of its own; the score says who won
+  const whiteMates = mate !== undefined && (mate > 0 || (mate === 0 && (score ?? 0) > 0));
+
   // Calculate bar percentage (0-100, 50 = equal position)
   const getBarPercentage = (): number => {
     if (mate !== undefined) {
       // Mate positions
-      return mate > 0 ? 100 : 0;
+      return whiteMates ? 100 : 0;
     }
     
     if (score === undefined) {
@@ -26,11 +29,7 @@ export function EvaluationBar({ score, mate, className = "" }: EvaluationBarProp
 
   const getEvaluationText = (): string => {
     if (mate !== undefined) {
-      if (mate > 0) {
-        return `+M${mate}`;
-      } else if (mate < 0) {
-        return `-M${Math.abs(mate)}`;
-      }
+      return whiteMates ? `+M${mate}` : `-M${Math.abs(mate)}`;
     }
 
     if (score === undefined) {
@@ -44,7 +43,7 @@ export function EvaluationBar({ score, mate, className = "" }: EvaluationBarProp
 
   const getEvaluationColor = (): "white" | "black" | "equal" => {
     if (mate !== undefined) {
-      return mate > 0 ? "white" : "black";
+      return whiteMates ? "white" : "black";
     }
 
     if (score === undefined || Math.abs(score) < 50) {
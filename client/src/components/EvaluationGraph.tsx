@@ -0,0 +1,128 @@
+import { Area, AreaChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import type { MoveAnalysis } from "@shared/schema";
+
+interface EvaluationGraphProps {
+  analyses: MoveAnalysis[]; // Stored batch analyses (score/mate from White's perspective)
+  currentMove: number;
+  onSelectPly: (ply: number) => void;
+  className?: string;
+}
+
+interface GraphPoint {
+  ply: number;
+  eval: number; // Pawns, clamped to ±MAX_PAWNS
+  move: string;
+  label: string;
+  evaluation: string | null;
+}
+
+// Clamp so a single mate score doesn't flatten the rest of the graph
+const MAX_PAWNS = 10;
+
+const markerColors: Record<string, string> = {
+  blunder: "#ef4444",
+  mistake: "#f97316",
+  brilliant: "#06b6d4",
+};
+
+const chartConfig = {
+  eval: {
+    label: "Evaluación",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+function toPoint(analysis: MoveAnalysis): GraphPoint {
+  let value = 0;
+  let label = "0.0";
+  if (analysis.mate !== null && analysis.mate !== undefined) {
+    // #0 is a finished mate; the score says which side delivered it
+    const whiteMates = analysis.mate > 0 || (analysis.mate === 0 && (analysis.score ?? 0) > 0);
+    value = whiteMates ? MAX_PAWNS : -MAX_PAWNS;
+    label = whiteMates ? `+M${analysis.mate}` : `-M${Math.abs(analysis.mate)}`;
+  } else if (analysis.score !== null && analysis.score !== undefined) {
+    const pawns = analysis.score / 100;
+    value = Math.max(-MAX_PAWNS, Math.min(MAX_PAWNS, pawns));
+    label = pawns >= 0 ? `+${pawns.toFixed(1)}` : pawns.toFixed(1);
+  }
+
+  return {
+    ply: analysis.moveNumber,
+    eval: value,
+    move: analysis.move,
+    label,
+    evaluation: analysis.evaluation,
+  };
+}
+
+export function EvaluationGraph({ analyses, currentMove, onSelectPly, className = "" }: EvaluationGraphProps) {
+  const data: GraphPoint[] = [
+    { ply: 0, eval: 0, move: "", label: "0.0", evaluation: null },
+    ...[...analyses].sort((a, b) => a.moveNumber - b.moveNumber).map(toPoint),
+  ];
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className={`aspect-auto h-28 w-full cursor-pointer ${className}`}
+      data-testid="evaluation-graph"
+    >
+      <AreaChart
+        data={data}
+        margin={{ top: 4, right: 4, bottom: 0, left: 4 }}
+        onClick={(state: any) => {
+          if (state && state.activeLabel !== undefined) {
+            onSelectPly(Number(state.activeLabel));
+          }
+        }}
+      >
+        <XAxis dataKey="ply" hide />
+        <YAxis domain={[-MAX_PAWNS, MAX_PAWNS]} hide />
+        <ReferenceLine y={0} stroke="hsl(var(--border))" />
+        <ReferenceLine x={currentMove} stroke="hsl(var(--primary))" strokeDasharray="3 3" />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }: any) => {
+            if (!active || !payload?.length) return null;
+            const point = payload[0].payload as GraphPoint;
+            if (point.ply === 0) return null;
+            return (
+              <div className="rounded-md border bg-background px-2 py-1 text-xs shadow">
+                <span className="font-mono">
+                  {Math.ceil(point.ply / 2)}.{point.ply % 2 === 0 ? ".." : ""} {point.move}
+                </span>{" "}
+                <span className="font-mono text-muted-foreground">{point.label}</span>
+              </div>
+            );
+          }}
+        />
+        <Area
+          type="monotone"
+          dataKey="eval"
+          stroke="var(--color-eval)"
+          fill="var(--color-eval)"
+          fillOpacity={0.25}
+          isAnimationActive={false}
+          dot={(props: any) => {
+            const color = props.payload?.evaluation ? markerColors[props.payload.evaluation] : undefined;
+            if (!color) return <g key={`dot-${props.index}`} />;
+            return (
+              <circle
+                key={`dot-${props.index}`}
+                cx={props.cx}
+                cy={props.cy}
+                r={3.5}
+                fill={color}
+                stroke="hsl(var(--background))"
+                strokeWidth={1}
+                data-testid={`graph-marker-${props.payload.ply}`}
+              />
+            );
+          }}
+          activeDot={{ r: 4 }}
+        />
+      </AreaChart>
+    </ChartContainer>
+  );
+}
@@ -1,12 +1,16 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Game } from "@shared/schema";
+import type { GameReport } from "@shared/types";
 import { Calendar, MapPin, Trophy } from "lucide-react";
+import { GameReportCard } from "./GameReportCard";
 
 interface GameInfoProps {
   game: Game | null;
+  report?: GameReport | null;
+  onSelectPly?: (ply: number) => void;
 }
 
-export function GameInfo({ game }: GameInfoProps) {
+export function GameInfo({ game, report, onSelectPly }: GameInfoProps) {
   if (!game) {
     return (
       <Card>
@@ -84,6 +88,14 @@ export function GameInfo({ game }: GameInfoProps) {
             </div>
           )}
         </div>
+
+        {/* Game Review */}
+        {report && (
+          <div className="pt-2 border-t">
+            <div className="text-xs text-muted-foreground mb-2">Game Review</div>
+            <GameReportCard report={report} onSelectPly={onSelectPly} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,80 @@
+import { Badge } from "@/components/ui/badge";
+import { TrendingDown } from "lucide-react";
+import type { GameReport, PlayerReport } from "@shared/types";
+
+interface GameReportCardProps {
+  report: GameReport;
+  onSelectPly?: (ply: number) => void;
+}
+
+function formatPawns(cp: number): string {
+  const pawns = cp / 100;
+  return pawns >= 0 ? `+${pawns.toFixed(1)}` : pawns.toFixed(1);
+}
+
+function PlayerColumn({ player, color }: { player: PlayerReport; color: "white" | "black" }) {
+  return (
+    <div className="flex-1 space-y-2" data-testid={`report-${color}`}>
+      <div className="flex items-center gap-2">
+        <div
+          className={`w-3 h-3 rounded-full border ${
+            color === "white" ? "bg-white border-gray-400" : "bg-gray-900 border-gray-600"
+          }`}
+        />
+        <span className="text-sm font-semibold truncate">{player.name}</span>
+      </div>
+      <div>
+        <div className="text-2xl font-bold" data-testid={`text-accuracy-${color}`}>
+          {player.accuracy.toFixed(1)}%
+        </div>
+        <div className="text-xs text-muted-foreground">Precisión</div>
+      </div>
+      <div className="text-xs text-muted-foreground" data-testid={`text-acpl-${color}`}>
+        ACPL: <span className="font-mono text-foreground">{player.averageCentipawnLoss}</span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {player.brilliant > 0 && (
+          <Badge className="bg-cyan-500 text-white text-xs">{player.brilliant} !!</Badge>
+        )}
+        <Badge className="bg-yellow-500 text-white text-xs">{player.inaccuracies} ?!</Badge>
+        <Badge className="bg-orange-500 text-white text-xs">{player.mistakes} ?</Badge>
+        <Badge className="bg-red-500 text-white text-xs">{player.blunders} ??</Badge>
+      </div>
+    </div>
+  );
+}
+
+export function GameReportCard({ report, onSelectPly }: GameReportCardProps) {
+  return (
+    <div className="space-y-4" data-testid="game-report-card">
+      <div className="flex gap-4">
+        <PlayerColumn player={report.white} color="white" />
+        <PlayerColumn player={report.black} color="black" />
+      </div>
+
+      {report.swings.length > 0 && (
+        <div className="pt-2 border-t space-y-1">
+          <div className="text-xs text-muted-foreground mb-1">Momentos decisivos</div>
+          {report.swings.map((swing) => (
+            <button
+              key={swing.ply}
+              type="button"
+              onClick={() => onSelectPly?.(swing.ply)}
+              className="w-full flex items-center justify-between gap-2 p-1 rounded-md text-xs hover-elevate"
+              data-testid={`report-swing-${swing.ply}`}
+            >
+              <span className="font-mono">
+                {swing.moveNumber}.{swing.color === "black" ? ".." : ""} {swing.move}
+              </span>
+              <span className="flex items-center gap-1 text-muted-foreground font-mono">
+                {formatPawns(swing.before)} → {formatPawns(swing.after)}
+                <TrendingDown className="w-3 h-3 text-red-500" />
+                <span className="text-red-500">-{swing.swing.toFixed(0)}%</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
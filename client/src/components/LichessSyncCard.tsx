@@ -0,0 +1,99 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { RefreshCw, Link2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { LichessSyncState } from "@shared/types";
+
+const POLL_MS = 1500;
+
+/**
+ * Linked Lichess account with an on-demand incremental sync into the library.
+ */
+export function LichessSyncCard({ onSynced }: { onSynced: () => void }) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+
+  const { data: state } = useQuery<LichessSyncState>({
+    queryKey: ["/api/lichess/sync"],
+    refetchInterval: (query) => (query.state.data?.job?.status === "running" ? POLL_MS : false),
+  });
+  const job = state?.job;
+  const running = job?.status === "running";
+
+  useEffect(() => {
+    setUsername(state?.lichessUsername || "");
+  }, [state?.lichessUsername]);
+
+  // Refresh the game list once a run finishes
+  const finishedAt = job?.finishedAt;
+  useEffect(() => {
+    if (finishedAt) onSynced();
+  }, [finishedAt]);
+
+  const linkMutation = useMutation({
+    mutationFn: async (name: string | null) => (await apiRequest("PUT", "/api/lichess/account", { username: name })).json(),
+    onSuccess: (next: LichessSyncState) => queryClient.setQueryData(["/api/lichess/sync"], next),
+    onError: (error: Error) => {
+      toast({ title: "Could not link account", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/lichess/sync")).json(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/lichess/sync"] }),
+    onError: (error: Error) => {
+      toast({ title: "Sync failed to start", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const linked = state?.lichessUsername || null;
+  const changed = username.trim() !== (linked || "");
+
+  return (
+    <Card className="p-4 mb-6" data-testid="card-lichess-sync">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-48">
+          <Label htmlFor="lichess-username" className="text-xs">Lichess account</Label>
+          <Input
+            id="lichess-username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Lichess username"
+            data-testid="input-lichess-username"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => linkMutation.mutate(username.trim() || null)}
+          disabled={!changed || linkMutation.isPending}
+          data-testid="button-link-lichess"
+        >
+          <Link2 className="w-4 h-4 mr-2" />
+          {username.trim() ? "Link" : "Unlink"}
+        </Button>
+        <Button
+          onClick={() => syncMutation.mutate()}
+          disabled={!linked || changed || running || syncMutation.isPending}
+          data-testid="button-sync-lichess"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${running ? "animate-spin" : ""}`} />
+          {running ? "Syncing..." : "Sync now"}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2" data-testid="text-lichess-sync-status">
+        {job?.status === "running" && `Received ${job.received} games, ${job.imported} new...`}
+        {job?.status === "completed" && `Last sync: ${job.imported} new, ${job.duplicates} already in library${job.failed ? `, ${job.failed} unreadable` : ""}.`}
+        {job?.status === "failed" && `Last sync failed: ${job.error}`}
+        {!job && linked && (state?.syncedUntil
+          ? `Synced up to ${new Date(state.syncedUntil).toLocaleString()}.`
+          : "Not synced yet.")}
+        {state?.scheduleMinutes ? ` Automatic sync every ${state.scheduleMinutes} min.` : ""}
+      </p>
+    </Card>
+  );
+}
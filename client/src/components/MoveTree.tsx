@@ -0,0 +1,79 @@
+import type { ReactNode } from "react";
+import { ROOT_ID, type GameTree, type TreeNode } from "@/lib/game-tree";
+
+interface MoveTreeProps {
+  tree: GameTree;
+  currentId: string;
+  onSelect: (id: string) => void;
+}
+
+const NAG_GLYPHS: Record<number, string> = { 1: "!", 2: "?", 3: "!!", 4: "??", 5: "!?", 6: "?!" };
+
+function moveLabel(node: TreeNode, forceNumber: boolean): string {
+  const moveNumber = Math.ceil(node.ply / 2);
+  const glyphs = node.nags.map((nag) => NAG_GLYPHS[nag] || "").join("");
+  if (node.ply % 2 === 1) return `${moveNumber}. ${node.san}${glyphs}`;
+  return forceNumber ? `${moveNumber}... ${node.san}${glyphs}` : `${node.san}${glyphs}`;
+}
+
+/**
+ * Move list in PGN order: variations appear in parentheses right after the
+ * main-line move they replace. Clicking a move jumps to it.
+ */
+export function MoveTree({ tree, currentId, onSelect }: MoveTreeProps) {
+  const renderMove = (node: TreeNode, forceNumber: boolean, mainline: boolean): ReactNode => (
+    <span key={node.id} className="contents">
+      <button
+        type="button"
+        onClick={() => onSelect(node.id)}
+        className={`rounded px-0.5 hover-elevate ${mainline ? "font-semibold" : ""} ${
+          node.id === currentId ? "bg-primary text-primary-foreground" : ""
+        }`}
+        data-testid={`move-node-${node.id}`}
+      >
+        {moveLabel(node, forceNumber)}
+      </button>
+      {node.comment && <span className="text-muted-foreground italic font-sans">{node.comment}</span>}
+    </span>
+  );
+
+  // From `startId` down its main continuation, with sibling variations inlined
+  const renderLine = (startId: string, mainline: boolean): ReactNode[] => {
+    const items: ReactNode[] = [];
+    let node = tree.nodes[startId];
+    let forceNumber = true;
+
+    while (node) {
+      items.push(renderMove(node, forceNumber, mainline));
+      forceNumber = !!node.comment;
+
+      const parent = tree.nodes[node.parentId!];
+      if (parent.children[0] === node.id && parent.children.length > 1) {
+        parent.children.slice(1).forEach((variationId) => {
+          items.push(
+            <span key={`var-${variationId}`} className="contents text-muted-foreground">
+              <span>(</span>
+              {renderLine(variationId, false)}
+              <span>)</span>
+            </span>
+          );
+        });
+        forceNumber = true;
+      }
+
+      node = tree.nodes[node.children[0]];
+    }
+    return items;
+  };
+
+  const root = tree.nodes[ROOT_ID];
+  if (root.children.length === 0) {
+    return <p className="text-muted-foreground text-xs">No moves yet</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-1 gap-y-0.5 text-xs" data-testid="move-tree">
+      {renderLine(root.children[0], true)}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ExplorerPosition, ExplorerStats } from "@shared/types";
+
+interface OpeningExplorerProps {
+  fen: string;
+  onSelectMove?: (uci: string) => void; // Omitted when the board can't take moves (game view)
+}
+
+function ResultBar({ stats }: { stats: ExplorerStats }) {
+  return (
+    <div className="flex h-3 w-full overflow-hidden rounded-sm border text-[9px] leading-3 font-mono">
+      {stats.whitePercent > 0 && (
+        <div className="bg-white text-gray-900 text-center" style={{ width: `${stats.whitePercent}%` }}>
+          {stats.whitePercent >= 15 ? `${stats.whitePercent}%` : ""}
+        </div>
+      )}
+      {stats.drawPercent > 0 && (
+        <div className="bg-gray-400 text-gray-900 text-center" style={{ width: `${stats.drawPercent}%` }}>
+          {stats.drawPercent >= 15 ? `${stats.drawPercent}%` : ""}
+        </div>
+      )}
+      {stats.blackPercent > 0 && (
+        <div className="bg-gray-900 text-white text-center" style={{ width: `${stats.blackPercent}%` }}>
+          {stats.blackPercent >= 15 ? `${stats.blackPercent}%` : ""}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function OpeningExplorer({ fen, onSelectMove }: OpeningExplorerProps) {
+  const { data: position, isLoading } = useQuery<ExplorerPosition>({
+    queryKey: [`/api/explorer?fen=${encodeURIComponent(fen)}`],
+    enabled: !!fen,
+    staleTime: 60 * 1000, // New imports should show up without a reload
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground" data-testid="explorer-loading">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        <span>Cargando explorador...</span>
+      </div>
+    );
+  }
+
+  if (!position || position.moves.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground" data-testid="explorer-empty">
+        Ninguna partida guardada pasa por esta posición.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1" data-testid="opening-explorer">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Nuestras partidas</span>
+        <span className="font-mono">{position.total}</span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-7 px-1 text-xs">Jugada</TableHead>
+            <TableHead className="h-7 px-1 text-xs text-right">Partidas</TableHead>
+            <TableHead className="h-7 px-1 text-xs w-1/2">Blancas / Tablas / Negras</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {position.moves.map((move) => (
+            <TableRow
+              key={move.uci}
+              onClick={() => onSelectMove?.(move.uci)}
+              className={onSelectMove ? "cursor-pointer" : ""}
+              data-testid={`explorer-move-${move.uci}`}
+            >
+              <TableCell className="px-1 py-1 font-mono text-xs font-semibold">{move.san}</TableCell>
+              <TableCell className="px-1 py-1 text-right font-mono text-xs">{move.total}</TableCell>
+              <TableCell className="px-1 py-1">
+                <ResultBar stats={move} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
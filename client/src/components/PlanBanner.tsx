@@ -1,32 +1,17 @@
-// Cost Saver Pack v6.0: Plan banner with Pro/Free/Elite switcher + trial promo
+// Cost Saver Pack v6.0: Plan banner + trial promo. The plan is the server's
+// (the user's subscription); upgrading goes through the upgrade modal.
 
-import React, { useState, useEffect } from "react";
+import React from "react";
 import { Crown, Zap } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
-import { getPlanMode, setPlanMode } from "@/lib/plan-manager";
-import type { PlanMode } from "@shared/types";
+import type { PlanMode, QuotaStatus } from "@shared/types";
 import { useQuery } from "@tanstack/react-query";
 
-type PlanApiResponse = {
-  plan: string;
-  trial: {
-    eligible: boolean;
-    usedToday: boolean;
-    remainingMs: number;
-  };
+type PlanApiResponse = QuotaStatus & {
+  expiresAt: string | null;
 };
 
 export function PlanBanner(): JSX.Element {
-  const [planMode, setPlanModeState] = useState<PlanMode>("free");
-  const [dialogOpen, setDialogOpen] = useState(false);
-
   // Query server plan/trial info
   const { data: planApi } = useQuery<PlanApiResponse>({
     queryKey: ["/api/plan"],
@@ -36,25 +21,13 @@ export function PlanBanner(): JSX.Element {
     refetchOnWindowFocus: false,
   });
 
-  useEffect(() => {
-    const currentPlan = getPlanMode();
-    setPlanModeState(currentPlan);
-  }, []);
-
-  const handleSwitchPlan = (newPlan: PlanMode) => {
-    setPlanMode(newPlan);
-    setPlanModeState(newPlan);
-    setDialogOpen(false);
-    // reload to apply provider changes
-    window.location.reload();
-  };
-
+  const planMode: PlanMode = planApi?.plan || "free";
   const isPro = planMode === "pro";
   const isElite = planMode === "elite";
 
   // Show trial promo if server reports FREE with eligible trial
   const showTrialPromo =
-    planApi && planApi.plan === "free" && planApi.trial?.eligible && !planApi.trial?.usedToday;
+    planApi && planApi.plan === "free" && planApi.trial?.eligible;
 
   const remainingMin = Math.max(1, Math.ceil((planApi?.trial?.remainingMs || 0) / 60000));
 
@@ -98,70 +71,18 @@ export function PlanBanner(): JSX.Element {
           )}
         </div>
 
-        <Button
-          size="sm"
-          variant="outline"
-          onClick={() => setDialogOpen(true)}
-          className="h-7 text-xs"
-          data-testid="button-change-plan"
-        >
-          Cambiar
-        </Button>
+        {!isElite && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => window.dispatchEvent(new CustomEvent("open-upgrade-modal"))}
+            className="h-7 text-xs"
+            data-testid="button-change-plan"
+          >
+            Mejorar
+          </Button>
+        )}
       </div>
-
-      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Seleccionar Plan</DialogTitle>
-            <DialogDescription>Elige entre modo Pro, Elite o Gratis</DialogDescription>
-          </DialogHeader>
-
-          <div className="flex flex-col gap-3 pt-4">
-            <Button
-              variant={planMode === "free" ? "default" : "outline"}
-              className="h-auto flex-col items-start p-4 gap-2"
-              onClick={() => handleSwitchPlan("free")}
-              data-testid="plan-switch-free"
-            >
-              <div className="flex items-center gap-2 w-full">
-                <Zap className="h-5 w-5 text-blue-400" />
-                <span className="font-semibold">Modo Gratis</span>
-              </div>
-              <p className="text-xs text-left opacity-80">Voz genérica optimizada (gTTS/Piper), funciones básicas</p>
-            </Button>
-
-            <Button
-              variant={planMode === "pro" ? "default" : "outline"}
-              className="h-auto flex-col items-start p-4 gap-2"
-              onClick={() => handleSwitchPlan("pro")}
-              data-testid="plan-switch-pro"
-            >
-              <div className="flex items-center gap-2 w-full">
-                <Crown className="h-5 w-5 text-yellow-400" />
-                <span className="font-semibold">Modo Pro</span>
-              </div>
-              <p className="text-xs text-left opacity-80">
-                Voz clonada con ElevenLabs, análisis avanzado, prioridad moderada
-              </p>
-            </Button>
-
-            <Button
-              variant={planMode === "elite" ? "default" : "outline"}
-              className="h-auto flex-col items-start p-4 gap-2"
-              onClick={() => handleSwitchPlan("elite")}
-              data-testid="plan-switch-elite"
-            >
-              <div className="flex items-center gap-2 w-full">
-                <Crown className="h-5 w-5 text-purple-400" />
-                <span className="font-semibold">Modo Elite</span>
-              </div>
-              <p className="text-xs text-left opacity-80">
-                Máxima potencia: depth 24, streaming, prioridad alta, sin límites
-              </p>
-            </Button>
-          </div>
-        </DialogContent>
-      </Dialog>
     </>
   );
 }
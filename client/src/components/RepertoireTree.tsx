@@ -0,0 +1,89 @@
+import type { RepertoireNode } from "@shared/schema";
+
+interface RepertoireTreeProps {
+  nodes: RepertoireNode[];
+  selectedId: number | null;
+  onSelect: (node: RepertoireNode) => void;
+}
+
+function moveLabel(node: RepertoireNode, depth: number, forceNumber: boolean): string {
+  const moveNumber = Math.floor(depth / 2) + 1;
+  if (node.color === "white") return `${moveNumber}. ${node.move}`;
+  return forceNumber ? `${moveNumber}... ${node.move}` : node.move;
+}
+
+/**
+ * Move tree as nested lines: the first child continues the line, the others
+ * branch off indented below it.
+ */
+export function RepertoireTree({ nodes, selectedId, onSelect }: RepertoireTreeProps) {
+  const children = new Map<number | null, RepertoireNode[]>();
+  nodes.forEach((node) => {
+    const list = children.get(node.parentId) || [];
+    list.push(node);
+    children.set(node.parentId, list);
+  });
+
+  const renderLine = (start: RepertoireNode, depth: number): JSX.Element => {
+    const line: Array<{ node: RepertoireNode; depth: number }> = [];
+    const branches: Array<{ nodes: RepertoireNode[]; depth: number }> = [];
+
+    let current: RepertoireNode | undefined = start;
+    let currentDepth = depth;
+    while (current) {
+      line.push({ node: current, depth: currentDepth });
+      const next: RepertoireNode[] = children.get(current.id) || [];
+      if (next.length > 1) branches.push({ nodes: next.slice(1), depth: currentDepth + 1 });
+      current = next[0];
+      currentDepth++;
+      // Stop the line where it branches so variations appear right after their move
+      if (next.length > 1) break;
+    }
+
+    const last = line[line.length - 1];
+    const continuation = last ? (children.get(last.node.id) || [])[0] : undefined;
+
+    return (
+      <div key={start.id}>
+        <div className="flex flex-wrap gap-x-1 font-mono text-xs">
+          {line.map(({ node, depth: d }, i) => (
+            <button
+              key={node.id}
+              type="button"
+              onClick={() => onSelect(node)}
+              className={`rounded px-1 hover-elevate ${node.id === selectedId ? "bg-primary text-primary-foreground" : ""}`}
+              title={node.comment || node.openingName || undefined}
+              data-testid={`repertoire-node-${node.id}`}
+            >
+              {moveLabel(node, d, i === 0)}
+              {node.comment ? " *" : ""}
+            </button>
+          ))}
+        </div>
+        {branches.map((branch) =>
+          branch.nodes.map((node) => (
+            <div key={node.id} className="ml-3 border-l pl-2">
+              {renderLine(node, branch.depth)}
+            </div>
+          ))
+        )}
+        {continuation && renderLine(continuation, last.depth + 1)}
+      </div>
+    );
+  };
+
+  const roots = children.get(null) || [];
+  if (roots.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground" data-testid="repertoire-tree-empty">
+        Juega una jugada en el tablero o importa un PGN para empezar.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1" data-testid="repertoire-tree">
+      {roots.map((root) => renderLine(root, 0))}
+    </div>
+  );
+}
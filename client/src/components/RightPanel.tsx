@@ -2,26 +2,33 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Bot, MessageSquare, List, BookOpen, ExternalLink, Download } from "lucide-react";
+import { Bot, MessageSquare, List, BookOpen, ExternalLink, Download, ArrowUpToLine, Trash2 } from "lucide-react";
 import { MoveAnalysis } from "@shared/schema";
 import { EvaluationBar } from "./EvaluationBar";
+import { OpeningExplorer } from "./OpeningExplorer";
+import { MoveTree } from "./MoveTree";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useState, useEffect } from "react";
+import { ROOT_ID, isOnMainline, type GameTree } from "@/lib/game-tree";
 
 interface RightPanelProps {
   analysis: MoveAnalysis | null;
-  moveHistory: string[];
+  tree: GameTree;
+  currentNodeId: string;
   currentMove: number;
   isSpeaking: boolean;
-  exploratoryMoves?: string[];
-  isAnalysisMode?: boolean;
+  onSelectNode?: (id: string) => void;
+  onPromoteNode?: (id: string) => void;
+  onDeleteNode?: (id: string) => void;
+  onCommentNode?: (id: string, comment: string) => void;
   onAskQuestion?: (question: string) => void;
   lastAnswer?: string;
   games?: Array<{pgn: string; white: string; black: string; result: string; eco: string; date: string}>;
   onSelectGame?: (index: number) => void;
   currentFen?: string;
   onExportPgn?: () => void;
+  onExplorerMove?: (uci: string) => void;
 }
 
 interface Opening {
@@ -42,21 +49,31 @@ const evaluationConfig: Record<string, { label: string; color: string }> = {
 
 export function RightPanel({
   analysis,
-  moveHistory,
+  tree,
+  currentNodeId,
   currentMove,
   isSpeaking,
-  exploratoryMoves = [],
-  isAnalysisMode = false,
+  onSelectNode,
+  onPromoteNode,
+  onDeleteNode,
+  onCommentNode,
   onAskQuestion,
   lastAnswer,
   games = [],
   onSelectGame,
   currentFen = "",
   onExportPgn,
+  onExplorerMove,
 }: RightPanelProps) {
   const [question, setQuestion] = useState("");
   const [detectedOpening, setDetectedOpening] = useState<Opening | null>(null);
   const [openings, setOpenings] = useState<Opening[]>([]);
+  const currentNode = tree.nodes[currentNodeId];
+  const [comment, setComment] = useState("");
+
+  useEffect(() => {
+    setComment(currentNode?.comment || "");
+  }, [currentNodeId, currentNode?.comment]);
 
   const handleAskQuestion = () => {
     if (question.trim() && onAskQuestion) {
@@ -92,7 +109,7 @@ export function RightPanel({
     setDetectedOpening(match || null);
   }, [currentFen, openings]);
 
-  const displayMoves = isAnalysisMode ? exploratoryMoves : moveHistory;
+  const hasMoves = tree.nodes[ROOT_ID].children.length > 0;
 
   return (
     <Card className="h-full flex flex-col">
@@ -189,37 +206,47 @@ export function RightPanel({
         <TabsContent value="moves" className="flex-1 mt-0 p-2 min-h-0 flex flex-col gap-2">
           <ScrollArea className="confined-scroll flex-1">
             <div className="pr-4 font-mono text-sm" data-testid="text-move-history">
-              {displayMoves.length === 0 ? (
-                <p className="text-muted-foreground text-xs">No moves yet</p>
-              ) : (
-                <div className="grid grid-cols-[auto_1fr_1fr] gap-x-4 gap-y-1">
-                  {displayMoves.map((move, index) => {
-                    if (index % 2 === 0) {
-                      const moveNumber = Math.floor(index / 2) + 1;
-                      const whiteMove = displayMoves[index];
-                      const blackMove = displayMoves[index + 1];
-                      const isCurrentWhite = currentMove === index + 1;
-                      const isCurrentBlack = currentMove === index + 2;
-                      
-                      return (
-                        <div key={index} className="contents">
-                          <div className="text-muted-foreground text-xs">{moveNumber}.</div>
-                          <div className={`text-xs ${isCurrentWhite ? "font-bold text-primary" : ""}`}>
-                            {whiteMove}
-                          </div>
-                          <div className={`text-xs ${isCurrentBlack ? "font-bold text-primary" : ""}`}>
-                            {blackMove || ""}
-                          </div>
-                        </div>
-                      );
-                    }
-                    return null;
-                  })}
-                </div>
-              )}
+              <MoveTree tree={tree} currentId={currentNodeId} onSelect={(id) => onSelectNode?.(id)} />
             </div>
           </ScrollArea>
-          {onExportPgn && displayMoves.length > 0 && (
+          {currentNode && currentNode.id !== ROOT_ID && (
+            <div className="flex flex-col gap-2 border-t pt-2" data-testid="move-node-actions">
+              <Textarea
+                placeholder={`Comentario para ${currentNode.san}...`}
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                onBlur={() => {
+                  if (comment !== (currentNode.comment || "")) onCommentNode?.(currentNode.id, comment);
+                }}
+                className="min-h-[48px] text-xs resize-none"
+                data-testid="input-move-comment"
+              />
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 h-8 text-xs"
+                  disabled={isOnMainline(tree, currentNode.id)}
+                  onClick={() => onPromoteNode?.(currentNode.id)}
+                  data-testid="button-promote-variation"
+                >
+                  <ArrowUpToLine className="w-3 h-3 mr-1" />
+                  Línea principal
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 h-8 text-xs"
+                  onClick={() => onDeleteNode?.(currentNode.id)}
+                  data-testid="button-delete-from-here"
+                >
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Borrar desde aquí
+                </Button>
+              </div>
+            </div>
+          )}
+          {onExportPgn && hasMoves && (
             <Button
               variant="outline"
               size="sm"
@@ -315,6 +342,12 @@ export function RightPanel({
                   )}
                 </div>
               )}
+
+              {currentFen && (
+                <div className="mt-4 pt-3 border-t">
+                  <OpeningExplorer fen={currentFen} onSelectMove={onExplorerMove} />
+                </div>
+              )}
             </div>
           </ScrollArea>
         </TabsContent>
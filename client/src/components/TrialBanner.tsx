@@ -6,22 +6,10 @@ import { Gift } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-
-interface TrialInfo {
-  eligible: boolean;
-  usedToday: boolean;
-  remainingMs: number;
-  startTime?: number;
-}
-
-interface PlanResponse {
-  plan: string;
-  trial: TrialInfo;
-  config: any;
-}
+import type { QuotaStatus } from "@shared/types";
 
 export function TrialBanner() {
-  const { data: planData } = useQuery<PlanResponse>({
+  const { data: planData } = useQuery<QuotaStatus>({
     queryKey: ['/api/plan'],
     queryFn: () => apiRequest('GET', '/api/plan').then(res => res.json()),
     refetchInterval: 30000, // Check every 30 seconds
@@ -32,8 +20,8 @@ export function TrialBanner() {
   useEffect(() => {
     if (planData) {
       const { plan, trial } = planData;
-      // Show banner if FREE plan with eligible trial
-      const shouldShow = plan === 'free' && trial.eligible && !trial.usedToday;
+      // Show banner if FREE plan with eligible trial (same check /api/analyze applies)
+      const shouldShow = plan === 'free' && trial.eligible;
       setShowBanner(shouldShow);
     }
   }, [planData]);
@@ -1,5 +1,7 @@
-// Upgrade modal shown when trial ends or user requests upgrade
+// Upgrade modal shown when trial ends or user requests upgrade; buying goes
+// through the payment gateway's hosted checkout
 import React from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -8,6 +10,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 type Props = {
   open: boolean;
@@ -15,6 +19,19 @@ type Props = {
 };
 
 export function UpgradeModal({ open, onOpenChange }: Props) {
+  const { toast } = useToast();
+
+  const checkout = useMutation({
+    mutationFn: async (plan: "pro" | "elite"): Promise<{ url: string }> =>
+      (await apiRequest("POST", "/api/billing/checkout", { plan })).json(),
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudo iniciar el pago", description: error.message, variant: "destructive" });
+    },
+  });
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent>
@@ -32,16 +49,23 @@ export function UpgradeModal({ open, onOpenChange }: Props) {
 
         <div className="flex gap-3 mt-4">
           <Button
-            onClick={() => {
-              // redirect to upgrade page (placeholder)
-              window.location.href = "/upgrade";
-            }}
+            onClick={() => checkout.mutate("pro")}
+            disabled={checkout.isPending}
             className="bg-amber-500 hover:bg-amber-600"
             data-testid="button-upgrade-pro"
           >
             Activar PRO
           </Button>
 
+          <Button
+            onClick={() => checkout.mutate("elite")}
+            disabled={checkout.isPending}
+            className="bg-purple-600 hover:bg-purple-700"
+            data-testid="button-upgrade-elite"
+          >
+            Activar ELITE
+          </Button>
+
           <Button
             variant="outline"
             onClick={() => {
@@ -0,0 +1,46 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { AuthUser } from "@shared/types";
+
+export interface Credentials {
+  username: string;
+  password: string;
+  email?: string;
+}
+
+/**
+ * The signed-in user (null when signed out) plus login/signup/logout.
+ * Signing in or out drops every cached query, since all data is per user.
+ */
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthChange = (next: AuthUser | null) => {
+    queryClient.clear();
+    queryClient.setQueryData(["/api/auth/me"], next);
+  };
+
+  const login = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<AuthUser> =>
+      (await apiRequest("POST", "/api/auth/login", credentials)).json(),
+    onSuccess: onAuthChange,
+  });
+
+  const signup = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<AuthUser> =>
+      (await apiRequest("POST", "/api/auth/signup", credentials)).json(),
+    onSuccess: onAuthChange,
+  });
+
+  const logout = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => onAuthChange(null),
+  });
+
+  return { user: user ?? null, isLoading, login, signup, logout };
+}
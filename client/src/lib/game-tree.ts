@@ -0,0 +1,222 @@
+// Game tree for the Trainer: every move is a node with ordered children,
+// children[0] being the main continuation and the rest its variations.
+// Updates are immutable (a new tree per change) so the tree can live in React state.
+
+import { Chess } from "chess.js";
+import { STANDARD_START_FEN, type PgnGame, type PgnMove } from "@shared/pgn";
+
+export const ROOT_ID = "root";
+
+export interface TreeNode {
+  id: string;
+  parentId: string | null; // Null only for the root (the starting position)
+  san: string; // Empty for the root
+  uci: string;
+  fen: string; // Position after the move
+  ply: number; // 0 for the root
+  nags: number[];
+  comment?: string;
+  children: string[]; // children[0] is the main line
+}
+
+export interface GameTree {
+  nodes: Record<string, TreeNode>;
+  nextId: number;
+}
+
+export function createTree(startFen: string = STANDARD_START_FEN): GameTree {
+  return {
+    nodes: {
+      [ROOT_ID]: { id: ROOT_ID, parentId: null, san: "", uci: "", fen: startFen, ply: 0, nags: [], children: [] },
+    },
+    nextId: 1,
+  };
+}
+
+export function getNode(tree: GameTree, id: string): TreeNode {
+  return tree.nodes[id] || tree.nodes[ROOT_ID];
+}
+
+function withNodes(tree: GameTree, changed: TreeNode[], nextId: number = tree.nextId): GameTree {
+  const nodes = { ...tree.nodes };
+  changed.forEach((node) => {
+    nodes[node.id] = node;
+  });
+  return { nodes, nextId };
+}
+
+/**
+ * Play `move` (SAN or from/to) after `parentId`. An existing child with the
+ * same move is reused; otherwise a new variation is appended (the first
+ * child becomes the main line). Returns null for illegal moves.
+ */
+export function addMove(
+  tree: GameTree,
+  parentId: string,
+  move: string | { from: string; to: string; promotion?: string }
+): { tree: GameTree; nodeId: string } | null {
+  const parent = getNode(tree, parentId);
+  const chess = new Chess(parent.fen);
+  let played;
+  try {
+    played = chess.move(move);
+  } catch {
+    return null;
+  }
+  if (!played) return null;
+
+  const uci = played.from + played.to + (played.promotion || "");
+  const existing = parent.children.find((id) => tree.nodes[id].uci === uci);
+  if (existing) return { tree, nodeId: existing };
+
+  const node: TreeNode = {
+    id: `n${tree.nextId}`,
+    parentId: parent.id,
+    san: played.san,
+    uci,
+    fen: chess.fen(),
+    ply: parent.ply + 1,
+    nags: [],
+    children: [],
+  };
+  const updatedParent = { ...parent, children: [...parent.children, node.id] };
+  return { tree: withNodes(tree, [updatedParent, node], tree.nextId + 1), nodeId: node.id };
+}
+
+/**
+ * Build a tree from a parsed PGN game, variations and comments included.
+ */
+export function treeFromPgn(game: PgnGame): GameTree {
+  let tree = createTree(game.startFen);
+
+  const addLine = (moves: PgnMove[], fromId: string) => {
+    let parentId = fromId;
+    moves.forEach((move) => {
+      const added = addMove(tree, parentId, move.san);
+      if (!added) return;
+      tree = added.tree;
+      const comment = [move.startingComment, move.comment].filter(Boolean).join(" ");
+      if (comment || move.nags.length > 0) {
+        const node = tree.nodes[added.nodeId];
+        tree = withNodes(tree, [{ ...node, comment: comment || undefined, nags: move.nags }]);
+      }
+      move.variations.forEach((variation) => addLine(variation, parentId));
+      parentId = added.nodeId;
+    });
+  };
+
+  addLine(game.moves, ROOT_ID);
+  return tree;
+}
+
+/**
+ * Node ids from the first move down to `id` (empty for the root).
+ */
+export function getPath(tree: GameTree, id: string): string[] {
+  const path: string[] = [];
+  let current: TreeNode | undefined = tree.nodes[id];
+  while (current && current.parentId !== null) {
+    path.unshift(current.id);
+    current = tree.nodes[current.parentId];
+  }
+  return path;
+}
+
+/**
+ * Node ids following the main continuation after `fromId` (excluded).
+ */
+export function getContinuation(tree: GameTree, fromId: string = ROOT_ID): string[] {
+  const line: string[] = [];
+  let current = getNode(tree, fromId);
+  while (current.children.length > 0) {
+    current = tree.nodes[current.children[0]];
+    line.push(current.id);
+  }
+  return line;
+}
+
+export function getMainline(tree: GameTree): string[] {
+  return getContinuation(tree, ROOT_ID);
+}
+
+export function isOnMainline(tree: GameTree, id: string): boolean {
+  return getPath(tree, id).every((nodeId) => {
+    const node = tree.nodes[nodeId];
+    return tree.nodes[node.parentId!].children[0] === nodeId;
+  });
+}
+
+/**
+ * Make the line through `id` the main line at every branching point above it.
+ */
+export function promoteToMainline(tree: GameTree, id: string): GameTree {
+  const changed: TreeNode[] = [];
+  getPath(tree, id).forEach((nodeId) => {
+    const parent = tree.nodes[tree.nodes[nodeId].parentId!];
+    if (parent.children[0] === nodeId) return;
+    changed.push({ ...parent, children: [nodeId, ...parent.children.filter((c) => c !== nodeId)] });
+  });
+  return changed.length > 0 ? withNodes(tree, changed) : tree;
+}
+
+/**
+ * Remove `id` and everything after it. The root can't be deleted.
+ */
+export function deleteFrom(tree: GameTree, id: string): GameTree {
+  const node = tree.nodes[id];
+  if (!node || node.parentId === null) return tree;
+
+  const nodes = { ...tree.nodes };
+  const stack = [id];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    stack.push(...nodes[current].children);
+    delete nodes[current];
+  }
+  const parent = nodes[node.parentId];
+  nodes[parent.id] = { ...parent, children: parent.children.filter((c) => c !== id) };
+  return { nodes, nextId: tree.nextId };
+}
+
+export function setComment(tree: GameTree, id: string, comment: string): GameTree {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  return withNodes(tree, [{ ...node, comment: comment.trim() || undefined }]);
+}
+
+/**
+ * The tree as a PGN game (for `writePgn`), variations and comments included.
+ */
+export function treeToPgn(tree: GameTree, headers: Record<string, string>, result: string = "*"): PgnGame {
+  const toMoves = (startId: string): PgnMove[] => {
+    const moves: PgnMove[] = [];
+    let node: TreeNode | undefined = tree.nodes[startId];
+    while (node) {
+      const parent = tree.nodes[node.parentId!];
+      const [, turn, , , , fullmove] = parent.fen.split(" ");
+      moves.push({
+        san: node.san,
+        uci: node.uci,
+        fen: node.fen,
+        moveNumber: parseInt(fullmove, 10) || 1,
+        color: turn === "b" ? "b" : "w",
+        nags: node.nags,
+        comment: node.comment,
+        // Siblings are listed as variations of the main-line move only
+        variations: parent.children[0] === node.id ? parent.children.slice(1).map(toMoves) : [],
+        line: 0,
+      });
+      node = tree.nodes[node.children[0]];
+    }
+    return moves;
+  };
+
+  const root = tree.nodes[ROOT_ID];
+  return {
+    headers,
+    startFen: root.fen,
+    moves: root.children.length > 0 ? toMoves(root.children[0]) : [],
+    result,
+    line: 1,
+  };
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Trophy } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+
+// apiRequest errors read "<status>: <body>"; show the server's message
+function errorText(error: Error | null): string | null {
+  if (!error) return null;
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
+export default function AuthPage() {
+  const { login, signup } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [email, setEmail] = useState("");
+
+  const credentials = { username: username.trim(), password };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+      <Card className="w-full max-w-sm p-6">
+        <div className="flex items-center gap-2 mb-6">
+          <Trophy className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-bold">GM Trainer</h1>
+        </div>
+
+        <Tabs defaultValue="login">
+          <TabsList className="grid grid-cols-2 w-full mb-4">
+            <TabsTrigger value="login" data-testid="tab-login">Log in</TabsTrigger>
+            <TabsTrigger value="signup" data-testid="tab-signup">Sign up</TabsTrigger>
+          </TabsList>
+
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="auth-username">Username</Label>
+              <Input
+                id="auth-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                data-testid="input-auth-username"
+              />
+            </div>
+            <div>
+              <Label htmlFor="auth-password">Password</Label>
+              <Input
+                id="auth-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-auth-password"
+              />
+            </div>
+          </div>
+
+          <TabsContent value="login">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                login.mutate(credentials);
+              }}
+            >
+              {login.error && (
+                <p className="text-sm text-destructive mt-3" data-testid="text-login-error">{errorText(login.error)}</p>
+              )}
+              <Button
+                type="submit"
+                className="w-full mt-4"
+                disabled={!username.trim() || !password || login.isPending}
+                data-testid="button-login"
+              >
+                {login.isPending ? "Logging in..." : "Log in"}
+              </Button>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="signup">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                signup.mutate({ ...credentials, email: email.trim() || undefined });
+              }}
+            >
+              <div className="mt-3">
+                <Label htmlFor="auth-email">Email (optional)</Label>
+                <Input
+                  id="auth-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-auth-email"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">At least 8 characters for the password.</p>
+              {signup.error && (
+                <p className="text-sm text-destructive mt-3" data-testid="text-signup-error">{errorText(signup.error)}</p>
+              )}
+              <Button
+                type="submit"
+                className="w-full mt-4"
+                disabled={!username.trim() || password.length < 8 || signup.isPending}
+                data-testid="button-signup"
+              >
+                {signup.isPending ? "Creating account..." : "Create account"}
+              </Button>
+            </form>
+          </TabsContent>
+        </Tabs>
+      </Card>
+    </div>
+  );
+}
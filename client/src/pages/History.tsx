@@ -1,34 +1,195 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState, useRef, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LichessSyncCard } from "@/components/LichessSyncCard";
+import { ChessComImportCard } from "@/components/ChessComImportCard";
 import { Link } from "wouter";
-import { Calendar, Users, Trophy, ChevronRight, Database } from "lucide-react";
+import { Calendar, Users, Trophy, ChevronRight, Database, Upload, Search, Pencil, Trash2, Folder, Tag } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import type { Game } from "@shared/schema";
+import type { GameFilters, GameUploadResult } from "@shared/types";
+
+const PAGE_SIZE = 50;
+const ANY_RESULT = "any";
+
+type FilterFields = Omit<GameFilters, "limit" | "offset">;
+
+interface GameEdit {
+  white: string;
+  black: string;
+  result: string;
+  date: string;
+  event: string;
+  opening: string;
+  eco: string;
+  collection: string;
+  tags: string; // Comma-separated in the form
+}
+
+function toQueryString(filters: FilterFields, offset: number): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (typeof value === "string" && value.trim() !== "") params.set(key, value.trim());
+  });
+  params.set("limit", String(PAGE_SIZE));
+  params.set("offset", String(offset));
+  return params.toString();
+}
+
+function invalidateGames() {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/games"),
+  });
+}
 
 export default function History() {
-  const { data: games, isLoading } = useQuery<Game[]>({
-    queryKey: ["/api/games"],
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<FilterFields>({});
+  const [filters, setFilters] = useState<FilterFields>({});
+  const [offset, setOffset] = useState(0);
+  const [uploadCollection, setUploadCollection] = useState("");
+  const [editing, setEditing] = useState<{ id: number; fields: GameEdit } | null>(null);
+  const [deleting, setDeleting] = useState<Game | null>(null);
+
+  const { data, isLoading } = useQuery<{ games: Game[]; total: number }>({
+    queryKey: [`/api/games?${toQueryString(filters, offset)}`],
   });
+  const games = data?.games || [];
+  const total = data?.total || 0;
+  const hasFilters = Object.values(filters).some((value) => !!value);
 
-  if (isLoading) {
-    return (
-      <div className="min-h-screen bg-background p-6">
-        <div className="max-width-7xl mx-auto">
-          <div className="flex items-center justify-between mb-8">
-            <h1 className="text-3xl font-bold">Game History</h1>
-            <Link href="/">
-              <Button variant="outline" data-testid="button-back-to-trainer">
-                Back to Trainer
-              </Button>
-            </Link>
-          </div>
-          <div className="text-center text-muted-foreground py-12">
-            Loading games...
-          </div>
-        </div>
-      </div>
-    );
-  }
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const params = new URLSearchParams();
+      if (uploadCollection.trim()) params.set("collection", uploadCollection.trim());
+      const res = await fetch(`/api/games/upload?${params.toString()}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-chess-pgn" },
+        body: await file.text(),
+        credentials: "include",
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.details || body.error || res.statusText);
+      return body as GameUploadResult;
+    },
+    onSuccess: (result) => {
+      invalidateGames();
+      const firstError = result.failed[0];
+      toast({
+        title: `${result.imported} games imported`,
+        description: [
+          result.duplicates > 0 ? `${result.duplicates} duplicates skipped.` : "",
+          firstError
+            ? `${result.failed.length} failed (game ${firstError.game}${firstError.line ? `, line ${firstError.line}` : ""}: ${firstError.message}).`
+            : "",
+        ].filter(Boolean).join(" ") || undefined,
+        variant: result.imported === 0 && result.failed.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, fields }: { id: number; fields: GameEdit }) => {
+      const nullable = (value: string) => value.trim() || null;
+      const res = await apiRequest("PATCH", `/api/games/${id}`, {
+        white: fields.white.trim() || undefined,
+        black: fields.black.trim() || undefined,
+        result: fields.result === ANY_RESULT ? null : fields.result,
+        date: nullable(fields.date),
+        event: nullable(fields.event),
+        opening: nullable(fields.opening),
+        eco: nullable(fields.eco),
+        collection: nullable(fields.collection),
+        tags: fields.tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateGames();
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save game", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/games/${id}`);
+    },
+    onSuccess: () => {
+      invalidateGames();
+      setDeleting(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete game", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    setFilters(draft);
+    setOffset(0);
+  };
+
+  const clearFilters = () => {
+    setDraft({});
+    setFilters({});
+    setOffset(0);
+  };
+
+  const filterBy = (fields: FilterFields) => {
+    setDraft(fields);
+    setFilters(fields);
+    setOffset(0);
+  };
+
+  const startEdit = (game: Game) => {
+    setEditing({
+      id: game.id,
+      fields: {
+        white: game.white,
+        black: game.black,
+        result: game.result || ANY_RESULT,
+        date: game.date || "",
+        event: game.event || "",
+        opening: game.opening || "",
+        eco: game.eco || "",
+        collection: game.collection || "",
+        tags: game.tags.join(", "),
+      },
+    });
+  };
+
+  const setEditField = (key: keyof GameEdit, value: string) => {
+    setEditing((current) => (current ? { ...current, fields: { ...current.fields, [key]: value } } : current));
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (file) uploadMutation.mutate(file);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
 
   return (
     <div className="min-h-screen bg-background p-6">
@@ -37,7 +198,7 @@ export default function History() {
           <div>
             <h1 className="text-3xl font-bold" data-testid="text-page-title">Game History</h1>
             <p className="text-muted-foreground mt-1">
-              View all your analyzed chess games
+              {total > 0 ? `${total} games in your library` : "View all your analyzed chess games"}
             </p>
           </div>
           <Link href="/">
@@ -47,21 +208,141 @@ export default function History() {
           </Link>
         </div>
 
-        {!games || games.length === 0 ? (
+        <Card className="p-4 mb-6">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-48">
+              <Label htmlFor="upload-collection" className="text-xs">Collection (optional)</Label>
+              <Input
+                id="upload-collection"
+                value={uploadCollection}
+                onChange={(e) => setUploadCollection(e.target.value)}
+                placeholder="Club archive"
+                data-testid="input-upload-collection"
+              />
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pgn,application/x-chess-pgn,text/plain"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-upload-file"
+            />
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+              data-testid="button-upload-pgn"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {uploadMutation.isPending ? "Uploading..." : "Upload PGN file"}
+            </Button>
+          </div>
+        </Card>
+
+        <LichessSyncCard onSynced={invalidateGames} />
+        <ChessComImportCard onImported={invalidateGames} />
+
+        <form onSubmit={applyFilters} className="mb-6 space-y-3" data-testid="form-game-filters">
+          <div className="flex gap-2">
+            <Input
+              value={draft.q || ""}
+              onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+              placeholder="Search players, events, openings, comments..."
+              data-testid="input-search-games"
+            />
+            <Button type="submit" data-testid="button-search-games">
+              <Search className="w-4 h-4 mr-2" />
+              Search
+            </Button>
+            {hasFilters && (
+              <Button type="button" variant="outline" onClick={clearFilters} data-testid="button-clear-filters">
+                Clear
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-2">
+            <Input
+              value={draft.player || ""}
+              onChange={(e) => setDraft({ ...draft, player: e.target.value })}
+              placeholder="Player"
+              data-testid="input-filter-player"
+            />
+            <Input
+              value={draft.event || ""}
+              onChange={(e) => setDraft({ ...draft, event: e.target.value })}
+              placeholder="Event"
+              data-testid="input-filter-event"
+            />
+            <Select
+              value={draft.result || ANY_RESULT}
+              onValueChange={(value) => setDraft({ ...draft, result: value === ANY_RESULT ? undefined : value })}
+            >
+              <SelectTrigger data-testid="select-filter-result">
+                <SelectValue placeholder="Result" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_RESULT}>Any result</SelectItem>
+                <SelectItem value="1-0">1-0</SelectItem>
+                <SelectItem value="0-1">0-1</SelectItem>
+                <SelectItem value="1/2-1/2">1/2-1/2</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={draft.eco || ""}
+              onChange={(e) => setDraft({ ...draft, eco: e.target.value })}
+              placeholder="ECO (B90)"
+              data-testid="input-filter-eco"
+            />
+            <Input
+              value={draft.dateFrom || ""}
+              onChange={(e) => setDraft({ ...draft, dateFrom: e.target.value })}
+              placeholder="From 2020.01.01"
+              data-testid="input-filter-date-from"
+            />
+            <Input
+              value={draft.dateTo || ""}
+              onChange={(e) => setDraft({ ...draft, dateTo: e.target.value })}
+              placeholder="To 2024.12.31"
+              data-testid="input-filter-date-to"
+            />
+            <Input
+              value={draft.collection || ""}
+              onChange={(e) => setDraft({ ...draft, collection: e.target.value })}
+              placeholder="Collection"
+              data-testid="input-filter-collection"
+            />
+            <Input
+              value={draft.tag || ""}
+              onChange={(e) => setDraft({ ...draft, tag: e.target.value })}
+              placeholder="Tag"
+              data-testid="input-filter-tag"
+            />
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="text-center text-muted-foreground py-12">
+            Loading games...
+          </div>
+        ) : games.length === 0 ? (
           <Card className="p-12">
             <div className="text-center">
               <Database className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2" data-testid="text-no-games">
-                No games yet
+                {hasFilters ? "No games match these filters" : "No games yet"}
               </h3>
-              <p className="text-muted-foreground mb-6">
-                Import your first game from Lichess to start analyzing
-              </p>
-              <Link href="/">
-                <Button data-testid="button-import-first-game">
-                  Import Your First Game
-                </Button>
-              </Link>
+              {!hasFilters && (
+                <>
+                  <p className="text-muted-foreground mb-6">
+                    Import your first game from Lichess or upload a PGN file to start analyzing
+                  </p>
+                  <Link href="/">
+                    <Button data-testid="button-import-first-game">
+                      Import Your First Game
+                    </Button>
+                  </Link>
+                </>
+              )}
             </div>
           </Card>
         ) : (
@@ -79,10 +360,16 @@ export default function History() {
                         <Users className="w-4 h-4 text-muted-foreground" />
                         <span className="font-semibold" data-testid={`text-white-${game.id}`}>
                           {game.white}
+                          {game.whiteRating !== null && (
+                            <span className="font-normal text-muted-foreground"> ({game.whiteRating})</span>
+                          )}
                         </span>
                         <span className="text-muted-foreground">vs</span>
                         <span className="font-semibold" data-testid={`text-black-${game.id}`}>
                           {game.black}
+                          {game.blackRating !== null && (
+                            <span className="font-normal text-muted-foreground"> ({game.blackRating})</span>
+                          )}
                         </span>
                       </div>
                       {game.result && (
@@ -115,32 +402,182 @@ export default function History() {
                           </span>
                         </div>
                       )}
-                      {game.opening && (
+                      {(game.opening || game.eco) && (
                         <div className="col-span-2">
                           <span className="text-muted-foreground">Opening: </span>
                           <span data-testid={`text-opening-${game.id}`}>
-                            {game.opening}
+                            {[game.eco, game.opening].filter(Boolean).join(" ")}
                           </span>
                         </div>
                       )}
                     </div>
+
+                    {(game.collection || game.tags.length > 0) && (
+                      <div className="flex flex-wrap items-center gap-2 mt-3">
+                        {game.collection && (
+                          <Badge
+                            variant="outline"
+                            className="cursor-pointer"
+                            onClick={() => filterBy({ collection: game.collection! })}
+                            data-testid={`badge-collection-${game.id}`}
+                          >
+                            <Folder className="w-3 h-3 mr-1" />
+                            {game.collection}
+                          </Badge>
+                        )}
+                        {game.tags.map((tag) => (
+                          <Badge
+                            key={tag}
+                            variant="secondary"
+                            className="cursor-pointer"
+                            onClick={() => filterBy({ tag })}
+                            data-testid={`badge-tag-${game.id}-${tag}`}
+                          >
+                            <Tag className="w-3 h-3 mr-1" />
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
-                  <Link href={`/?gameId=${game.id}`}>
+                  <div className="flex items-center gap-1">
                     <Button
                       variant="ghost"
                       size="icon"
-                      data-testid={`button-view-game-${game.id}`}
+                      onClick={() => startEdit(game)}
+                      data-testid={`button-edit-game-${game.id}`}
                     >
-                      <ChevronRight className="w-5 h-5" />
+                      <Pencil className="w-4 h-4" />
                     </Button>
-                  </Link>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleting(game)}
+                      data-testid={`button-delete-game-${game.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                    <Link href={`/?gameId=${game.id}`}>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        data-testid={`button-view-game-${game.id}`}
+                      >
+                        <ChevronRight className="w-5 h-5" />
+                      </Button>
+                    </Link>
+                  </div>
                 </div>
               </Card>
             ))}
           </div>
         )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-center gap-4 mt-6">
+            <Button
+              variant="outline"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              data-testid="button-previous-page"
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground" data-testid="text-page-range">
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <Button
+              variant="outline"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              data-testid="button-next-page"
+            >
+              Next
+            </Button>
+          </div>
+        )}
       </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit game</DialogTitle>
+            <DialogDescription>Library details only; the moves are not changed.</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                ["white", "White"],
+                ["black", "Black"],
+                ["event", "Event"],
+                ["date", "Date"],
+                ["eco", "ECO"],
+                ["opening", "Opening"],
+                ["collection", "Collection"],
+                ["tags", "Tags (comma-separated)"],
+              ] as Array<[keyof GameEdit, string]>).map(([key, label]) => (
+                <div key={key}>
+                  <Label htmlFor={`edit-${key}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`edit-${key}`}
+                    value={editing.fields[key]}
+                    onChange={(e) => setEditField(key, e.target.value)}
+                    data-testid={`input-edit-${key}`}
+                  />
+                </div>
+              ))}
+              <div>
+                <Label className="text-xs">Result</Label>
+                <Select value={editing.fields.result} onValueChange={(value) => setEditField("result", value)}>
+                  <SelectTrigger data-testid="select-edit-result">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_RESULT}>Unknown</SelectItem>
+                    <SelectItem value="1-0">1-0</SelectItem>
+                    <SelectItem value="0-1">0-1</SelectItem>
+                    <SelectItem value="1/2-1/2">1/2-1/2</SelectItem>
+                    <SelectItem value="*">*</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} data-testid="button-cancel-edit">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editing && updateMutation.mutate(editing)}
+              disabled={updateMutation.isPending}
+              data-testid="button-save-game"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this game?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting && `${deleting.white} vs ${deleting.black}`} and its stored analysis will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -4,83 +4,80 @@ import { InteractiveChessBoard } from "@/components/InteractiveChessBoard";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
-import { Trophy, RotateCcw, Eye, Target, ArrowRight, CheckCircle2, XCircle, BarChart3, Download, Filter } from "lucide-react";
+import { Trophy, RotateCcw, Eye, Target, ArrowRight, CheckCircle2, XCircle, BarChart3, Download, Filter, Sparkles, ExternalLink } from "lucide-react";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Puzzle } from "@shared/schema";
+import type { PuzzleGenerationJob, PuzzleRatingSummary } from "@shared/types";
+import { checkPuzzleMove, parseSolution, playSolutionMove, PUZZLE_THEMES, solutionToSan, solverMoveCount } from "@shared/puzzle";
 import { useToast } from "@/hooks/use-toast";
-import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 
-// Available themes for filtering
-const AVAILABLE_THEMES = [
-  "Back rank mate",
-  "Material gain",
-  "Knight attack",
-  "Central control",
-  "Double attack",
-  "Fork",
-  "Pin",
-  "Skewer",
-  "Discovered attack",
-];
-
 export default function Puzzles() {
   const { toast } = useToast();
-  const [currentPuzzleIndex, setCurrentPuzzleIndex] = useState(0);
+  // The server picks each puzzle near the user's rating; Previous walks back through this session's puzzles
+  const [currentPuzzle, setCurrentPuzzle] = useState<Puzzle | null>(null);
+  const [previousPuzzles, setPreviousPuzzles] = useState<Puzzle[]>([]);
   const [showSolution, setShowSolution] = useState(false);
   const [chess] = useState(new Chess());
   const [currentFen, setCurrentFen] = useState("");
   const [attemptStatus, setAttemptStatus] = useState<"idle" | "correct" | "incorrect">("idle");
   const startTimeRef = useRef<number>(Date.now());
+  // Index into the solution line of the solver's next move; the opponent's replies sit in between
+  const [ply, setPly] = useState(0);
+  const [replyPending, setReplyPending] = useState(false);
+  const replyTimerRef = useRef<ReturnType<typeof setTimeout>>();
   
-  // Filter state - Hotfix v5.1.1: Persist difficulty in localStorage
+  // Filter state
   const [showFilters, setShowFilters] = useState(false);
-  const getInitialRatingRange = (): [number, number] => {
-    const stored = localStorage.getItem('puzzleDifficulty');
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        if (Array.isArray(parsed) && parsed.length === 2) {
-          return [parsed[0], parsed[1]];
-        }
-      } catch {
-        // Fall through to default
-      }
-    }
-    return [600, 1400];
-  };
-  const [ratingRange, setRatingRange] = useState<[number, number]>(getInitialRatingRange());
   const [selectedThemes, setSelectedThemes] = useState<string[]>([]);
-  
-  // Hotfix v5.1.1: Persist difficulty when it changes
-  useEffect(() => {
-    localStorage.setItem('puzzleDifficulty', JSON.stringify(ratingRange));
-  }, [ratingRange]);
-
-  // Build query string for filters
-  const buildQueryString = () => {
-    const params = new URLSearchParams();
-    if (ratingRange[0] > 600) params.append('minRating', ratingRange[0].toString());
-    if (ratingRange[1] < 1400) params.append('maxRating', ratingRange[1].toString());
-    if (selectedThemes.length > 0) params.append('themes', selectedThemes.join(','));
-    const queryString = params.toString();
-    return queryString ? `?${queryString}` : '';
-  };
 
-  // Fetch puzzles from API with filters
+  // Fetch puzzles from API (themes only; used for the count and auto-seeding)
   const { data: puzzles, isLoading } = useQuery<Puzzle[]>({
-    queryKey: ["/api/puzzles", ratingRange, selectedThemes],
+    queryKey: ["/api/puzzles", selectedThemes],
     queryFn: async () => {
-      const queryString = buildQueryString();
+      const queryString = selectedThemes.length > 0 ? `?themes=${encodeURIComponent(selectedThemes.join(','))}` : '';
       const response = await fetch(`/api/puzzles${queryString}`);
       if (!response.ok) throw new Error('Failed to fetch puzzles');
       return response.json();
     },
   });
 
+  // User's Glicko-2 puzzle rating (updated by every first attempt)
+  const { data: puzzleRating } = useQuery<PuzzleRatingSummary>({
+    queryKey: ["/api/stats/puzzle-rating"],
+  });
+
+  // Next puzzle near the user's rating
+  const nextPuzzleMutation = useMutation({
+    mutationFn: async (excludeId?: number) => {
+      const params = new URLSearchParams();
+      if (selectedThemes.length > 0) params.append('themes', selectedThemes.join(','));
+      if (excludeId) params.append('exclude', excludeId.toString());
+      const res = await apiRequest("GET", `/api/puzzles/next?${params.toString()}`);
+      return await res.json() as { puzzle: Puzzle | null; rating: number; deviation: number };
+    },
+    onSuccess: (data) => {
+      setCurrentPuzzle(data.puzzle);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Load Puzzle",
+        description: error.message || "Could not load the next puzzle",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Load a puzzle on open and whenever the theme filter changes (or puzzles get seeded)
+  useEffect(() => {
+    if (puzzles) {
+      nextPuzzleMutation.mutate(undefined);
+    }
+  }, [selectedThemes, puzzles?.length]);
+
   // Seed puzzles mutation - Hotfix v5.1.1: Auto-seed
   const seedPuzzlesMutation = useMutation({
     mutationFn: async () => {
@@ -101,7 +98,7 @@ export default function Puzzles() {
   
   // Hotfix v5.1.1: Auto-seed puzzles if DB is empty
   useEffect(() => {
-    if (!isLoading && puzzles && puzzles.length === 0 && !seedPuzzlesMutation.isPending) {
+    if (!isLoading && puzzles && puzzles.length === 0 && selectedThemes.length === 0 && !seedPuzzlesMutation.isPending) {
       console.log('[puzzles] DB empty, auto-seeding...');
       seedPuzzlesMutation.mutate();
     }
@@ -109,16 +106,17 @@ export default function Puzzles() {
 
   // Record puzzle attempt mutation
   const recordAttemptMutation = useMutation({
-    mutationFn: async ({ puzzleId, solved, timeSpent }: { puzzleId: number; solved: number; timeSpent: number }) => {
+    mutationFn: async ({ puzzleId, solved, timeSpent, movesCompleted }: { puzzleId: number; solved: number; timeSpent: number; movesCompleted: number }) => {
       const res = await apiRequest("POST", `/api/puzzles/${puzzleId}/attempt`, {
         solved,
         timeSpent,
-        userId: null,
+        movesCompleted,
       });
       return await res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/stats/puzzles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats/puzzle-rating"] });
     },
   });
 
@@ -144,34 +142,78 @@ export default function Puzzles() {
     },
   });
 
+  // Puzzles from the user's own games (engine job on the server, polled while running)
+  const [generationRequested, setGenerationRequested] = useState(false);
+
+  const { data: generationJob } = useQuery<PuzzleGenerationJob>({
+    queryKey: ["/api/puzzles/generate"],
+    enabled: generationRequested,
+    refetchInterval: (query) => query.state.data?.status === "running" ? 2000 : false,
+  });
+
+  const generatePuzzlesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/puzzles/generate", {});
+      return await res.json() as PuzzleGenerationJob;
+    },
+    onSuccess: (job: PuzzleGenerationJob) => {
+      queryClient.setQueryData(["/api/puzzles/generate"], job);
+      setGenerationRequested(true);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Generate Puzzles",
+        description: error.message || "Could not scan your games",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // New own-game puzzles join the pool once the job is done
+  useEffect(() => {
+    if (generationJob?.status === "completed" && generationJob.created > 0) {
+      queryClient.invalidateQueries({ queryKey: ["/api/puzzles"] });
+    }
+  }, [generationJob?.status]);
+
+  // Drop a scheduled opponent reply (puzzle changed or reset)
+  const cancelReply = () => {
+    clearTimeout(replyTimerRef.current);
+    setReplyPending(false);
+  };
+
   // Reset FEN when puzzle changes
   useEffect(() => {
-    if (puzzles && puzzles[currentPuzzleIndex]) {
-      const puzzle = puzzles[currentPuzzleIndex];
+    if (currentPuzzle) {
+      const puzzle = currentPuzzle;
       try {
+        cancelReply();
         chess.load(puzzle.fen);
         setCurrentFen(puzzle.fen);
+        setPly(0);
         setAttemptStatus("idle");
         startTimeRef.current = Date.now(); // Reset timer for new puzzle
       } catch (error) {
         console.error("Failed to load puzzle FEN:", error);
       }
     }
-  }, [currentPuzzleIndex, puzzles, chess]);
+  }, [currentPuzzle, chess]);
 
   // Handle user move
-  const handleMove = (move: { from: string; to: string }) => {
-    const puzzle = puzzles?.[currentPuzzleIndex];
+  const handleMove = (move: { from: string; to: string; promotion?: string }) => {
+    const puzzle = currentPuzzle;
     if (!puzzle) {
       console.log("No puzzle available");
       return false;
     }
+    if (replyPending) return false;
 
-    console.log("Attempting move:", move, "Expected solution:", puzzle.solution);
+    const line = parseSolution(puzzle.solution);
+    console.log("Attempting move:", move, "Expected:", line[ply]);
 
     try {
-      // Try to make the move
-      const result = chess.move({ from: move.from, to: move.to });
+      // Try to make the move, promoting to the piece picked on the board (underpromotions count)
+      const result = chess.move({ from: move.from, to: move.to, promotion: move.promotion || "q" });
       
       if (result) {
         console.log("Move made successfully:", result.san, "FEN:", chess.fen());
@@ -179,11 +221,23 @@ export default function Puzzles() {
         // Update the FEN first
         setCurrentFen(chess.fen());
         
-        // Check if this is the correct solution
+        // Check the move against the solution line (any checkmate also solves it)
         const moveNotation = result.san;
-        console.log("Comparing:", moveNotation, "vs", puzzle.solution);
+        const step = checkPuzzleMove(chess, line, ply, result);
         
-        if (moveNotation === puzzle.solution || result.lan === puzzle.solution || result.from + result.to === puzzle.solution) {
+        if (step === "continue") {
+          // Right move, not finished yet: the opponent's forced reply follows
+          setReplyPending(true);
+          replyTimerRef.current = setTimeout(() => {
+            playSolutionMove(chess, line[ply + 1]);
+            setCurrentFen(chess.fen());
+            setPly(ply + 2);
+            setReplyPending(false);
+          }, 400);
+          return true;
+        }
+        
+        if (step === "solved") {
           setAttemptStatus("correct");
           
           // Calculate time spent
@@ -194,6 +248,7 @@ export default function Puzzles() {
             puzzleId: puzzle.id,
             solved: 1,
             timeSpent,
+            movesCompleted: ply / 2 + 1,
           });
           
           toast({
@@ -211,11 +266,12 @@ export default function Puzzles() {
           // Calculate time spent
           const timeSpent = Math.floor((Date.now() - startTimeRef.current) / 1000);
           
-          // Record failed attempt
+          // Record failed attempt, with how far into the line the user got
           recordAttemptMutation.mutate({
             puzzleId: puzzle.id,
             solved: 0,
             timeSpent,
+            movesCompleted: ply / 2,
           });
           
           // Don't undo immediately - let the user see their move
@@ -250,17 +306,19 @@ export default function Puzzles() {
 
   // Reset puzzle
   const resetPuzzle = () => {
-    const puzzle = puzzles?.[currentPuzzleIndex];
+    const puzzle = currentPuzzle;
     if (puzzle) {
+      cancelReply();
       chess.load(puzzle.fen);
       setCurrentFen(puzzle.fen);
+      setPly(0);
       setAttemptStatus("idle");
       setShowSolution(false);
     }
   };
 
   // Show loading state
-  if (isLoading) {
+  if (isLoading || (puzzles && puzzles.length > 0 && !currentPuzzle && nextPuzzleMutation.isPending)) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <p className="text-muted-foreground">Loading puzzles...</p>
@@ -269,7 +327,7 @@ export default function Puzzles() {
   }
 
   // Show seed button if no puzzles
-  if (!puzzles || puzzles.length === 0) {
+  if ((!puzzles || puzzles.length === 0) && selectedThemes.length === 0) {
     return (
       <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
         <p className="text-muted-foreground">No puzzles available</p>
@@ -287,10 +345,20 @@ export default function Puzzles() {
     );
   }
 
-  const currentPuzzle = puzzles[currentPuzzleIndex];
-  
+  // Nothing left for the selected themes
+  if (!currentPuzzle) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">No puzzles match the selected themes</p>
+        <Button onClick={() => setSelectedThemes([])} data-testid="button-clear-themes-empty">
+          Clear Themes
+        </Button>
+      </div>
+    );
+  }
+
   // Defensive: Validate puzzle data before using
-  if (!currentPuzzle?.fen || !currentPuzzle?.solution) {
+  if (!currentPuzzle.fen || !currentPuzzle.solution) {
     return (
       <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
         <p className="text-destructive">Invalid puzzle data</p>
@@ -301,25 +369,28 @@ export default function Puzzles() {
     );
   }
   
-  // Load FEN with error handling (chess.load throws error for invalid FEN)
+  // Validate the FEN and line with error handling (chess.js throws for invalid FEN / moves).
+  // A separate board, so the one being played on keeps its moves across renders.
+  let solutionSan: string[];
   try {
-    chess.load(currentPuzzle.fen);
+    solutionSan = solutionToSan(currentPuzzle.fen, currentPuzzle.solution);
   } catch (error) {
     return (
       <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
-        <p className="text-destructive">Invalid FEN: {currentPuzzle.fen}</p>
+        <p className="text-destructive">Invalid puzzle: {currentPuzzle.fen} / {currentPuzzle.solution}</p>
         <Link href="/">
           <Button variant="outline">Back to Trainer</Button>
         </Link>
       </div>
     );
   }
+  const playerColor = currentPuzzle.fen.split(" ")[1] === "b" ? "b" : "w";
+  const totalSolverMoves = solverMoveCount(currentPuzzle.solution);
 
   // Hotfix v5.1.1: Unified loadNextPuzzle function for auto-progression
   const loadNextPuzzle = () => {
-    if (!puzzles) return;
-    const nextIndex = (currentPuzzleIndex + 1) % puzzles.length;
-    setCurrentPuzzleIndex(nextIndex);
+    setPreviousPuzzles([...previousPuzzles, currentPuzzle]);
+    nextPuzzleMutation.mutate(currentPuzzle.id);
     setShowSolution(false);
     setAttemptStatus("idle");
   };
@@ -329,9 +400,9 @@ export default function Puzzles() {
   };
 
   const previousPuzzle = () => {
-    if (!puzzles) return;
-    const prevIndex = (currentPuzzleIndex - 1 + puzzles.length) % puzzles.length;
-    setCurrentPuzzleIndex(prevIndex);
+    if (previousPuzzles.length === 0) return;
+    setCurrentPuzzle(previousPuzzles[previousPuzzles.length - 1]);
+    setPreviousPuzzles(previousPuzzles.slice(0, -1));
     setShowSolution(false);
     setAttemptStatus("idle");
   };
@@ -380,27 +451,17 @@ export default function Puzzles() {
         <div className="border-b bg-muted/30">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {/* Rating Range Filter */}
+              {/* Difficulty follows the user's rating */}
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
-                  <Label className="text-base font-semibold">Difficulty Range</Label>
-                  <span className="text-sm text-muted-foreground">
-                    {ratingRange[0]} - {ratingRange[1]}
+                  <Label className="text-base font-semibold">Difficulty</Label>
+                  <span className="text-sm text-muted-foreground" data-testid="text-filter-rating">
+                    {puzzleRating ? `${puzzleRating.rating} ± ${puzzleRating.deviation}` : "1500"}
                   </span>
                 </div>
-                <Slider
-                  min={600}
-                  max={1400}
-                  step={50}
-                  value={ratingRange}
-                  onValueChange={(value) => setRatingRange(value as [number, number])}
-                  className="w-full"
-                  data-testid="slider-rating-range"
-                />
-                <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>Beginner (600)</span>
-                  <span>Advanced (1400)</span>
-                </div>
+                <p className="text-sm text-muted-foreground">
+                  Puzzles are picked near your puzzle rating, which goes up when you solve them and down when you miss them.
+                </p>
               </div>
 
               {/* Theme Filter */}
@@ -419,7 +480,7 @@ export default function Puzzles() {
                   )}
                 </div>
                 <div className="grid grid-cols-2 gap-2">
-                  {AVAILABLE_THEMES.map((theme) => (
+                  {PUZZLE_THEMES.map((theme) => (
                     <div key={theme} className="flex items-center space-x-2">
                       <Checkbox
                         id={`theme-${theme}`}
@@ -453,10 +514,7 @@ export default function Puzzles() {
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => {
-                  setRatingRange([600, 1400]);
-                  setSelectedThemes([]);
-                }}
+                onClick={() => setSelectedThemes([])}
                 data-testid="button-clear-all-filters"
               >
                 Clear All Filters
@@ -475,8 +533,9 @@ export default function Puzzles() {
               <InteractiveChessBoard
                 fen={currentFen || currentPuzzle.fen}
                 onMove={handleMove}
+                orientation={playerColor === "w" ? "white" : "black"}
                 showLegalMoves={true}
-                disabled={attemptStatus === "correct"}
+                disabled={attemptStatus === "correct" || replyPending}
                 className="w-full max-w-2xl mx-auto"
               />
               
@@ -495,6 +554,7 @@ export default function Puzzles() {
               <Button
                 onClick={previousPuzzle}
                 variant="outline"
+                disabled={previousPuzzles.length === 0}
                 data-testid="button-previous-puzzle"
               >
                 Previous
@@ -531,11 +591,28 @@ export default function Puzzles() {
                 <Download className="w-4 h-4 mr-2" />
                 {importDailyPuzzleMutation.isPending ? "Importing..." : "Import from Lichess"}
               </Button>
+              <Button
+                onClick={() => generatePuzzlesMutation.mutate()}
+                variant="outline"
+                disabled={generatePuzzlesMutation.isPending || generationJob?.status === "running"}
+                data-testid="button-generate-puzzles"
+              >
+                <Sparkles className="w-4 h-4 mr-2" />
+                {generationJob?.status === "running" ? "Scanning games..." : "From my games"}
+              </Button>
             </div>
+
+            {generationJob && (
+              <div className="text-center text-sm text-muted-foreground" data-testid="text-generation-status">
+                {generationJob.status === "running" && `Scanning your games: ${generationJob.scannedGames}/${generationJob.totalGames}`}
+                {generationJob.status === "completed" && `${generationJob.created} new puzzle${generationJob.created !== 1 ? "s" : ""} from ${generationJob.scannedGames} of your games`}
+                {generationJob.status === "failed" && `Puzzle generation failed: ${generationJob.error}`}
+              </div>
+            )}
             
             {/* Puzzle count indicator */}
             <div className="text-center text-sm text-muted-foreground">
-              Puzzle {currentPuzzleIndex + 1} of {puzzles.length}
+              {puzzles?.length ?? 0} puzzle{puzzles?.length !== 1 ? 's' : ''} available
             </div>
           </div>
 
@@ -543,7 +620,7 @@ export default function Puzzles() {
           <div className="flex flex-col gap-4">
             <Card className="p-6">
               <h2 className="text-xl font-semibold mb-4">
-                Puzzle #{currentPuzzleIndex + 1}
+                Puzzle #{currentPuzzle.id}
               </h2>
               
               <div className="space-y-3">
@@ -561,12 +638,28 @@ export default function Puzzles() {
                   </span>
                 </div>
 
+                {currentPuzzle.gameId !== null && currentPuzzle.gamePly !== null && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">From:</span>
+                    <Link
+                      href={`/?gameId=${currentPuzzle.gameId}&ply=${currentPuzzle.gamePly - 1}`}
+                      className="font-medium text-primary inline-flex items-center gap-1 hover:underline"
+                      data-testid="link-puzzle-game"
+                    >
+                      Your game, move {Math.ceil(currentPuzzle.gamePly / 2)}
+                      <ExternalLink className="w-3 h-3" />
+                    </Link>
+                  </div>
+                )}
+
                 <div className="mt-4 p-3 bg-muted rounded-md">
                   <p className="text-sm font-medium mb-1">
-                    To Move: {chess.turn() === "w" ? "White" : "Black"}
+                    To Move: {playerColor === "w" ? "White" : "Black"}
                   </p>
-                  <p className="text-xs text-muted-foreground">
-                    Find the best move in this position
+                  <p className="text-xs text-muted-foreground" data-testid="text-puzzle-progress">
+                    {totalSolverMoves > 1
+                      ? `Find the best move (${Math.min(ply / 2 + 1, totalSolverMoves)} of ${totalSolverMoves})`
+                      : "Find the best move in this position"}
                   </p>
                 </div>
               </div>
@@ -577,8 +670,8 @@ export default function Puzzles() {
                     <Trophy className="w-5 h-5" />
                     <span className="font-semibold">Solution</span>
                   </div>
-                  <p className="font-mono text-lg mb-2">
-                    {currentPuzzle.solution}
+                  <p className="font-mono text-lg mb-2" data-testid="text-puzzle-solution">
+                    {solutionSan.join(" ")}
                   </p>
                   <p className="text-sm text-muted-foreground">
                     {currentPuzzle.explanation}
@@ -602,15 +695,17 @@ export default function Puzzles() {
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Total Puzzles:</span>
-                  <span className="font-medium">{puzzles.length}</span>
+                  <span className="font-medium">{puzzles?.length ?? 0}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Current:</span>
-                  <span className="font-medium">{currentPuzzleIndex + 1}</span>
+                  <span className="text-muted-foreground">Your Rating:</span>
+                  <span className="font-medium" data-testid="text-user-puzzle-rating">
+                    {puzzleRating ? `${puzzleRating.rating} ± ${puzzleRating.deviation}` : "—"}
+                  </span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Difficulty Range:</span>
-                  <span className="font-medium">800-1400</span>
+                  <span className="text-muted-foreground">Rated Puzzles:</span>
+                  <span className="font-medium">{puzzleRating?.history.length ?? 0}</span>
                 </div>
               </div>
             </Card>
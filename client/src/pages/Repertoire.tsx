@@ -0,0 +1,486 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { BookOpen, Plus, Trash2, Upload, GraduationCap, Square, ChevronLeft } from "lucide-react";
+import { InteractiveChessBoard } from "@/components/InteractiveChessBoard";
+import { RepertoireTree } from "@/components/RepertoireTree";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Repertoire as RepertoireRecord, RepertoireNode } from "@shared/schema";
+import type { DrillItem } from "@shared/types";
+
+const STARTING_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const OPPONENT_MOVE_DELAY_MS = 500;
+
+interface RepertoireDetail {
+  repertoire: RepertoireRecord;
+  nodes: RepertoireNode[];
+}
+
+interface DrillState {
+  items: DrillItem[];
+  index: number;
+  step: number; // Position in the current item's path
+  fen: string;
+  mistake: boolean; // The target move was missed at least once
+}
+
+export default function Repertoire() {
+  const { toast } = useToast();
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<number | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<"white" | "black">("white");
+  const [comment, setComment] = useState("");
+  const [importOpen, setImportOpen] = useState(false);
+  const [importPgn, setImportPgn] = useState("");
+  const [drill, setDrill] = useState<DrillState | null>(null);
+
+  const { data: repertoires = [] } = useQuery<RepertoireRecord[]>({
+    queryKey: ["/api/repertoires"],
+  });
+
+  const { data: detail } = useQuery<RepertoireDetail>({
+    queryKey: [`/api/repertoires/${activeId}`],
+    enabled: activeId !== null,
+  });
+
+  useEffect(() => {
+    if (activeId === null && repertoires.length > 0) setActiveId(repertoires[0].id);
+  }, [repertoires, activeId]);
+
+  const nodes = detail?.nodes || [];
+  const nodesById = useMemo(() => new Map(nodes.map((n) => [n.id, n] as [number, RepertoireNode])), [nodes]);
+  const selectedNode = selectedNodeId !== null ? nodesById.get(selectedNodeId) : undefined;
+  const repertoire = detail?.repertoire;
+
+  useEffect(() => {
+    setComment(selectedNode?.comment || "");
+  }, [selectedNode?.id, selectedNode?.comment]);
+
+  const invalidateRepertoire = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/repertoires/${activeId}`] });
+  };
+
+  const onMutationError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/repertoires", { name: newName, color: newColor });
+      return (await res.json()) as RepertoireRecord;
+    },
+    onSuccess: (created) => {
+      setNewName("");
+      setActiveId(created.id);
+      setSelectedNodeId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/repertoires"] });
+    },
+    onError: onMutationError("No se pudo crear el repertorio"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/repertoires/${id}`);
+    },
+    onSuccess: () => {
+      setActiveId(null);
+      setSelectedNodeId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/repertoires"] });
+    },
+    onError: onMutationError("No se pudo borrar el repertorio"),
+  });
+
+  const addMoveMutation = useMutation({
+    mutationFn: async (move: string) => {
+      const res = await apiRequest("POST", `/api/repertoires/${activeId}/nodes`, {
+        parentId: selectedNodeId,
+        move,
+      });
+      return (await res.json()) as RepertoireNode;
+    },
+    onSuccess: (node) => {
+      setSelectedNodeId(node.id);
+      invalidateRepertoire();
+    },
+    onError: onMutationError("Jugada no válida"),
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/repertoires/${activeId}/nodes/${selectedNodeId}`, {
+        comment: comment.trim() || null,
+      });
+    },
+    onSuccess: invalidateRepertoire,
+    onError: onMutationError("No se pudo guardar el comentario"),
+  });
+
+  const deleteNodeMutation = useMutation({
+    mutationFn: async (nodeId: number) => {
+      await apiRequest("DELETE", `/api/repertoires/${activeId}/nodes/${nodeId}`);
+    },
+    onSuccess: () => {
+      setSelectedNodeId(selectedNode?.parentId ?? null);
+      invalidateRepertoire();
+    },
+    onError: onMutationError("No se pudo borrar la jugada"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/repertoires/${activeId}/import`, { pgn: importPgn });
+      return (await res.json()) as { games: number; added: number };
+    },
+    onSuccess: (result) => {
+      setImportOpen(false);
+      setImportPgn("");
+      invalidateRepertoire();
+      toast({
+        title: "PGN importado",
+        description: `${result.games} partida(s), ${result.added} jugadas nuevas`,
+      });
+    },
+    onError: onMutationError("No se pudo importar el PGN"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ nodeId, quality }: { nodeId: number; quality: number }) => {
+      await apiRequest("POST", `/api/repertoires/${activeId}/nodes/${nodeId}/review`, { quality });
+    },
+  });
+
+  const startDrill = async () => {
+    try {
+      const res = await apiRequest("GET", `/api/repertoires/${activeId}/drill`);
+      const items = (await res.json()) as DrillItem[];
+      if (items.length === 0) {
+        toast({ title: "Nada que repasar", description: "No hay jugadas pendientes en este repertorio" });
+        return;
+      }
+      setDrill({ items, index: 0, step: 0, fen: STARTING_FEN, mistake: false });
+    } catch (error: any) {
+      onMutationError("No se pudo iniciar el repaso")(error);
+    }
+  };
+
+  const stopDrill = () => {
+    setDrill(null);
+    invalidateRepertoire();
+  };
+
+  const nextDrillItem = (state: DrillState) => {
+    if (state.index + 1 >= state.items.length) {
+      toast({ title: "Sesión completada", description: `${state.items.length} jugada(s) repasadas` });
+      stopDrill();
+      return;
+    }
+    setDrill({ ...state, index: state.index + 1, step: 0, fen: STARTING_FEN, mistake: false });
+  };
+
+  const drillItem = drill ? drill.items[drill.index] : undefined;
+  const drillNode = drill && drillItem ? nodesById.get(drillItem.path[drill.step]) : undefined;
+  const userToMove = !!drillNode && drillNode.color === repertoire?.color;
+
+  // The opponent's moves play themselves; the drill waits on the user's
+  useEffect(() => {
+    if (!drill || !drillNode || userToMove) return;
+    const timer = setTimeout(() => {
+      setDrill({ ...drill, step: drill.step + 1, fen: drillNode.fen });
+    }, OPPONENT_MOVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [drill, drillNode, userToMove]);
+
+  // Items whose line was deleted mid-session are skipped
+  useEffect(() => {
+    if (drill && drillItem && !drillNode && nodes.length > 0) nextDrillItem(drill);
+  }, [drill, drillItem, drillNode, nodes.length]);
+
+  const handleDrillMove = (move: { from: string; to: string; promotion?: string }) => {
+    if (!drill || !drillItem || !drillNode || !userToMove) return false;
+
+    const uci = `${move.from}${move.to}${move.promotion || ""}`;
+    const isTarget = drillNode.id === drillItem.nodeId;
+    if (uci !== drillNode.uci) {
+      toast({
+        title: "No es la jugada del repertorio",
+        description: `Se esperaba ${drillNode.move}`,
+        variant: "destructive",
+      });
+      if (isTarget) setDrill({ ...drill, mistake: true });
+      return false;
+    }
+
+    if (!isTarget) {
+      setDrill({ ...drill, step: drill.step + 1, fen: drillNode.fen });
+      return true;
+    }
+
+    reviewMutation.mutate({ nodeId: drillNode.id, quality: drill.mistake ? 1 : 5 });
+    const answered = { ...drill, fen: drillNode.fen };
+    setDrill(answered);
+    setTimeout(() => nextDrillItem(answered), OPPONENT_MOVE_DELAY_MS);
+    return true;
+  };
+
+  const handleEditMove = (move: { from: string; to: string; promotion?: string }) => {
+    if (activeId === null || addMoveMutation.isPending) return false;
+    addMoveMutation.mutate(`${move.from}${move.to}${move.promotion || ""}`);
+    return true;
+  };
+
+  const boardFen = drill ? drill.fen : selectedNode?.fen || STARTING_FEN;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 w-full">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <BookOpen className="h-7 w-7 text-primary" />
+              <h1 className="text-2xl font-bold" data-testid="text-repertoire-title">
+                Repertorio
+              </h1>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <Link href="/">
+                <Button variant="outline" data-testid="button-back-to-trainer">
+                  Back to Trainer
+                </Button>
+              </Link>
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-6">
+        <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr_320px] gap-6">
+          {/* Repertoire list */}
+          <Card className="p-4 space-y-4">
+            <div className="space-y-2">
+              {repertoires.map((r) => (
+                <div key={r.id} className="flex items-center gap-2">
+                  <Button
+                    variant={r.id === activeId ? "default" : "ghost"}
+                    size="sm"
+                    className="flex-1 justify-start"
+                    disabled={!!drill}
+                    onClick={() => {
+                      setActiveId(r.id);
+                      setSelectedNodeId(null);
+                    }}
+                    data-testid={`button-repertoire-${r.id}`}
+                  >
+                    <span className="truncate">{r.name}</span>
+                    <span className="ml-auto text-xs opacity-70">{r.color === "white" ? "♔" : "♚"}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={!!drill || deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(r.id)}
+                    data-testid={`button-delete-repertoire-${r.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {repertoires.length === 0 && (
+                <p className="text-sm text-muted-foreground">Todavía no hay repertorios.</p>
+              )}
+            </div>
+
+            <form
+              className="space-y-2 border-t pt-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (newName.trim()) createMutation.mutate();
+              }}
+            >
+              <Label htmlFor="repertoire-name">Nuevo repertorio</Label>
+              <Input
+                id="repertoire-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Siciliana con negras"
+                data-testid="input-repertoire-name"
+              />
+              <Select value={newColor} onValueChange={(value) => setNewColor(value as "white" | "black")}>
+                <SelectTrigger data-testid="select-repertoire-color">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="white">Blancas</SelectItem>
+                  <SelectItem value="black">Negras</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                type="submit"
+                size="sm"
+                className="w-full"
+                disabled={!newName.trim() || createMutation.isPending}
+                data-testid="button-create-repertoire"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Crear
+              </Button>
+            </form>
+          </Card>
+
+          {/* Board */}
+          <div className="space-y-3">
+            <InteractiveChessBoard
+              fen={boardFen}
+              orientation={repertoire?.color === "black" ? "black" : "white"}
+              onMove={drill ? handleDrillMove : handleEditMove}
+              disabled={!repertoire || (!!drill && !userToMove)}
+            />
+            <div className="flex items-center justify-between gap-2">
+              {drill ? (
+                <>
+                  <span className="text-sm text-muted-foreground" data-testid="text-drill-progress">
+                    {userToMove ? "Tu jugada" : "Juega el rival..."} · {drill.index + 1}/{drill.items.length}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={stopDrill} data-testid="button-stop-drill">
+                    <Square className="w-4 h-4 mr-2" />
+                    Terminar
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!selectedNode}
+                    onClick={() => setSelectedNodeId(selectedNode?.parentId ?? null)}
+                    data-testid="button-repertoire-back"
+                  >
+                    <ChevronLeft className="w-4 h-4 mr-1" />
+                    Atrás
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={!repertoire || nodes.length === 0}
+                    onClick={startDrill}
+                    data-testid="button-start-drill"
+                  >
+                    <GraduationCap className="w-4 h-4 mr-2" />
+                    Repasar
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Tree and node editor */}
+          <Card className="p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold truncate" data-testid="text-active-repertoire">
+                {repertoire?.name || "Sin repertorio"}
+              </h2>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!repertoire || !!drill}
+                onClick={() => setImportOpen(true)}
+                data-testid="button-import-pgn"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                PGN
+              </Button>
+            </div>
+
+            {selectedNode?.openingName && (
+              <p className="text-xs text-muted-foreground" data-testid="text-node-opening">
+                {selectedNode.eco ? `${selectedNode.eco} · ` : ""}
+                {selectedNode.openingName}
+              </p>
+            )}
+
+            {repertoire && (
+              <div className="max-h-80 overflow-y-auto">
+                <RepertoireTree
+                  nodes={nodes}
+                  selectedId={drill ? null : selectedNodeId}
+                  onSelect={(node) => !drill && setSelectedNodeId(node.id)}
+                />
+              </div>
+            )}
+
+            {selectedNode && !drill && (
+              <div className="space-y-2 border-t pt-4">
+                <Label htmlFor="node-comment">Comentario a {selectedNode.move}</Label>
+                <Textarea
+                  id="node-comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={3}
+                  data-testid="input-node-comment"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={commentMutation.isPending || comment === (selectedNode.comment || "")}
+                    onClick={() => commentMutation.mutate()}
+                    data-testid="button-save-comment"
+                  >
+                    Guardar
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={deleteNodeMutation.isPending}
+                    onClick={() => deleteNodeMutation.mutate(selectedNode.id)}
+                    data-testid="button-delete-node"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Borrar jugada
+                  </Button>
+                </div>
+              </div>
+            )}
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="sm:max-w-[500px]" data-testid="dialog-import-pgn">
+          <DialogHeader>
+            <DialogTitle>Importar PGN</DialogTitle>
+            <DialogDescription>
+              Cada partida se añade al repertorio con sus variantes y comentarios.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={importPgn}
+            onChange={(e) => setImportPgn(e.target.value)}
+            rows={10}
+            className="font-mono text-xs"
+            placeholder="1. e4 c5 2. Nf3 d6 ..."
+            data-testid="input-import-pgn"
+          />
+          <Button
+            disabled={!importPgn.trim() || importMutation.isPending}
+            onClick={() => importMutation.mutate()}
+            data-testid="button-confirm-import"
+          >
+            {importMutation.isPending ? "Importando..." : "Importar"}
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
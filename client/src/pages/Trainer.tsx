@@ -4,21 +4,39 @@ import { MoveControls } from "@/components/MoveControls";
 import { useToast } from "@/hooks/use-toast";
 import { Game, MoveAnalysis } from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useSearch, useLocation } from "wouter";
 import { useVoice } from "@/hooks/use-voice";
 import { ChessComHeader } from "@/components/ChessComHeader";
 import { ActionPanel } from "@/components/ActionPanel";
 import { MobileDock } from "@/components/MobileDock";
 import { PositionEditor } from "@/components/PositionEditor";
+import { EvaluationGraph } from "@/components/EvaluationGraph";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Upload, Loader2 } from "lucide-react";
+import { Upload, Loader2, Cpu } from "lucide-react";
 import { useRef } from "react";
 import { UpgradeModal } from "@/components/UpgradeModal"; // feat(subscriptions)
+import type { AnalysisJob, GameReport } from "@shared/types";
+import { parsePgn, readPgnHeaders, splitPgn, writePgn } from "@shared/pgn";
+import {
+  ROOT_ID,
+  addMove,
+  createTree,
+  deleteFrom,
+  getContinuation,
+  getMainline,
+  getNode,
+  getPath,
+  promoteToMainline,
+  setComment,
+  treeFromPgn,
+  treeToPgn,
+  type GameTree,
+} from "@/lib/game-tree";
 
 const InteractiveChessBoard = lazy(() => import("@/components/InteractiveChessBoard").then(m => ({ default: m.InteractiveChessBoard })));
 const RightPanel = lazy(() => import("@/components/RightPanel").then(m => ({ default: m.RightPanel })));
@@ -27,42 +45,34 @@ const AnalysisPanel = lazy(() => import("@/components/AnalysisPanel").then(m =>
 
 const STARTING_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
 
-// Split multi-game PGN into individual games
-function splitPgn(pgn: string): string[] {
-  const normalized = pgn.replace(/\r\n/g, '\n');
-  const rawGames = normalized.split(/\n\n(?=\[Event)/).filter(g => g.trim());
-  if (rawGames.length === 0) {
-    return [pgn.trim()];
-  }
-  return rawGames;
-}
-
 // Parse basic metadata from PGN (HOTFIX v6.2: added result, eco)
 function parsePgnMeta(pgn: string): { white: string; black: string; event?: string; date?: string; result?: string; eco?: string } {
-  const normalized = pgn.replace(/\r\n/g, '\n');
-  const lines = normalized.split("\n");
-  const meta: any = {};
-  
-  for (const line of lines) {
-    if (line.startsWith("[")) {
-      const match = line.match(/\[(\w+)\s+"(.+)"\]/);
-      if (match) {
-        const [, key, value] = match;
-        meta[key.toLowerCase()] = value;
-      }
-    }
-  }
-  
+  const headers = readPgnHeaders(pgn);
   return {
-    white: meta.white || "White",
-    black: meta.black || "Black",
-    event: meta.event,
-    date: meta.date,
-    result: meta.result,
-    eco: meta.eco,
+    white: headers.White || "White",
+    black: headers.Black || "Black",
+    event: headers.Event,
+    date: headers.Date,
+    result: headers.Result,
+    eco: headers.ECO,
   };
 }
 
+// First game in `pgn` as a move tree; throws PgnParseError naming the offending line
+function readGameTree(pgn: string): GameTree {
+  const parsed = parsePgn(pgn)[0];
+  if (!parsed) throw new Error("No game found in PGN");
+  return treeFromPgn(parsed);
+}
+
+// Format an engine score (White's perspective) for the live engine line
+function formatEngineScore(score?: number, mate?: number): string {
+  if (mate !== undefined) return mate > 0 ? `#${mate}` : `#-${Math.abs(mate)}`;
+  if (score === undefined) return "0.00";
+  const pawns = score / 100;
+  return pawns >= 0 ? `+${pawns.toFixed(2)}` : pawns.toFixed(2);
+}
+
 // Helper to get user settings from localStorage - Fix Pack v5.1: Default to ES
 function getUserSettings() {
   try {
@@ -88,13 +98,16 @@ export default function Trainer() {
   const searchString = useSearch();
   const searchParams = new URLSearchParams(searchString);
   const gameIdParam = searchParams.get("gameId");
+  const plyParam = parseInt(searchParams.get("ply") || "", 10); // Plies to play from the start (puzzle links)
   const boardWrapperRef = useRef<HTMLDivElement | null>(null);
   
-  const [chess] = useState(new Chess());
   const [game, setGame] = useState<Game | null>(null);
-  const [currentMove, setCurrentMove] = useState(0);
   const [fen, setFen] = useState(STARTING_FEN);
-  const [moveHistory, setMoveHistory] = useState<string[]>([]);
+  // Moves of the loaded game and every explored sideline; the cursor is the node on the board
+  const [tree, setTree] = useState<GameTree>(() => createTree());
+  const [currentNodeId, setCurrentNodeId] = useState(ROOT_ID);
+  const treeRef = useRef(tree);
+  const currentNodeIdRef = useRef(currentNodeId);
   const [lastMove, setLastMove] = useState<{ from: string; to: string } | null>(null);
   const [isAutoPlaying, setIsAutoPlaying] = useState(false);
   const [currentAnalysis, setCurrentAnalysis] = useState<MoveAnalysis | null>(null);
@@ -107,8 +120,6 @@ export default function Trainer() {
   
   // Analysis mode support - DEFAULT TO TRUE for free analysis mode
   const [isAnalysisMode, setIsAnalysisMode] = useState(true);
-  const [analysisModeChess] = useState(new Chess());
-  const [exploratoryMoves, setExploratoryMoves] = useState<string[]>([]);
   
   // Play vs Coach mode
   const [isPlayVsCoach, setIsPlayVsCoach] = useState(false);
@@ -139,6 +150,35 @@ export default function Trainer() {
   const [loadAnalysisPanel, setLoadAnalysisPanel] = useState(false);
   const workerRef = useRef<Worker | null>(null);
   const [engineDepth, setEngineDepth] = useState(0);
+  // Server-side engine stream (SSE), used when the browser worker can't load Stockfish
+  const workerFailedRef = useRef(false);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const lastEngineRequestRef = useRef<{ fen: string; depth: number } | null>(null);
+  const [engineLine, setEngineLine] = useState<{ depth: number; score?: number; mate?: number; san: string[] } | null>(null);
+
+  const currentNode = getNode(tree, currentNodeId);
+  const currentPath = getPath(tree, currentNodeId);
+  const currentMove = currentNode.ply;
+  const moveHistory = currentPath.map(id => tree.nodes[id].san);
+  const lineEnd = getContinuation(tree, currentNodeId);
+
+  // Tree and cursor change together; the refs serve callbacks that run after a delay (engine replies)
+  const updateTree = (nextTree: GameTree, nodeId: string) => {
+    const node = getNode(nextTree, nodeId);
+    treeRef.current = nextTree;
+    currentNodeIdRef.current = node.id;
+    setTree(nextTree);
+    setCurrentNodeId(node.id);
+    setFen(node.fen);
+    setLastMove(node.uci ? { from: node.uci.slice(0, 2), to: node.uci.slice(2, 4) } : null);
+  };
+
+  // Show a freshly loaded game at its final position
+  const loadTree = (nextTree: GameTree, ply?: number) => {
+    const mainline = getMainline(nextTree);
+    const index = ply === undefined ? mainline.length : Math.min(ply, mainline.length);
+    updateTree(nextTree, mainline[index - 1] || ROOT_ID);
+  };
 
   // proactively load secondary panels when user interacts with board area (non-visual change)
   useEffect(() => {
@@ -177,12 +217,71 @@ export default function Trainer() {
     };
   }, []);
 
+  // Stream live analysis from the server engine; each position replaces the previous stream
+  const streamServerAnalysis = (targetFen: string) => {
+    eventSourceRef.current?.close();
+    const source = new EventSource(`/api/stockfish/stream?fen=${encodeURIComponent(targetFen)}`);
+    eventSourceRef.current = source;
+
+    source.addEventListener('info', (ev) => {
+      const line = JSON.parse((ev as MessageEvent).data);
+      if (line.rank !== 1) return;
+      setEngineDepth(line.depth);
+      setEngineLine({ depth: line.depth, score: line.score, mate: line.mate, san: line.san });
+      setCurrentAnalysis(prev => ({
+        ...(prev || ({ analysis: "" } as any)),
+        score: line.score,
+        mate: line.mate,
+        bestMove: line.pv[0],
+      }) as any);
+    });
+    // Server `error`/`done` events and dropped connections all end this stream (no auto-reconnect)
+    source.addEventListener('done', () => source.close());
+    source.addEventListener('error', () => source.close());
+  };
+
+  // Browser worker first; server stream once the worker has failed to load
+  const runEngineAnalysis = (targetFen: string, depth: number) => {
+    lastEngineRequestRef.current = { fen: targetFen, depth };
+    if (!workerFailedRef.current && workerRef.current) {
+      workerRef.current.postMessage({ cmd: 'analyze', fen: targetFen, depth, multipv: 1 });
+    } else {
+      streamServerAnalysis(targetFen);
+    }
+  };
+
+  const fallBackToServerEngine = () => {
+    if (workerFailedRef.current) return;
+    console.warn('[engine] browser worker unavailable, streaming from server');
+    workerFailedRef.current = true;
+    if (lastEngineRequestRef.current) {
+      streamServerAnalysis(lastEngineRequestRef.current.fen);
+    }
+  };
+
+  useEffect(() => {
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  // Live analysis only applies to free analysis; stop the server search when leaving it
+  useEffect(() => {
+    if (!isAnalysisMode) {
+      eventSourceRef.current?.close();
+      eventSourceRef.current = null;
+      setEngineLine(null);
+    }
+  }, [isAnalysisMode]);
+
   // Initialize local Stockfish worker (WASM) with CDN fallback
   useEffect(() => {
     const w = new Worker('/engine/worker.js');
     workerRef.current = w;
+    w.onerror = () => fallBackToServerEngine();
     w.onmessage = (ev: MessageEvent<any>) => {
       const msg = ev.data || {};
+      if (msg.type === 'error') {
+        fallBackToServerEngine();
+      }
       if (msg.type === 'info') {
         if (typeof msg.depth === 'number') setEngineDepth(msg.depth);
         if (msg.score !== undefined || msg.mate !== undefined || msg.best !== undefined) {
@@ -210,6 +309,58 @@ export default function Trainer() {
     enabled: !!gameIdParam,
   });
 
+  // Full-game batch analysis (only for games stored on the server)
+  const storedGameId = game && game.id > 0 ? game.id : null;
+  const [analysisJobRequested, setAnalysisJobRequested] = useState(false);
+
+  const { data: analysisJob } = useQuery<AnalysisJob>({
+    queryKey: [`/api/games/${storedGameId}/analyze`],
+    enabled: !!storedGameId && analysisJobRequested,
+    refetchInterval: (query) => query.state.data?.status === "running" ? 1500 : false,
+  });
+
+  const { data: gameAnalyses = [] } = useQuery<MoveAnalysis[]>({
+    queryKey: [`/api/games/${storedGameId}/analyses`],
+    enabled: !!storedGameId,
+  });
+
+  const { data: gameReport } = useQuery<GameReport>({
+    queryKey: [`/api/games/${storedGameId}/report`],
+    enabled: !!storedGameId && gameAnalyses.length > 0,
+  });
+
+  const startGameAnalysisMutation = useMutation({
+    mutationFn: async (gameId: number) => {
+      const res = await apiRequest("POST", `/api/games/${gameId}/analyze`, {});
+      return await res.json() as AnalysisJob;
+    },
+    onSuccess: (job: AnalysisJob) => {
+      queryClient.setQueryData([`/api/games/${job.gameId}/analyze`], job);
+      setAnalysisJobRequested(true);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error de análisis",
+        description: error.message || "No se pudo iniciar el análisis de la partida",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Refresh stored analyses once the batch job finishes
+  useEffect(() => {
+    if (!analysisJob || analysisJob.status === "running") return;
+    queryClient.invalidateQueries({ queryKey: [`/api/games/${analysisJob.gameId}/analyses`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/games/${analysisJob.gameId}/report`] });
+    if (analysisJob.status === "failed") {
+      toast({
+        title: "Análisis interrumpido",
+        description: analysisJob.error || "El análisis de la partida falló",
+        variant: "destructive",
+      });
+    }
+  }, [analysisJob?.status]);
+
   // Get move analysis mutation - feat(subscriptions): handle 402 errors
   const analyzeMoveMutation = useMutation({
     mutationFn: async (moveData: { moveNumber: number; move: string; fen: string }) => {
@@ -306,48 +457,49 @@ export default function Trainer() {
     },
   });
 
-  // Navigate to a specific move (for PGN navigation)
-  const goToMove = (moveIndex: number) => {
-    if (moveIndex < 0 || moveIndex > moveHistory.length) return;
-    
-    chess.reset();
-    let lastMoveInfo = null;
-    
-    for (let i = 0; i < moveIndex; i++) {
-      const move = chess.move(moveHistory[i]);
-      if (i === moveIndex - 1 && move) {
-        lastMoveInfo = { from: move.from, to: move.to };
-      }
-    }
-    
-    setCurrentMove(moveIndex);
-    setFen(chess.fen());
-    setLastMove(lastMoveInfo);
-    
-    if (moveIndex > 0 && moveHistory[moveIndex - 1]) {
+  // Stored batch analysis for a game move when there is one, otherwise ask the coach
+  const showAnalysisFor = (nodeId: string) => {
+    const node = getNode(treeRef.current, nodeId);
+    const storedAnalysis = gameAnalyses.find(a => a.moveNumber === node.ply && a.fen === node.fen);
+    if (storedAnalysis) {
+      setCurrentAnalysis(storedAnalysis);
+    } else if (node.ply > 0) {
       analyzeMoveMutation.mutate({
-        moveNumber: moveIndex,
-        move: moveHistory[moveIndex - 1],
-        fen: chess.fen(),
+        moveNumber: node.ply,
+        move: node.san,
+        fen: node.fen,
       });
     } else {
       setCurrentAnalysis(null);
     }
   };
 
+  // Navigate anywhere in the tree (main line or sideline)
+  const goToNode = (nodeId: string) => {
+    updateTree(treeRef.current, nodeId);
+    if (!isAnalysisMode) showAnalysisFor(nodeId);
+  };
+
+  // Ply along the main line (eval graph, game report)
+  const goToPly = (ply: number) => {
+    const mainline = getMainline(treeRef.current);
+    goToNode(ply > 0 ? mainline[Math.min(ply, mainline.length) - 1] : ROOT_ID);
+  };
+
   // Auto-play effect
   useEffect(() => {
-    if (!isAutoPlaying || currentMove >= moveHistory.length) {
+    const nextId = currentNode.children[0];
+    if (!isAutoPlaying || !nextId) {
       setIsAutoPlaying(false);
       return;
     }
     
     const timer = setTimeout(() => {
-      goToMove(currentMove + 1);
+      goToNode(nextId);
     }, 2000);
     
     return () => clearTimeout(timer);
-  }, [isAutoPlaying, currentMove, moveHistory.length]);
+  }, [isAutoPlaying, currentNodeId, tree]);
 
   // Load game from database when fetched via URL parameter
   useEffect(() => {
@@ -358,69 +510,50 @@ export default function Trainer() {
       setAvailablePgns(games);
       setCurrentGameIndex(0);
       
-      const firstPgn = games[0];
-      chess.loadPgn(firstPgn);
-      const moves = chess.history();
-      const finalFen = chess.fen();
-      const lastMoveObj = chess.history({ verbose: true }).slice(-1)[0];
-      chess.reset();
+      let gameTree;
+      try {
+        gameTree = readGameTree(games[0] || loadedGame.pgn);
+      } catch (error: any) {
+        toast({ title: "Invalid PGN", description: error.message, variant: "destructive" });
+        return;
+      }
       
       setGame(loadedGame);
-      setMoveHistory(moves);
-      setCurrentMove(moves.length);
-      setFen(finalFen);
-      setLastMove(lastMoveObj ? { from: lastMoveObj.from, to: lastMoveObj.to } : null);
+      loadTree(gameTree, Number.isNaN(plyParam) ? undefined : plyParam);
       setCurrentAnalysis(null);
       setIsAnalysisMode(false); // Switch to game view mode
     }
-  }, [loadedGame, chess]);
+  }, [loadedGame]);
 
-  // Handle move in analysis/play mode
+  // Handle a board move: follows the existing move or branches off a new variation
   const handleMove = (move: { from: string; to: string; promotion?: string }) => {
+    const added = addMove(treeRef.current, currentNodeIdRef.current, move);
+    if (!added) return false;
+
+    updateTree(added.tree, added.nodeId);
+    const node = added.tree.nodes[added.nodeId];
+
+    // Request AI analysis for this move
+    showAnalysisFor(node.id);
+
+    // Local Stockfish worker analysis (non-blocking)
     try {
-      const result = analysisModeChess.move({
-        from: move.from,
-        to: move.to,
-        promotion: move.promotion,
-      });
+      const depth = window.innerWidth < 768 ? 12 : 18;
+      runEngineAnalysis(node.fen, depth);
+    } catch {}
+    
+    // If playing vs coach, trigger engine move
+    if (isPlayVsCoach) {
+      const turn = node.fen.split(" ")[1];
+      const isPlayerTurn = (playerColor === "white" && turn === "w") ||
+                           (playerColor === "black" && turn === "b");
       
-      if (result) {
-        const newFen = analysisModeChess.fen();
-        setFen(newFen);
-        setLastMove({ from: move.from, to: move.to });
-        
-        setExploratoryMoves(prev => [...prev, result.san]);
-        
-        // Request AI analysis for this move
-        analyzeMoveMutation.mutate({
-          moveNumber: analysisModeChess.history().length,
-          move: result.san,
-          fen: newFen,
-        });
-
-        // Local Stockfish worker analysis (non-blocking)
-        try {
-          const depth = window.innerWidth < 768 ? 12 : 18;
-          workerRef.current?.postMessage({ cmd: 'analyze', fen: newFen, depth, multipv: 1 });
-        } catch {}
-        
-        // If playing vs coach, trigger engine move
-        if (isPlayVsCoach) {
-          const isPlayerTurn = (playerColor === "white" && analysisModeChess.turn() === "w") ||
-                               (playerColor === "black" && analysisModeChess.turn() === "b");
-          
-          if (!isPlayerTurn && !analysisModeChess.isGameOver()) {
-            setTimeout(() => makeEngineMove(), 800);
-          }
-        }
-        
-        return true;
+      if (!isPlayerTurn && !new Chess(node.fen).isGameOver()) {
+        setTimeout(() => makeEngineMove(), 800);
       }
-      return false;
-    } catch (error) {
-      console.error("Invalid move:", error);
-      return false;
     }
+    
+    return true;
   };
 
   // Engine makes a move (Stockfish best move)
@@ -436,8 +569,7 @@ export default function Trainer() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          fen: analysisModeChess.fen(),
-          depth: 15,
+          fen: getNode(treeRef.current, currentNodeIdRef.current).fen, // Depth follows the plan
         }),
       });
       
@@ -449,20 +581,19 @@ export default function Trainer() {
         const to = data.bestMove.substring(2, 4);
         const promotion = data.bestMove.length > 4 ? data.bestMove[4] : undefined;
         
-        const result = analysisModeChess.move({ from, to, promotion });
+        const added = addMove(treeRef.current, currentNodeIdRef.current, { from, to, promotion });
         
-        if (result) {
-          const newFen = analysisModeChess.fen();
-          setFen(newFen);
-          setLastMove({ from, to });
-          setExploratoryMoves(prev => [...prev, result.san]);
+        if (added) {
+          updateTree(added.tree, added.nodeId);
+          const result = added.tree.nodes[added.nodeId];
+          const newFen = result.fen;
           
           console.log('[coach] engineMove:', result.san);
           
           // Get AI explanation for engine move
           const settings = getUserSettings();
           const explainRes = await apiRequest("POST", "/api/analysis/move", {
-            moveNumber: analysisModeChess.history().length,
+            moveNumber: result.ply,
             move: result.san,
             fen: newFen,
             settings: {
@@ -514,17 +645,12 @@ export default function Trainer() {
 
   // New game / Reset
   const handleNewGame = () => {
-    analysisModeChess.reset();
-    setFen(STARTING_FEN);
-    setLastMove(null);
-    setExploratoryMoves([]);
+    updateTree(createTree(), ROOT_ID);
     setCurrentAnalysis(null);
     setIsAnalysisMode(true);
     setIsPlayVsCoach(false);
     setIsAutoPlaying(false);
     setGame(null);
-    setMoveHistory([]);
-    setCurrentMove(0);
     
     toast({
       title: "New Game",
@@ -557,13 +683,9 @@ export default function Trainer() {
         const testChess = new Chess();
         testChess.load(input);
         
-        analysisModeChess.reset();
-        analysisModeChess.load(input);
-        setFen(input);
-        setLastMove(null);
+        updateTree(createTree(input), ROOT_ID);
         setIsAnalysisMode(true);
         setCurrentAnalysis(null);
-        setExploratoryMoves([]);
         setImportDialogOpen(false);
         setImportInput("");
         
@@ -609,30 +731,32 @@ export default function Trainer() {
         setImportedGames(gamesData);
         
         const firstPgn = games[0];
-        chess.reset();
-        chess.loadPgn(firstPgn);
-        const moves = chess.history();
-        const finalFen = chess.fen();
-        const lastMoveObj = chess.history({ verbose: true}).slice(-1)[0];
+        const gameTree = readGameTree(firstPgn);
         
         const meta = parsePgnMeta(firstPgn);
         
         setGame({
           id: 0,
+          userId: null,
           white: meta.white,
           black: meta.black,
           result: null,
           event: meta.event || null,
           site: null,
           opening: null,
+          eco: meta.eco || null,
+          whiteRating: null,
+          blackRating: null,
+          timeControl: null,
+          collection: null,
+          tags: [],
+          headerHash: null,
           date: meta.date || null,
           pgn: input,
           createdAt: new Date(),
+          updatedAt: new Date(),
         });
-        setMoveHistory(moves);
-        setCurrentMove(moves.length); // Jump to last move
-        setFen(finalFen);
-        setLastMove(lastMoveObj ? { from: lastMoveObj.from, to: lastMoveObj.to } : null);
+        loadTree(gameTree); // Jump to last move
         setCurrentAnalysis(null);
         setIsAnalysisMode(false);
         setImportDialogOpen(false);
@@ -642,10 +766,10 @@ export default function Trainer() {
           title: games.length > 1 ? `${games.length} Games Loaded` : "Game Loaded (PGN)",
           description: `${meta.white} vs ${meta.black}`,
         });
-      } catch (error) {
+      } catch (error: any) {
         toast({
           title: "Invalid PGN",
-          description: "Please check your PGN and try again",
+          description: error.message || "Please check your PGN and try again",
           variant: "destructive",
         });
       }
@@ -678,16 +802,9 @@ export default function Trainer() {
       const games = splitPgn(pgn);
       setAvailablePgns(games);
       setCurrentGameIndex(0);
-      chess.reset();
-      chess.loadPgn(games[0]);
-      const moves = chess.history();
-      const finalFen = chess.fen();
-      const lastMoveObj = chess.history({ verbose: true }).slice(-1)[0];
+      const gameTree = readGameTree(games[0] || pgn);
       setGame(game);
-      setMoveHistory(moves);
-      setCurrentMove(moves.length);
-      setFen(finalFen);
-      setLastMove(lastMoveObj ? { from: lastMoveObj.from, to: lastMoveObj.to } : null);
+      loadTree(gameTree);
       setCurrentAnalysis(null);
       setIsAnalysisMode(false);
       setImportDialogOpen(false);
@@ -717,16 +834,9 @@ export default function Trainer() {
       const games = splitPgn(pgn);
       setAvailablePgns(games);
       setCurrentGameIndex(0);
-      chess.reset();
-      chess.loadPgn(games[0]);
-      const moves = chess.history();
-      const finalFen = chess.fen();
-      const lastMoveObj = chess.history({ verbose: true }).slice(-1)[0];
+      const gameTree = readGameTree(games[0] || pgn);
       setGame(game);
-      setMoveHistory(moves);
-      setCurrentMove(moves.length);
-      setFen(finalFen);
-      setLastMove(lastMoveObj ? { from: lastMoveObj.from, to: lastMoveObj.to } : null);
+      loadTree(gameTree);
       setCurrentAnalysis(null);
       setIsAnalysisMode(false);
       setImportDialogOpen(false);
@@ -748,10 +858,7 @@ export default function Trainer() {
       // Entering Play vs Coach mode
       console.log('[mode] play-vs-coach | side=', playerColor === "white" ? "w" : "b");
       
-      analysisModeChess.reset();
-      setFen(STARTING_FEN);
-      setLastMove(null);
-      setExploratoryMoves([]);
+      updateTree(createTree(), ROOT_ID);
       setCurrentAnalysis(null);
       setIsAnalysisMode(true);
       setIsPlayVsCoach(true);
@@ -781,10 +888,7 @@ export default function Trainer() {
   // v7.0: Load position from editor
   const handleLoadPosition = (fen: string) => {
     try {
-      analysisModeChess.load(fen);
-      setFen(fen);
-      setExploratoryMoves([]);
-      setLastMove(null);
+      updateTree(createTree(new Chess(fen).fen()), ROOT_ID);
       setCurrentAnalysis(null);
       toast({
         title: "Posición cargada",
@@ -799,9 +903,9 @@ export default function Trainer() {
     }
   };
 
-  // v7.0: Export PGN with local heuristic comments (no GPT)
+  // Export PGN: stored games come annotated from the server; otherwise the local tree is written out
   const handleExportPgn = () => {
-    if (moveHistory.length === 0) {
+    if (tree.nodes[ROOT_ID].children.length === 0) {
       toast({
         title: "Sin movimientos",
         description: "No hay movimientos para exportar",
@@ -810,89 +914,31 @@ export default function Trainer() {
       return;
     }
 
-    // Generate PGN with heuristic comments
-    const tempChess = new Chess();
-    let pgn = '[Event "GM Trainer Analysis"]\n';
-    pgn += '[Site "GM Trainer Local"]\n';
-    pgn += `[Date "${new Date().toISOString().split('T')[0]}"]\n`;
-    pgn += '[White "Player"]\n';
-    pgn += '[Black "Player"]\n';
-    pgn += '[Result "*"]\n\n';
-
-    let moveNumber = 1;
-    moveHistory.forEach((move, index) => {
-      const moveObj = tempChess.move(move);
-      if (!moveObj) return;
-
-      // Add move number for white
-      if (index % 2 === 0) {
-        pgn += `${moveNumber}. `;
-      }
-
-      // Add the move
-      pgn += move + ' ';
-
-      // Generate simple heuristic comment
-      const comments = [];
-      
-      // Check for capture
-      if (moveObj.captured) {
-        comments.push('Captura material');
-      }
-      
-      // Check for check
-      if (tempChess.inCheck()) {
-        comments.push('Jaque');
-      }
-      
-      // Check for checkmate
-      if (tempChess.isCheckmate()) {
-        comments.push('Jaque mate!');
-      }
-      
-      // Check for center control (e4, d4, e5, d5)
-      if (['e4', 'd4', 'e5', 'd5'].includes(moveObj.to)) {
-        comments.push('Control del centro');
-      }
-      
-      // Check for piece development (knights and bishops in opening)
-      if (index < 10 && (moveObj.piece === 'n' || moveObj.piece === 'b')) {
-        comments.push('Desarrollo de piezas');
-      }
-      
-      // Check for castling
-      if (moveObj.flags.includes('k') || moveObj.flags.includes('q')) {
-        comments.push('Enroque - Seguridad del rey');
-      }
-
-      // Add comment if any
-      if (comments.length > 0) {
-        pgn += `{ ${comments.join(', ')} } `;
-      }
-
-      // New line after black's move
-      if (index % 2 === 1) {
-        pgn += '\n';
-        moveNumber++;
-      }
-    });
-
-    pgn += '*\n';
-
-    // Download the PGN file
-    const blob = new Blob([pgn], { type: 'application/x-chess-pgn' });
-    const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
-    a.href = url;
-    a.download = `gm-trainer-${Date.now()}.pgn`;
+    let url: string | null = null;
+    if (storedGameId) {
+      a.href = `/api/games/${storedGameId}/pgn`;
+    } else {
+      const headers: Record<string, string> = {
+        Event: game?.event || "GM Trainer Analysis",
+        Site: game?.site || "GM Trainer Local",
+        Date: game?.date || new Date().toISOString().split('T')[0].replace(/-/g, '.'),
+        White: game?.white || "?",
+        Black: game?.black || "?",
+      };
+      const pgn = writePgn(treeToPgn(tree, headers, game?.result || "*"));
+      url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+      a.href = url;
+      a.download = `gm-trainer-${Date.now()}.pgn`;
+    }
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    if (url) URL.revokeObjectURL(url);
 
     toast({
       title: "PGN exportado",
-      description: "Archivo descargado con comentarios de análisis",
+      description: storedGameId ? "Partida con variantes, evaluaciones y comentarios del coach" : "Archivo descargado con variantes y comentarios",
     });
   };
 
@@ -914,20 +960,18 @@ export default function Trainer() {
             isPlayVsCoach={isPlayVsCoach}
             playerColor={playerColor}
             isAutoPlaying={isAutoPlaying}
-            canUndo={exploratoryMoves.length > 0}
-            canRedo={false}
+            canUndo={currentNodeId !== ROOT_ID}
+            canRedo={currentNode.children.length > 0}
             onNewGame={handleNewGame}
             onImport={() => setImportDialogOpen(true)}
             onOpenEditor={() => setEditorOpen(true)}
             onFlipBoard={handleFlipBoard}
             onUndo={() => {
-              if (exploratoryMoves.length > 0) {
-                analysisModeChess.undo();
-                setExploratoryMoves(prev => prev.slice(0, -1));
-                setFen(analysisModeChess.fen());
-              }
+              if (currentNode.parentId) goToNode(currentNode.parentId);
+            }}
+            onRedo={() => {
+              if (currentNode.children[0]) goToNode(currentNode.children[0]);
             }}
-            onRedo={() => {}}
             onToggleAutoPlay={() => setIsAutoPlaying(!isAutoPlaying)}
             onExportPgn={handleExportPgn}
             onSettings={() => setLocation("/settings")}
@@ -939,12 +983,19 @@ export default function Trainer() {
                 setBoardOrientation(color);
                 
                 // If changing to Black and game hasn't started, engine should make first move
-                if (color === "black" && exploratoryMoves.length === 0) {
+                if (color === "black" && currentNodeId === ROOT_ID) {
                   setTimeout(() => makeEngineMove(), 1000);
                 }
               }
             }}
           />
+          {loadGameInfo && game && gameReport && (
+            <Suspense fallback={null}>
+              <div className="mt-2">
+                <GameInfo game={game} report={gameReport} onSelectPly={goToPly} />
+              </div>
+            </Suspense>
+          )}
         </div>
 
         {/* Center Panel - Chess Board */}
@@ -968,34 +1019,63 @@ export default function Trainer() {
           {/* Compact navigation under board */}
           <div className="flex justify-center">
             <MoveControls
-              currentMove={isAnalysisMode ? Math.ceil(exploratoryMoves.length / 2) || 0 : Math.ceil((currentMove || 0) / 2) || 0}
-              totalMoves={isAnalysisMode ? Math.ceil(exploratoryMoves.length / 2) || 0 : Math.ceil((moveHistory.length || 0) / 2) || 0}
+              currentMove={currentMove}
+              totalMoves={currentMove + lineEnd.length}
               isAutoPlaying={isAutoPlaying}
-              onFirst={() => {
-                if (!isAnalysisMode) goToMove(0);
-              }}
+              onFirst={() => goToNode(ROOT_ID)}
               onPrevious={() => {
-                if (isAnalysisMode && exploratoryMoves.length > 0) {
-                  analysisModeChess.undo();
-                  setExploratoryMoves(prev => prev.slice(0, -1));
-                  setFen(analysisModeChess.fen());
-                } else if (currentMove > 0) {
-                  goToMove(currentMove - 1);
-                }
+                if (currentNode.parentId) goToNode(currentNode.parentId);
               }}
               onNext={() => {
-                if (!isAnalysisMode && currentMove < moveHistory.length) {
-                  goToMove(currentMove + 1);
-                }
+                if (lineEnd.length > 0) goToNode(lineEnd[0]);
               }}
               onLast={() => {
-                if (!isAnalysisMode) goToMove(moveHistory.length);
+                if (lineEnd.length > 0) goToNode(lineEnd[lineEnd.length - 1]);
               }}
               onToggleAutoPlay={() => setIsAutoPlaying(!isAutoPlaying)}
               disabled={false}
             />
           </div>
 
+          {/* Eval-over-time graph from stored batch analyses; click a point to jump there */}
+          {!isAnalysisMode && gameAnalyses.length > 0 && (
+            <EvaluationGraph
+              analyses={gameAnalyses}
+              currentMove={currentMove}
+              onSelectPly={goToPly}
+            />
+          )}
+
+          {isAnalysisMode && engineLine && (
+            <div className="flex items-center gap-2 px-1 text-xs font-mono text-muted-foreground" data-testid="text-engine-line">
+              <span className="font-semibold text-foreground">{formatEngineScore(engineLine.score, engineLine.mate)}</span>
+              <span>d{engineLine.depth}</span>
+              <span className="truncate">{engineLine.san.slice(0, 10).join(" ")}</span>
+            </div>
+          )}
+
+          {storedGameId && !isAnalysisMode && (
+            <div className="flex justify-center">
+              {analysisJob?.status === "running" ? (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground" data-testid="text-game-analysis-progress">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  <span>Analizando partida {analysisJob.analyzedPlies}/{analysisJob.totalPlies}</span>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => startGameAnalysisMutation.mutate(storedGameId)}
+                  disabled={startGameAnalysisMutation.isPending}
+                  data-testid="button-analyze-game"
+                >
+                  <Cpu className="w-3 h-3 mr-2" />
+                  {gameAnalyses.length > 0 ? "Re-analizar partida" : "Analizar partida completa"}
+                </Button>
+              )}
+            </div>
+          )}
+
           {isEngineThinking && (
             <div className="flex items-center justify-center gap-2 text-sm text-primary py-2">
               <Loader2 className="h-4 w-4 animate-spin" />
@@ -1010,27 +1090,38 @@ export default function Trainer() {
             <Suspense fallback={<div className="p-4">Cargando panel...</div>}>
               <RightPanel
                 analysis={currentAnalysis}
-                moveHistory={moveHistory}
+                tree={tree}
+                currentNodeId={currentNodeId}
                 currentMove={currentMove}
                 isSpeaking={isSpeaking}
-                exploratoryMoves={exploratoryMoves}
-                isAnalysisMode={isAnalysisMode}
+                onSelectNode={goToNode}
+                onPromoteNode={(id: string) => updateTree(promoteToMainline(treeRef.current, id), currentNodeIdRef.current)}
+                onDeleteNode={(id: string) => {
+                  const parentId = getNode(treeRef.current, id).parentId || ROOT_ID;
+                  const stillShown = !getPath(treeRef.current, currentNodeIdRef.current).includes(id);
+                  updateTree(deleteFrom(treeRef.current, id), stillShown ? currentNodeIdRef.current : parentId);
+                }}
+                onCommentNode={(id: string, comment: string) => {
+                  updateTree(setComment(treeRef.current, id, comment), currentNodeIdRef.current);
+                }}
                 onAskQuestion={(q) => askQuestionMutation.mutate(q)}
                 lastAnswer={lastAnswer}
                 games={importedGames}
                 currentFen={fen}
                 onExportPgn={handleExportPgn}
+                onExplorerMove={isAnalysisMode ? (uci: string) => {
+                  handleMove({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+                } : undefined}
                 onSelectGame={(index: number) => {
                   const game = importedGames[index];
-                  chess.reset();
-                  chess.loadPgn(game.pgn);
-                  const moves = chess.history();
-                  const finalFen = chess.fen();
-                  const lastMoveObj = chess.history({ verbose: true}).slice(-1)[0];
-                  setMoveHistory(moves);
-                  setCurrentMove(moves.length);
-                  setFen(finalFen);
-                  setLastMove(lastMoveObj ? { from: lastMoveObj.from, to: lastMoveObj.to } : null);
+                  let gameTree;
+                  try {
+                    gameTree = readGameTree(game.pgn);
+                  } catch (error: any) {
+                    toast({ title: "Invalid PGN", description: error.message, variant: "destructive" });
+                    return;
+                  }
+                  loadTree(gameTree);
                   setCurrentAnalysis(null);
                   setIsAnalysisMode(false);
                   console.log('[games] selected game', index, game.white, 'vs', game.black);
@@ -1140,10 +1231,10 @@ export default function Trainer() {
       <MobileDock
         onLoad={() => setImportDialogOpen(true)}
         onPrevious={() => {
-          if (currentMove > 0) goToMove(currentMove - 1);
+          if (currentNode.parentId) goToNode(currentNode.parentId);
         }}
         onNext={() => {
-          if (currentMove < moveHistory.length) goToMove(currentMove + 1);
+          if (lineEnd.length > 0) goToNode(lineEnd[0]);
         }}
         onFlip={handleFlipBoard}
         onVoice={() => {
@@ -1153,8 +1244,8 @@ export default function Trainer() {
             description: "Switch to the Coach tab in the right panel to ask questions",
           });
         }}
-        canGoPrevious={currentMove > 0}
-        canGoNext={currentMove < moveHistory.length}
+        canGoPrevious={currentNodeId !== ROOT_ID}
+        canGoNext={lineEnd.length > 0}
       />
 
       {/* feat(subscriptions): Upgrade Modal */}
@@ -0,0 +1,151 @@
+/**
+ * E2E Tests for billing (checkout + signed webhooks)
+ * Runs the mock payment gateway, so start the server with:
+ *   BILLING_GATEWAY_URL=http://localhost:5299 BILLING_WEBHOOK_SECRET=whsec_test npm run dev:server
+ * Tests:
+ * 1. POST /api/billing/checkout → hosted checkout URL on the gateway
+ * 2. Pay → checkout.completed webhook activates PRO until the period end
+ * 3. Renewal webhook → period end moves forward
+ * 4. Forged and stale signatures → 400, plan unchanged
+ * 5. Cancellation webhook → back to the default plan
+ */
+
+import { startMockGateway, sign } from './mock-billing-gateway.js';
+
+const BASE_URL = process.env.API_URL || 'http://localhost:5001';
+const GATEWAY_PORT = parseInt(process.env.BILLING_MOCK_PORT || '5299', 10);
+const SECRET = process.env.BILLING_WEBHOOK_SECRET || 'whsec_test';
+
+const RUN_ID = Date.now().toString(36);
+let cookie = '';
+
+async function api(method, path, body) {
+  const headers = body ? { 'Content-Type': 'application/json' } : {};
+  if (cookie) headers.Cookie = cookie;
+  const res = await fetch(`${BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const setCookie = res.headers.get('set-cookie');
+  if (setCookie) cookie = setCookie.split(';')[0];
+  return { status: res.status, data: res.status === 204 ? null : await res.json() };
+}
+
+async function postWebhook(event, signature) {
+  const payload = JSON.stringify(event);
+  const res = await fetch(`${BASE_URL}/api/billing/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-billing-signature': signature ?? sign(payload, SECRET) },
+    body: payload,
+  });
+  return res.status;
+}
+
+async function runTests() {
+  console.log('=== E2E Billing Tests ===\n');
+
+  const gateway = await startMockGateway({
+    port: GATEWAY_PORT,
+    webhookUrl: `${BASE_URL}/api/billing/webhook`,
+    secret: SECRET,
+  });
+
+  let passed = 0;
+  let failed = 0;
+  const check = (name, ok, details) => {
+    if (ok) {
+      console.log(`  ✓ PASS: ${name}`);
+      passed++;
+    } else {
+      console.log(`  ✗ FAIL: ${name}`, details ?? '');
+      failed++;
+    }
+  };
+
+  const signup = await api('POST', '/api/auth/signup', { username: `billing_${RUN_ID}`, password: 'e2e-password' });
+  if (signup.status !== 201) throw new Error(`signup failed: ${signup.status} ${JSON.stringify(signup.data)}`);
+  const userId = signup.data.id;
+
+  let checkout;
+  let subscriptionId;
+  let firstPeriodEnd;
+
+  // TEST 1: checkout session
+  console.log('TEST 1: POST /api/billing/checkout');
+  try {
+    const { status, data } = await api('POST', '/api/billing/checkout', { plan: 'pro' });
+    checkout = data;
+    check('checkout URL on the gateway', status === 201 && data.url.startsWith(gateway.url), data);
+    const session = gateway.sessions.get(data.id);
+    check('session carries plan and user', !!session && session.plan === 'pro' && session.metadata.userId === userId, session);
+  } catch (error) {
+    check('checkout', false, error.message);
+  }
+
+  // TEST 2: pay
+  console.log('\nTEST 2: pay → checkout.completed');
+  try {
+    const res = await fetch(`${checkout.url}/pay`, { method: 'POST', redirect: 'manual' });
+    check('redirected back to the app', res.status === 303 && res.headers.get('location').includes('checkout=success'), res.status);
+    const delivery = gateway.deliveries[gateway.deliveries.length - 1];
+    check('webhook accepted', delivery.status === 200, delivery);
+    subscriptionId = delivery.event.data.subscriptionId;
+    firstPeriodEnd = delivery.event.data.currentPeriodEnd;
+
+    const { data } = await api('GET', '/api/plan');
+    check('plan is pro until the period end', data.plan === 'pro' && data.expiresAt === new Date(firstPeriodEnd * 1000).toISOString(), data);
+  } catch (error) {
+    check('pay', false, error.message);
+  }
+
+  // TEST 3: renewal
+  console.log('\nTEST 3: subscription.renewed');
+  try {
+    const renewed = await fetch(`${gateway.url}/v1/subscriptions/${subscriptionId}/renew`, { method: 'POST' }).then((r) => r.json());
+    check('webhook accepted', renewed.delivery.status === 200, renewed);
+    const { data } = await api('GET', '/api/plan');
+    check('period end moved forward', data.plan === 'pro' && new Date(data.expiresAt).getTime() > firstPeriodEnd * 1000, data);
+  } catch (error) {
+    check('renewal', false, error.message);
+  }
+
+  // TEST 4: bad signatures
+  console.log('\nTEST 4: forged and stale webhooks');
+  try {
+    const forged = {
+      id: 'evt_forged',
+      type: 'checkout.completed',
+      created: Math.floor(Date.now() / 1000),
+      data: { subscriptionId: 'sub_forged', plan: 'elite', userId, currentPeriodEnd: Math.floor(Date.now() / 1000) + 3600 },
+    };
+    check('wrong secret rejected', (await postWebhook(forged, sign(JSON.stringify(forged), 'not-the-secret'))) === 400);
+    check('missing signature rejected', (await postWebhook(forged, '')) === 400);
+    const stale = sign(JSON.stringify(forged), SECRET, Math.floor(Date.now() / 1000) - 3600);
+    check('stale timestamp rejected', (await postWebhook(forged, stale)) === 400);
+    const { data } = await api('GET', '/api/plan');
+    check('plan unchanged', data.plan === 'pro', data);
+  } catch (error) {
+    check('bad signatures', false, error.message);
+  }
+
+  // TEST 5: cancellation
+  console.log('\nTEST 5: subscription.canceled');
+  try {
+    const canceled = await fetch(`${gateway.url}/v1/subscriptions/${subscriptionId}/cancel`, { method: 'POST' }).then((r) => r.json());
+    check('webhook accepted', canceled.delivery.status === 200, canceled);
+    const { data } = await api('GET', '/api/plan');
+    check('back to free', data.plan === 'free' && data.expiresAt === null, data);
+  } catch (error) {
+    check('cancellation', false, error.message);
+  }
+
+  gateway.close();
+  console.log(`\n=== ${passed} passed, ${failed} failed ===`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests().catch((error) => {
+  console.error('E2E run failed:', error);
+  process.exit(1);
+});
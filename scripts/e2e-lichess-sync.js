@@ -0,0 +1,213 @@
+/**
+ * E2E Tests for Lichess account sync
+ * Runs a local stand-in for the Lichess games API, so start the server with:
+ *   LICHESS_API_URL=http://localhost:5199 npm run dev:server
+ * Signs up a fresh account first; every request carries its session cookie.
+ * Tests:
+ * 1. PUT /api/lichess/account → links the stand-in user
+ * 2. POST /api/lichess/sync → streams every game (NDJSON), ratings + clocks stored
+ * 3. New game on "Lichess" → next sync asks for `since` and imports only that game
+ * 4. Sync again → nothing new
+ * 5. Unknown user → job fails with a readable error
+ */
+
+import http from 'http';
+
+const BASE_URL = process.env.API_URL || 'http://localhost:5001';
+const STUB_PORT = parseInt(process.env.LICHESS_STUB_PORT || '5199', 10);
+
+// Unique per run so games from earlier runs don't count as duplicates
+const RUN_ID = Date.now().toString(36);
+const USERNAME = `sync_${RUN_ID}`.slice(0, 20);
+
+const OPENINGS = [
+  ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6'],
+  ['d4', 'd5', 'c4', 'e6', 'Nc3', 'Nf6'],
+  ['e4', 'c5', 'Nf3', 'd6', 'd4', 'cxd4'],
+  ['c4', 'e5', 'Nc3', 'Nf6', 'g3', 'd5'],
+];
+
+const games = [];
+const requests = [];
+let cookie = '';
+
+function makeGame(index, createdAt) {
+  const id = `${RUN_ID}${index}`.slice(-8).padStart(8, 'x');
+  const moves = OPENINGS[index % OPENINGS.length];
+  const movetext = moves
+    .map((san, ply) => `${ply % 2 === 0 ? `${ply / 2 + 1}. ` : ''}${san} { [%clk 0:0${4 - Math.floor(ply / 2)}:5${ply}] }`)
+    .join(' ');
+  const pgn = [
+    '[Event "Rated Blitz game"]',
+    `[Site "https://lichess.org/${id}"]`,
+    `[Date "2024.03.0${index + 1}"]`,
+    `[White "${USERNAME}"]`,
+    '[Black "opponent"]',
+    '[Result "1-0"]',
+    '[TimeControl "300+3"]',
+    '',
+    `${movetext} 1-0`,
+  ].join('\n');
+
+  return {
+    id,
+    rated: true,
+    speed: 'blitz',
+    createdAt,
+    lastMoveAt: createdAt + 60000,
+    status: 'resign',
+    winner: 'white',
+    players: {
+      white: { user: { name: USERNAME, id: USERNAME.toLowerCase() }, rating: 1800 + index },
+      black: { user: { name: 'opponent', id: 'opponent' }, rating: 1700 + index },
+    },
+    clock: { initial: 300, increment: 3, totalTime: 420 },
+    pgn,
+  };
+}
+
+function startStub() {
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${STUB_PORT}`);
+    const match = url.pathname.match(/^\/api\/games\/user\/([^/]+)$/);
+    if (!match) {
+      res.writeHead(404).end();
+      return;
+    }
+    requests.push(Object.fromEntries(url.searchParams));
+    if (decodeURIComponent(match[1]) !== USERNAME) {
+      res.writeHead(404, { 'Content-Type': 'application/json' }).end('{"error":"Not found"}');
+      return;
+    }
+
+    const since = parseInt(url.searchParams.get('since') || '0', 10);
+    const selected = games
+      .filter((g) => g.createdAt >= since)
+      .sort((a, b) => (url.searchParams.get('sort') === 'dateAsc' ? a.createdAt - b.createdAt : b.createdAt - a.createdAt));
+
+    // One line at a time, like the real endpoint
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    for (const game of selected) {
+      res.write(JSON.stringify(game) + '\n');
+      await sleep(50);
+    }
+    res.end();
+  });
+  return new Promise((resolve) => server.listen(STUB_PORT, () => resolve(server)));
+}
+
+async function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function api(method, path, body) {
+  const headers = body ? { 'Content-Type': 'application/json' } : {};
+  if (cookie) headers.Cookie = cookie;
+  const res = await fetch(`${BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const setCookie = res.headers.get('set-cookie');
+  if (setCookie) cookie = setCookie.split(';')[0];
+  return { status: res.status, data: res.status === 204 ? null : await res.json() };
+}
+
+async function syncAndWait() {
+  const start = await api('POST', '/api/lichess/sync');
+  if (start.status !== 202) throw new Error(`sync did not start: ${start.status} ${JSON.stringify(start.data)}`);
+  for (let i = 0; i < 60; i++) {
+    await sleep(250);
+    const { data } = await api('GET', '/api/lichess/sync');
+    if (data.job && data.job.status !== 'running') return data;
+  }
+  throw new Error('sync did not finish in time');
+}
+
+async function runTests() {
+  console.log('=== E2E Lichess Sync Tests ===\n');
+
+  const stub = await startStub();
+  const now = Date.now();
+  games.push(makeGame(0, now - 3000), makeGame(1, now - 2000), makeGame(2, now - 1000));
+
+  let passed = 0;
+  let failed = 0;
+  const check = (name, ok, details) => {
+    if (ok) {
+      console.log(`  ✓ PASS: ${name}`);
+      passed++;
+    } else {
+      console.log(`  ✗ FAIL: ${name}`, details ?? '');
+      failed++;
+    }
+  };
+
+  const signup = await api('POST', '/api/auth/signup', { username: `e2e_${RUN_ID}`, password: 'e2e-password' });
+  if (signup.status !== 201) throw new Error(`signup failed: ${signup.status} ${JSON.stringify(signup.data)}`);
+
+  // TEST 1: link account
+  console.log('TEST 1: PUT /api/lichess/account');
+  try {
+    const { status, data } = await api('PUT', '/api/lichess/account', { username: USERNAME });
+    check('account linked, sync cursor reset', status === 200 && data.lichessUsername === USERNAME && data.syncedUntil === null, data);
+  } catch (error) {
+    check('account linked', false, error.message);
+  }
+
+  // TEST 2: first sync imports everything
+  console.log('\nTEST 2: POST /api/lichess/sync (first run)');
+  try {
+    const state = await syncAndWait();
+    check('3 games imported', state.job.status === 'completed' && state.job.imported === 3, state.job);
+    check('no since on first run, oldest first', !('since' in requests[requests.length - 1]) && requests[requests.length - 1].sort === 'dateAsc', requests);
+    check('cursor at newest game', state.syncedUntil === new Date(games[2].createdAt).toISOString(), state.syncedUntil);
+
+    const { data } = await api('GET', `/api/games?player=${USERNAME}`);
+    const game = data.games.find((g) => g.whiteRating === 1802);
+    check('ratings from JSON payload', !!game && game.blackRating === 1702, data.games.map((g) => [g.whiteRating, g.blackRating]));
+    check('time control and clocks kept', !!game && game.timeControl === '300+3' && game.pgn.includes('[%clk'), game && game.pgn);
+  } catch (error) {
+    check('first sync', false, error.message);
+  }
+
+  // TEST 3: incremental
+  console.log('\nTEST 3: POST /api/lichess/sync (one new game)');
+  try {
+    games.push(makeGame(3, Date.now()));
+    const state = await syncAndWait();
+    const since = parseInt(requests[requests.length - 1].since, 10);
+    check('asked for games after the cursor', since === games[2].createdAt + 1, requests[requests.length - 1]);
+    check('1 game imported', state.job.imported === 1 && state.job.received === 1, state.job);
+  } catch (error) {
+    check('incremental sync', false, error.message);
+  }
+
+  // TEST 4: nothing new
+  console.log('\nTEST 4: POST /api/lichess/sync (up to date)');
+  try {
+    const state = await syncAndWait();
+    check('nothing imported', state.job.status === 'completed' && state.job.imported === 0 && state.job.received === 0, state.job);
+  } catch (error) {
+    check('up-to-date sync', false, error.message);
+  }
+
+  // TEST 5: unknown user
+  console.log('\nTEST 5: unknown Lichess user');
+  try {
+    await api('PUT', '/api/lichess/account', { username: 'nobody_here' });
+    const state = await syncAndWait();
+    check('job failed with message', state.job.status === 'failed' && /not found/.test(state.job.error), state.job);
+  } catch (error) {
+    check('unknown user', false, error.message);
+  }
+
+  stub.close();
+  console.log(`\n=== ${passed} passed, ${failed} failed ===`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests().catch((error) => {
+  console.error('E2E run failed:', error);
+  process.exit(1);
+});
@@ -1,200 +1,124 @@
 /**
  * E2E Tests for Trial System - feat(subscriptions)
+ * Signs up a fresh user, so every run starts with today's trial unused.
  * Tests:
  * 1. GET /api/plan → FREE + trial eligible
  * 2. POST /api/analyze (FREE) → uses MODEL_FREE + depth 14
  * 3. POST /api/analyze (FREE trial) → 1st PRO analysis allowed
- * 4. POST /api/analyze (FREE trial) → 2nd PRO analysis blocked (402)
- * 5. POST /api/analyze (FREE) → still works with lite model
+ * 4. GET /api/plan → trial no longer eligible (same answer as /api/analyze)
+ * 5. POST /api/analyze (FREE trial) → 2nd PRO analysis blocked (402)
+ * 6. POST /api/analyze (FREE) → still works with lite model
+ * 7. GET /api/usage/today → the caller's counters
  */
 
-const fetch = require('node-fetch');
-
 const BASE_URL = process.env.API_URL || 'http://localhost:5001';
 
-// Helper to reset trial store (for fresh tests)
-async function resetTrialStore() {
-  const fs = require('fs');
-  const path = require('path');
-  const trialStorePath = path.join(__dirname, '..', 'attached_assets', 'trial-store.json');
-  try {
-    if (fs.existsSync(trialStorePath)) {
-      fs.unlinkSync(trialStorePath);
-      console.log('✓ Trial store reset');
-    }
-  } catch (e) {
-    console.warn('Could not reset trial store:', e.message);
-  }
-}
+const RUN_ID = Date.now().toString(36);
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1';
+let cookie = '';
 
-async function sleep(ms) {
-  return new Promise(resolve => setTimeout(resolve, ms));
+async function api(method, path, body) {
+  const headers = body ? { 'Content-Type': 'application/json' } : {};
+  if (cookie) headers.Cookie = cookie;
+  const res = await fetch(`${BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const setCookie = res.headers.get('set-cookie');
+  if (setCookie) cookie = setCookie.split(';')[0];
+  return { status: res.status, data: await res.json().catch(() => null) };
 }
 
 async function runTests() {
   console.log('=== E2E Trial System Tests ===\n');
-  
-  // Reset trial store for fresh tests
-  await resetTrialStore();
-  await sleep(500);
 
   let passed = 0;
   let failed = 0;
-
-  // TEST 1: GET /api/plan
-  console.log('TEST 1: GET /api/plan (should return FREE + trial eligible)');
-  try {
-    const res = await fetch(`${BASE_URL}/api/plan?plan=free`);
-    const data = await res.json();
-    
-    if (data.plan === 'free' && data.trial && typeof data.trial.eligible === 'boolean') {
-      console.log('  ✓ PASS: Plan is FREE, trial info present');
+  const check = (name, ok, details) => {
+    if (ok) {
+      console.log(`  ✓ PASS: ${name}`);
       passed++;
     } else {
-      console.log('  ✗ FAIL: Invalid response', data);
+      console.log(`  ✗ FAIL: ${name}`, details ?? '');
       failed++;
     }
+  };
+
+  const signup = await api('POST', '/api/auth/signup', { username: `trial_${RUN_ID}`, password: 'e2e-password' });
+  if (signup.status !== 201) throw new Error(`signup failed: ${signup.status} ${JSON.stringify(signup.data)}`);
+
+  // TEST 1: GET /api/plan
+  console.log('TEST 1: GET /api/plan (should return FREE + trial eligible)');
+  try {
+    const { data } = await api('GET', '/api/plan');
+    check('plan is FREE with an unused trial', data.plan === 'free' && data.trial.eligible === true && data.trial.usedToday === false, data);
   } catch (error) {
-    console.log('  ✗ FAIL:', error.message);
-    failed++;
+    check('plan', false, error.message);
   }
 
   // TEST 2: POST /api/analyze (FREE - should use depth 14)
   console.log('\nTEST 2: POST /api/analyze (FREE - should use MODEL_FREE + depth 14)');
   try {
-    const res = await fetch(`${BASE_URL}/api/analyze?plan=free`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1',
-      }),
-    });
-    
-    if (!res.ok) {
-      throw new Error(`HTTP ${res.status}`);
-    }
-    
-    const data = await res.json();
-    
-    if (data.plan === 'free' && data.depth === 14 && data.model && data.model.includes('lite')) {
-      console.log(`  ✓ PASS: FREE uses depth ${data.depth}, model ${data.model}`);
-      passed++;
-    } else {
-      console.log(`  ✗ FAIL: Expected depth 14, got ${data.depth}, model: ${data.model}`);
-      failed++;
-    }
+    const { status, data } = await api('POST', '/api/analyze', { fen: START_FEN });
+    check(`FREE uses depth 14 and the lite model`, status === 200 && data.depth === 14 && data.model.includes('lite') && data.trialUsed === false, data);
   } catch (error) {
-    console.log('  ✗ FAIL:', error.message);
-    failed++;
+    check('free analysis', false, error.message);
   }
 
   // TEST 3: POST /api/analyze (FREE trial - 1st PRO analysis)
   console.log('\nTEST 3: POST /api/analyze (FREE trial - 1st PRO analysis should be allowed)');
   try {
-    const res = await fetch(`${BASE_URL}/api/analyze?plan=free`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1',
-        depth: 22, // PRO depth
-      }),
-    });
-    
-    if (!res.ok) {
-      throw new Error(`HTTP ${res.status}`);
-    }
-    
-    const data = await res.json();
-    
-    if (data.trialUsed === true && data.depth === 22) {
-      console.log(`  ✓ PASS: 1st PRO analysis allowed, trial used, depth ${data.depth}`);
-      passed++;
-    } else {
-      console.log(`  ✗ FAIL: Expected trialUsed=true, got ${data.trialUsed}, depth ${data.depth}`);
-      failed++;
-    }
+    const { status, data } = await api('POST', '/api/analyze', { fen: START_FEN, depth: 20 });
+    check('1st PRO analysis runs on the trial', status === 200 && data.trialUsed === true && data.depth === 20, data);
   } catch (error) {
-    console.log('  ✗ FAIL:', error.message);
-    failed++;
+    check('trial analysis', false, error.message);
   }
 
-  // TEST 4: POST /api/analyze (FREE trial - 2nd PRO analysis should block)
-  console.log('\nTEST 4: POST /api/analyze (FREE trial - 2nd PRO analysis should return 402)');
+  // TEST 4: GET /api/plan agrees with /api/analyze
+  console.log('\nTEST 4: GET /api/plan (trial should now be used up)');
   try {
-    const res = await fetch(`${BASE_URL}/api/analyze?plan=free`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        fen: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2',
-        depth: 22, // PRO depth
-      }),
-    });
-    
-    if (res.status === 402) {
-      const data = await res.json();
-      if (data.reason === 'TRIAL_ENDED') {
-        console.log('  ✓ PASS: 2nd PRO analysis correctly blocked with 402 TRIAL_ENDED');
-        passed++;
-      } else {
-        console.log(`  ✗ FAIL: Expected reason=TRIAL_ENDED, got ${data.reason}`);
-        failed++;
-      }
-    } else {
-      const data = await res.json().catch(() => ({}));
-      console.log(`  ✗ FAIL: Expected 402, got ${res.status}`, data);
-      failed++;
-    }
+    const { data } = await api('GET', '/api/plan');
+    check('banner no longer offers the trial', data.trial.eligible === false && data.trial.usedToday === true && data.trial.remainingAnalyses === 0, data);
   } catch (error) {
-    console.log('  ✗ FAIL:', error.message);
-    failed++;
+    check('plan after trial', false, error.message);
   }
 
-  // TEST 5: POST /api/analyze (FREE still works after trial)
-  console.log('\nTEST 5: POST /api/analyze (FREE should still work with lite model + depth 14)');
+  // TEST 5: POST /api/analyze (FREE trial - 2nd PRO analysis should block)
+  console.log('\nTEST 5: POST /api/analyze (FREE trial - 2nd PRO analysis should return 402)');
   try {
-    const res = await fetch(`${BASE_URL}/api/analyze?plan=free`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1',
-        // No depth specified → should use FREE depth (14)
-      }),
+    const { status, data } = await api('POST', '/api/analyze', {
+      fen: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2',
+      depth: 20,
     });
-    
-    if (!res.ok) {
-      throw new Error(`HTTP ${res.status}`);
-    }
-    
-    const data = await res.json();
-    
-    if (data.plan === 'free' && data.depth === 14) {
-      console.log(`  ✓ PASS: FREE still works with depth ${data.depth}`);
-      passed++;
-    } else {
-      console.log(`  ✗ FAIL: Expected depth 14, got ${data.depth}`);
-      failed++;
-    }
+    check('2nd PRO analysis blocked with 402 TRIAL_ENDED', status === 402 && data.reason === 'TRIAL_ENDED', { status, data });
+  } catch (error) {
+    check('blocked analysis', false, error.message);
+  }
+
+  // TEST 6: POST /api/analyze (FREE still works after trial)
+  console.log('\nTEST 6: POST /api/analyze (FREE should still work with lite model + depth 14)');
+  try {
+    const { status, data } = await api('POST', '/api/analyze', { fen: START_FEN });
+    check('FREE still works', status === 200 && data.plan === 'free' && data.depth === 14, data);
   } catch (error) {
-    console.log('  ✗ FAIL:', error.message);
-    failed++;
+    check('free after trial', false, error.message);
   }
 
-  // Summary
-  console.log('\n=== Test Summary ===');
-  console.log(`Passed: ${passed}`);
-  console.log(`Failed: ${failed}`);
-  console.log(`Total: ${passed + failed}`);
-  
-  if (failed === 0) {
-    console.log('\n✓ All tests passed!');
-    process.exit(0);
-  } else {
-    console.log('\n✗ Some tests failed');
-    process.exit(1);
+  // TEST 7: GET /api/usage/today
+  console.log('\nTEST 7: GET /api/usage/today');
+  try {
+    const { data } = await api('GET', '/api/usage/today');
+    check('counts this user\'s analyses', data.usage.trialAnalyses === 1 && data.usage.stockfishCalls === 3, data);
+  } catch (error) {
+    check('usage', false, error.message);
   }
+
+  console.log(`\n=== ${passed} passed, ${failed} failed ===`);
+  process.exit(failed > 0 ? 1 : 0);
 }
 
-runTests().catch(error => {
-  console.error('Test runner error:', error);
+runTests().catch((error) => {
+  console.error('E2E run failed:', error);
   process.exit(1);
 });
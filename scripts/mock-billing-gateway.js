@@ -0,0 +1,154 @@
+/**
+ * Local stand-in for the payment gateway (see server/lib/billing.ts).
+ * Run it next to the dev server:
+ *   BILLING_WEBHOOK_SECRET=whsec_dev node scripts/mock-billing-gateway.js
+ *   BILLING_GATEWAY_URL=http://localhost:5299 BILLING_WEBHOOK_SECRET=whsec_dev npm run dev:server
+ *
+ * API (same shape as the real gateway):
+ *   POST /v1/checkout/sessions          → { id, url }
+ *   GET  /checkout/:id                  → hosted page with Pay / Cancel buttons
+ *   POST /checkout/:id/pay              → checkout.completed webhook, redirect to successUrl
+ *   POST /checkout/:id/cancel           → redirect to cancelUrl
+ * Test controls:
+ *   POST /v1/subscriptions/:id/renew    → subscription.renewed webhook (+1 period)
+ *   POST /v1/subscriptions/:id/cancel   → subscription.canceled webhook
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+
+const PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+function sign(payload, secret, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+}
+
+function json(res, status, data) {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(data));
+}
+
+export function startMockGateway({ port = 5299, webhookUrl, secret }) {
+  const base = `http://localhost:${port}`;
+  const sessions = new Map();
+  const subscriptions = new Map();
+  const deliveries = [];
+
+  async function deliver(type, data) {
+    const event = { id: `evt_${crypto.randomBytes(8).toString('hex')}`, type, created: Math.floor(Date.now() / 1000), data };
+    const payload = JSON.stringify(event);
+    const res = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-billing-signature': sign(payload, secret) },
+      body: payload,
+    });
+    const delivery = { event, status: res.status };
+    deliveries.push(delivery);
+    return delivery;
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, base);
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    try {
+      if (req.method === 'POST' && url.pathname === '/v1/checkout/sessions') {
+        const body = JSON.parse((await readBody(req)) || '{}');
+        if (!body.plan || !body.successUrl || !body.cancelUrl) return json(res, 400, { error: 'plan, successUrl and cancelUrl are required' });
+        const id = `cs_${crypto.randomBytes(8).toString('hex')}`;
+        sessions.set(id, { id, ...body, status: 'open' });
+        return json(res, 200, { id, url: `${base}/checkout/${id}` });
+      }
+
+      if (parts[0] === 'checkout' && parts[1]) {
+        const session = sessions.get(parts[1]);
+        if (!session) return json(res, 404, { error: 'No such checkout session' });
+
+        if (req.method === 'GET' && parts.length === 2) {
+          res.writeHead(200, { 'Content-Type': 'text/html' }).end(
+            `<h1>Mock checkout: ${session.plan}</h1>` +
+              `<form method="post" action="/checkout/${session.id}/pay"><button>Pay</button></form>` +
+              `<form method="post" action="/checkout/${session.id}/cancel"><button>Cancel</button></form>`
+          );
+          return;
+        }
+        if (req.method === 'POST' && parts[2] === 'pay') {
+          const subscription = {
+            id: `sub_${crypto.randomBytes(8).toString('hex')}`,
+            customerId: `cus_${session.metadata?.userId ?? 'anon'}`,
+            plan: session.plan,
+            userId: session.metadata?.userId,
+            currentPeriodEnd: Math.floor(Date.now() / 1000) + PERIOD_SECONDS,
+          };
+          subscriptions.set(subscription.id, subscription);
+          session.status = 'complete';
+          await deliver('checkout.completed', {
+            subscriptionId: subscription.id,
+            customerId: subscription.customerId,
+            plan: subscription.plan,
+            userId: subscription.userId,
+            currentPeriodEnd: subscription.currentPeriodEnd,
+          });
+          res.writeHead(303, { Location: session.successUrl }).end();
+          return;
+        }
+        if (req.method === 'POST' && parts[2] === 'cancel') {
+          session.status = 'expired';
+          res.writeHead(303, { Location: session.cancelUrl }).end();
+          return;
+        }
+      }
+
+      if (req.method === 'POST' && parts[0] === 'v1' && parts[1] === 'subscriptions' && parts[2]) {
+        const subscription = subscriptions.get(parts[2]);
+        if (!subscription) return json(res, 404, { error: 'No such subscription' });
+
+        if (parts[3] === 'renew') {
+          subscription.currentPeriodEnd += PERIOD_SECONDS;
+          const delivery = await deliver('subscription.renewed', {
+            subscriptionId: subscription.id,
+            plan: subscription.plan,
+            currentPeriodEnd: subscription.currentPeriodEnd,
+          });
+          return json(res, 200, { subscription, delivery });
+        }
+        if (parts[3] === 'cancel') {
+          const delivery = await deliver('subscription.canceled', { subscriptionId: subscription.id });
+          subscriptions.delete(subscription.id);
+          return json(res, 200, { subscription, delivery });
+        }
+      }
+
+      json(res, 404, { error: 'Not found' });
+    } catch (error) {
+      json(res, 500, { error: error.message });
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, () =>
+      resolve({ url: base, sessions, subscriptions, deliveries, close: () => server.close() })
+    );
+  });
+}
+
+// Standalone: node scripts/mock-billing-gateway.js
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = parseInt(process.env.BILLING_MOCK_PORT || '5299', 10);
+  const webhookUrl = process.env.BILLING_WEBHOOK_URL || 'http://localhost:5001/api/billing/webhook';
+  const secret = process.env.BILLING_WEBHOOK_SECRET || 'whsec_dev';
+  startMockGateway({ port, webhookUrl, secret }).then(({ url }) => {
+    console.log(`[mock-billing] listening on ${url}, webhooks → ${webhookUrl}`);
+  });
+}
+
+export { sign };
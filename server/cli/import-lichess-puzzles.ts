@@ -0,0 +1,63 @@
+// Import the Lichess puzzle database into the puzzles table.
+//
+//   npm run puzzles:import -- lichess_db_puzzle.csv
+//   zstdcat lichess_db_puzzle.csv.zst | npm run puzzles:import -- - --themes fork,pin --max-rating 1800
+//
+// Options: --themes <lichess tags>, --min-rating <n>, --max-rating <n>, --limit <n>.
+// Uses DATABASE_URL like the server; without it puzzles go to the local store.
+
+import fs from "fs";
+import { parseArgs } from "util";
+import { getStore } from "../lib/store-provider";
+import { importLichessPuzzles } from "../lib/puzzle-import";
+
+function intOption(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed)) throw new Error(`--${name} must be a number`);
+  return parsed;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      themes: { type: "string" },
+      "min-rating": { type: "string" },
+      "max-rating": { type: "string" },
+      limit: { type: "string" },
+    },
+  });
+  const file = positionals[0];
+  if (!file) {
+    throw new Error("Usage: import-lichess-puzzles <file.csv | -> [--themes a,b] [--min-rating n] [--max-rating n] [--limit n]");
+  }
+
+  const { store, provider } = await getStore();
+  const input = file === "-" ? process.stdin : fs.createReadStream(file);
+  const started = Date.now();
+  const result = await importLichessPuzzles(input, store, {
+    themes: values.themes?.split(",").map((theme) => theme.trim()).filter(Boolean),
+    minRating: intOption("min-rating", values["min-rating"]),
+    maxRating: intOption("max-rating", values["max-rating"]),
+    limit: intOption("limit", values.limit),
+    onProgress: (progress) => {
+      process.stderr.write(`\r[puzzle-import] imported=${progress.imported} duplicates=${progress.duplicates} skipped=${progress.skipped} failed=${progress.failed}`);
+    },
+  });
+
+  process.stderr.write("\n");
+  for (const error of result.errors) {
+    console.error(`[puzzle-import] line ${error.line}: ${error.message}`);
+  }
+  console.log(
+    `[puzzle-import] provider=${provider} imported=${result.imported} duplicates=${result.duplicates} skipped=${result.skipped} failed=${result.failed} in ${Date.now() - started}ms`
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[puzzle-import] failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,47 @@
+// Promote an existing account to admin (plan administration).
+//
+//   npm run users:make-admin -- coach
+//   npm run users:make-admin -- coach --claim-unowned
+//
+// The username must match exactly. --claim-unowned also hands the account the games
+// and settings saved before accounts existed.
+// Uses DATABASE_URL like the server; without it the local store is updated.
+
+import { parseArgs } from "util";
+import { getStore } from "../lib/store-provider";
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "claim-unowned": { type: "boolean" },
+    },
+  });
+  const username = positionals[0];
+  if (!username) {
+    throw new Error("Usage: make-admin <username> [--claim-unowned]");
+  }
+
+  const { store, provider } = await getStore();
+  const user = await store.getUserByUsername(username);
+  if (!user) {
+    throw new Error(`No account named "${username}"`);
+  }
+
+  if (!user.isAdmin) {
+    await store.updateUser(user.id, { isAdmin: true });
+  }
+  if (values["claim-unowned"]) {
+    await store.claimUnownedData(user.id);
+  }
+  console.log(
+    `[make-admin] provider=${provider} ${user.username} is admin${values["claim-unowned"] ? " and owns the data stored before accounts" : ""}`
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[make-admin] failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -17,7 +17,9 @@ if (!process.env.DATABASE_URL) {
   console.warn("DATABASE_URL not set — database disabled; falling back to local store where appropriate.");
   const rejecter = () => Promise.reject(new Error("Database not configured (DATABASE_URL missing)"));
   const proxy: any = new Proxy({}, {
-    get: () => rejecter,
+    // Awaiting the proxy (as storage's getDb() does) must reject too, not leave an unhandled rejection
+    get: (_target, prop) =>
+      prop === "then" ? (_resolve: unknown, reject: (e: Error) => void) => rejecter().catch(reject) : rejecter,
     apply: () => rejecter(),
     construct: () => { throw new Error("Database not configured"); }
   });
@@ -0,0 +1,121 @@
+// Accounts and login sessions. Passwords are hashed with scrypt; a session is
+// a random token in an httpOnly cookie (read through cookie-parser) whose
+// SHA-256 is stored in the sessions table, so a leaked table can't be replayed.
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { User } from "@shared/schema";
+import type { AuthUser } from "@shared/types";
+import type { IStorage } from "../storage";
+import { getStore } from "./store-provider";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+export const SESSION_COOKIE = "gm_session";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SCRYPT_KEYLEN = 64;
+
+function scryptAsync(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEYLEN, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * "scrypt$<salt>$<hash>", both hex.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const key = await scryptAsync(password, salt);
+  return `scrypt$${salt}$${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string | null): Promise<boolean> {
+  const [scheme, salt, hash] = (stored || "").split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const key = await scryptAsync(password, salt);
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function toAuthUser(user: User): AuthUser {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    lichessUsername: user.lichessUsername,
+    isAdmin: user.isAdmin,
+  };
+}
+
+/**
+ * Open a session for `userId` and set its cookie on the response.
+ */
+export async function startSession(res: Response, store: IStorage, userId: number): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await store.createSession({ id: hashToken(token), userId, expiresAt });
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    expires: expiresAt,
+  });
+}
+
+export async function endSession(req: Request, res: Response, store: IStorage): Promise<void> {
+  const token = req.cookies?.[SESSION_COOKIE];
+  if (token) await store.deleteSession(hashToken(token));
+  res.clearCookie(SESSION_COOKIE);
+}
+
+/**
+ * Populates req.user from the session cookie. Requests without a valid
+ * session continue anonymously.
+ */
+export async function authenticate(req: Request, _res: Response, next: NextFunction) {
+  const token = req.cookies?.[SESSION_COOKIE];
+  if (!token) return next();
+
+  try {
+    const { store } = await getStore();
+    const session = await store.getSession(hashToken(token));
+    if (session && session.expiresAt.getTime() > Date.now()) {
+      const user = await store.getUser(session.userId);
+      if (user) req.user = toAuthUser(user);
+    } else if (session) {
+      await store.deleteSession(session.id);
+    }
+  } catch (error) {
+    console.error("[auth] session lookup failed:", error instanceof Error ? error.message : error);
+  }
+  next();
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: "Sign in required" });
+  }
+  next();
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: "Sign in required" });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ error: "Admins only" });
+  }
+  next();
+}
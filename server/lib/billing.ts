@@ -0,0 +1,177 @@
+// Paid plans through the payment gateway: checkout sessions are created on
+// the gateway's API and the gateway reports the outcome through a signed
+// webhook, which activates, renews and cancels the user's subscription row.
+// In development and tests BILLING_GATEWAY_URL points at the mock gateway
+// (scripts/mock-billing-gateway.js), which speaks the same protocol.
+//
+// Webhook signature header: `x-billing-signature: t=<unix seconds>,v1=<hex>`
+// where v1 = HMAC-SHA256(BILLING_WEBHOOK_SECRET, "<t>.<raw request body>").
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Subscription } from "@shared/schema";
+import type { IStorage } from "../storage";
+
+export type PaidPlan = "pro" | "elite";
+
+export const SIGNATURE_HEADER = "x-billing-signature";
+
+// Signed events older than this are rejected (replay protection)
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface CheckoutSession {
+  id: string;
+  url: string; // Where to send the browser to pay
+}
+
+export interface BillingEvent {
+  id: string;
+  type: "checkout.completed" | "subscription.renewed" | "subscription.canceled";
+  created: number; // Unix seconds
+  data: {
+    subscriptionId: string;
+    customerId?: string;
+    plan?: PaidPlan;
+    userId?: number; // Checkout metadata, echoed on checkout.completed
+    currentPeriodEnd?: number; // Unix seconds
+  };
+}
+
+export class BillingSignatureError extends Error {}
+
+function billingConfig() {
+  return {
+    gatewayUrl: (process.env.BILLING_GATEWAY_URL || "").replace(/\/+$/, ""),
+    apiKey: process.env.BILLING_API_KEY || "",
+    webhookSecret: process.env.BILLING_WEBHOOK_SECRET || "",
+    prices: {
+      pro: process.env.BILLING_PRICE_PRO || "price_pro",
+      elite: process.env.BILLING_PRICE_ELITE || "price_elite",
+    } as Record<PaidPlan, string>,
+  };
+}
+
+export function isBillingConfigured(): boolean {
+  const config = billingConfig();
+  return !!config.gatewayUrl && !!config.webhookSecret;
+}
+
+/**
+ * Create a hosted checkout for `plan`; the user is sent back to successUrl
+ * or cancelUrl. The subscription only changes once the webhook arrives.
+ */
+export async function createCheckoutSession(
+  userId: number,
+  plan: PaidPlan,
+  urls: { successUrl: string; cancelUrl: string }
+): Promise<CheckoutSession> {
+  const config = billingConfig();
+  if (!config.gatewayUrl) throw new Error("Billing is not configured");
+
+  const res = await fetch(`${config.gatewayUrl}/v1/checkout/sessions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${config.apiKey}`,
+    },
+    body: JSON.stringify({
+      price: config.prices[plan],
+      plan,
+      successUrl: urls.successUrl,
+      cancelUrl: urls.cancelUrl,
+      metadata: { userId },
+    }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`Payment gateway error ${res.status}${text ? `: ${text}` : ""}`);
+  }
+
+  const session = (await res.json()) as CheckoutSession;
+  if (!session.id || !session.url) throw new Error("Payment gateway returned no checkout URL");
+  return session;
+}
+
+export function signPayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check the signature over the raw body and parse the event. Throws
+ * BillingSignatureError for anything that wasn't signed by the gateway.
+ */
+export function verifyWebhook(rawBody: Buffer | undefined, header: string | undefined): BillingEvent {
+  const { webhookSecret } = billingConfig();
+  if (!webhookSecret) throw new BillingSignatureError("Billing webhook secret is not configured");
+  if (!rawBody || !header) throw new BillingSignatureError("Missing signature or body");
+
+  const parts = new Map<string, string>();
+  header.split(",").forEach((part) => {
+    const index = part.indexOf("=");
+    if (index > 0) parts.set(part.slice(0, index).trim(), part.slice(index + 1).trim());
+  });
+  const timestamp = parseInt(parts.get("t") || "", 10);
+  const signature = parts.get("v1") || "";
+  if (isNaN(timestamp) || !signature) throw new BillingSignatureError("Malformed signature header");
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new BillingSignatureError("Signature timestamp outside tolerance");
+  }
+
+  const expected = Buffer.from(signPayload(rawBody.toString("utf8"), webhookSecret, timestamp).split("v1=")[1], "hex");
+  const received = Buffer.from(signature, "hex");
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new BillingSignatureError("Signature mismatch");
+  }
+
+  return JSON.parse(rawBody.toString("utf8")) as BillingEvent;
+}
+
+function periodEnd(event: BillingEvent): Date | null {
+  return event.data.currentPeriodEnd ? new Date(event.data.currentPeriodEnd * 1000) : null;
+}
+
+/**
+ * Apply a verified event to the subscriptions table. Every update sets
+ * absolute values, so a redelivered event is harmless. Returns the saved
+ * row, or null for events that don't match a subscription.
+ */
+export async function applyBillingEvent(event: BillingEvent, store: IStorage): Promise<Subscription | null> {
+  const { subscriptionId } = event.data;
+
+  if (event.type === "checkout.completed") {
+    const userId = Number(event.data.userId);
+    if (!userId || !(await store.getUser(userId))) throw new Error(`Checkout for unknown user ${event.data.userId}`);
+    if (event.data.plan !== "pro" && event.data.plan !== "elite") throw new Error(`Checkout for unknown plan ${event.data.plan}`);
+    return await store.saveSubscription({
+      userId,
+      plan: event.data.plan,
+      status: "active",
+      grantedBy: null,
+      billingSubscriptionId: subscriptionId,
+      billingCustomerId: event.data.customerId ?? null,
+      expiresAt: periodEnd(event),
+    });
+  }
+
+  const subscription = await store.getSubscriptionByBillingId(subscriptionId);
+  if (!subscription) return null;
+
+  if (event.type === "subscription.renewed") {
+    return await store.saveSubscription({
+      userId: subscription.userId,
+      plan: event.data.plan || subscription.plan,
+      status: "active",
+      expiresAt: periodEnd(event),
+    });
+  }
+
+  if (event.type === "subscription.canceled") {
+    return await store.saveSubscription({
+      userId: subscription.userId,
+      plan: subscription.plan,
+      status: "canceled",
+    });
+  }
+
+  return null;
+}
@@ -73,6 +73,9 @@ export const ttsCache = new LRUCache(200);
 // GPT response cache: 10MB for text responses
 export const gptCache = new LRUCache(10);
 
+// Engine evaluation cache: 20MB of serialized evaluations (see eval-cache.ts)
+export const evalCache = new LRUCache(20);
+
 // Generate cache key for TTS (Cost Saver Pack v6.0: includes provider for isolation)
 export function getTTSCacheKey(
   text: string, 
@@ -90,6 +93,11 @@ export function getGPTCacheKey(fen: string, language: string, voiceMode: string,
   return `gpt:${language}:${voiceMode}:${style}:${fenCore}`;
 }
 
+// Generate cache key for engine evaluations (fenCore = first four FEN fields)
+export function getEvalCacheKey(fenCore: string): string {
+  return `eval:${fenCore}`;
+}
+
 // Local templates for trivial positions (no GPT call needed)
 export function getLocalTemplate(fen: string, language: string, voiceMode: string): string | null {
   const fenCore = fen.split(' ')[0]; // Just piece positions
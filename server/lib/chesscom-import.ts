@@ -0,0 +1,101 @@
+// Chess.com archive import: walks a player's monthly archives in a month
+// range and stores every game, reporting the outcome of each one. Months are
+// fetched one after another, as the public API asks of its clients.
+
+import type { Game, InsertGame } from "@shared/schema";
+import type { ChessComImportGame, ChessComImportResult } from "@shared/types";
+import { parsePgn } from "@shared/pgn";
+import type { IStorage } from "../storage";
+import { fetchArchiveMonths, fetchArchiveGames, type ChessComArchiveGame } from "./chesscom";
+import { gameRecord, openingFromEcoUrl, saveNewGames } from "./game-library";
+
+/**
+ * Whole months from `from` to `to` ("YYYY-MM"), e.g. 2024-01 → 2024-03 is 2.
+ */
+export function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split("-").map(Number);
+  const [toYear, toMonth] = to.split("-").map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+/**
+ * Library record for an archive game. Ratings and time control come from
+ * the JSON payload; the opening name from its ECO URL.
+ */
+export function chessComGameRecord(game: ChessComArchiveGame): InsertGame {
+  if (!game.pgn) throw new Error("Game has no PGN");
+  if (game.rules && game.rules !== "chess" && game.rules !== "chess960") {
+    throw new Error(`Unsupported variant "${game.rules}"`);
+  }
+  const parsed = parsePgn(game.pgn)[0];
+  if (!parsed) throw new Error("Game has no moves");
+
+  const record = gameRecord(parsed, game.pgn);
+  return {
+    ...record,
+    whiteRating: game.white.rating ?? record.whiteRating,
+    blackRating: game.black.rating ?? record.blackRating,
+    timeControl: game.time_control || record.timeControl,
+    opening: record.opening || openingFromEcoUrl(game.eco),
+  };
+}
+
+export async function importChessComArchives(
+  username: string,
+  from: string,
+  to: string,
+  store: IStorage,
+  userId: number
+): Promise<ChessComImportResult> {
+  const result: ChessComImportResult = { username, months: [], imported: 0, duplicates: 0, failed: 0, games: [] };
+
+  // "YYYY-MM" strings compare chronologically
+  const months = (await fetchArchiveMonths(username)).filter((month) => month >= from && month <= to);
+
+  for (const month of months) {
+    let games: ChessComArchiveGame[];
+    try {
+      games = await fetchArchiveGames(username, month);
+    } catch (error) {
+      result.months.push({ month, games: 0, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    result.months.push({ month, games: games.length });
+
+    const reports: ChessComImportGame[] = [];
+    const pending: Array<{ report: ChessComImportGame; record: InsertGame }> = [];
+    games.forEach((game) => {
+      const report: ChessComImportGame = { url: game.url, month, status: "failed" };
+      reports.push(report);
+      try {
+        pending.push({ report, record: chessComGameRecord(game) });
+      } catch (error) {
+        report.error = error instanceof Error ? error.message : String(error);
+      }
+    });
+
+    const { created } = await saveNewGames(pending.map((p) => p.record), store, userId);
+    const createdByHash = new Map<string, Game>();
+    created.forEach((game) => createdByHash.set(game.headerHash!, game));
+
+    pending.forEach(({ report, record }) => {
+      const game = createdByHash.get(record.headerHash!);
+      if (game) {
+        report.status = "imported";
+        report.gameId = game.id;
+        createdByHash.delete(record.headerHash!); // A repeat within the month is a duplicate
+      } else {
+        report.status = "duplicate";
+      }
+    });
+
+    reports.forEach((report) => {
+      if (report.status === "imported") result.imported++;
+      else if (report.status === "duplicate") result.duplicates++;
+      else result.failed++;
+    });
+    result.games.push(...reports);
+  }
+
+  return result;
+}
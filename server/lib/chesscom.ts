@@ -55,3 +55,61 @@ export async function fetchPgnByChessComUrl(rawUrl: string): Promise<string> {
     throw new Error(e?.message || "Failed to fetch Chess.com PGN");
   }
 }
+
+//
+// Chess.com public API (monthly game archives)
+//
+// Overridable so tests can point at a local stand-in server
+const CHESSCOM_API_URL = (process.env.CHESSCOM_API_URL || "https://api.chess.com").replace(/\/$/, "");
+
+export interface ChessComArchiveGame {
+  url: string;
+  pgn?: string;
+  uuid?: string;
+  time_control?: string; // "180+2", or "1/259200" for daily
+  time_class?: string;
+  rules?: string; // "chess", "chess960", "crazyhouse", ...
+  rated?: boolean;
+  end_time?: number; // Seconds since epoch
+  eco?: string; // Opening page URL
+  white: { username: string; rating?: number; result?: string };
+  black: { username: string; rating?: number; result?: string };
+}
+
+async function fetchChessComJson(path: string): Promise<any> {
+  const res = await fetch(`${CHESSCOM_API_URL}${path}`, {
+    headers: { "Accept": "application/json" },
+  });
+  if (res.status === 404) {
+    throw new Error("Chess.com player or archive not found");
+  }
+  if (res.status === 429) {
+    throw new Error("Chess.com rate limit reached, try again in a minute");
+  }
+  if (!res.ok) {
+    throw new Error(`Chess.com API error (HTTP ${res.status})`);
+  }
+  return await res.json();
+}
+
+/**
+ * Months with games for a player, as "YYYY-MM", oldest first.
+ */
+export async function fetchArchiveMonths(username: string): Promise<string[]> {
+  const data = await fetchChessComJson(`/pub/player/${encodeURIComponent(username.toLowerCase())}/games/archives`);
+  const archives: string[] = Array.isArray(data?.archives) ? data.archives : [];
+  return archives
+    .map((url) => url.match(/\/(\d{4})\/(\d{2})\/?$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map((m) => `${m[1]}-${m[2]}`)
+    .sort();
+}
+
+/**
+ * Games of one month ("YYYY-MM") in the order Chess.com returns them.
+ */
+export async function fetchArchiveGames(username: string, month: string): Promise<ChessComArchiveGame[]> {
+  const [year, mm] = month.split("-");
+  const data = await fetchChessComJson(`/pub/player/${encodeURIComponent(username.toLowerCase())}/games/${year}/${mm}`);
+  return Array.isArray(data?.games) ? data.games : [];
+}
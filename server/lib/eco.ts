@@ -0,0 +1,35 @@
+// ECO opening names from the client's eco.min.json, looked up by normalized FEN.
+
+import fs from "fs";
+import path from "path";
+import { normalizeFen } from "./eval-cache";
+
+const ECO_PATH = path.join(process.cwd(), "client", "public", "eco.min.json");
+
+export interface EcoOpening {
+  eco: string;
+  name: string;
+}
+
+let ecoIndex: Map<string, EcoOpening> | null = null;
+
+function loadIndex(): Map<string, EcoOpening> {
+  if (ecoIndex) return ecoIndex;
+  ecoIndex = new Map();
+  try {
+    const entries: Array<{ eco: string; name: string; fen: string }> = JSON.parse(fs.readFileSync(ECO_PATH, "utf-8"));
+    entries.forEach((entry) => {
+      ecoIndex!.set(normalizeFen(entry.fen), { eco: entry.eco, name: entry.name });
+    });
+  } catch (error) {
+    console.warn("[eco] could not load", ECO_PATH, error instanceof Error ? error.message : error);
+  }
+  return ecoIndex;
+}
+
+/**
+ * Named opening for an exact position, if eco.min.json has one.
+ */
+export function lookupOpening(fen: string): EcoOpening | undefined {
+  return loadIndex().get(normalizeFen(fen));
+}
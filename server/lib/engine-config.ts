@@ -0,0 +1,142 @@
+// UCI engine configuration: which binary the engine pool spawns and which
+// UCI options it sets. Read from engine/engine.json (or ENGINE_CONFIG_FILE)
+// with ENGINE_* env vars taking precedence. Without a usable external binary
+// the bundled JS build of Stockfish (node_modules/stockfish) is used.
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_CONFIG_FILE = path.join(process.cwd(), "engine", "engine.json");
+
+export interface EngineSettings {
+  path?: string; // Native UCI binary
+  args?: string[];
+  threads?: number;
+  hash?: number; // MB
+  options?: Record<string, string | number | boolean>; // Extra `setoption` pairs
+}
+
+export interface EngineCommand {
+  name: string; // For logs
+  command: string;
+  args: string[];
+  options: Record<string, string>; // Sent after `uciok`, before the first search
+  external: boolean;
+}
+
+function readSettingsFile(): EngineSettings {
+  const file = process.env.ENGINE_CONFIG_FILE || DEFAULT_CONFIG_FILE;
+  if (!fs.existsSync(file)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    console.warn(`[engine-config] ignoring unreadable ${file}:`, error instanceof Error ? error.message : error);
+    return {};
+  }
+}
+
+// ENGINE_OPTIONS="Name=value;Other Name=value" (UCI option names may contain spaces)
+function parseOptionsEnv(raw: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  raw.split(";").forEach((pair) => {
+    const index = pair.indexOf("=");
+    if (index > 0) options[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+  });
+  return options;
+}
+
+/**
+ * Effective settings: settings file overlaid with env vars.
+ */
+export function loadEngineSettings(): EngineSettings {
+  const settings = readSettingsFile();
+  const env = process.env;
+
+  return {
+    path: env.ENGINE_PATH || settings.path,
+    args: env.ENGINE_ARGS ? env.ENGINE_ARGS.split(/\s+/).filter(Boolean) : settings.args,
+    threads: env.ENGINE_THREADS ? parseInt(env.ENGINE_THREADS, 10) : settings.threads,
+    hash: env.ENGINE_HASH_MB ? parseInt(env.ENGINE_HASH_MB, 10) : settings.hash,
+    options: { ...settings.options, ...(env.ENGINE_OPTIONS ? parseOptionsEnv(env.ENGINE_OPTIONS) : {}) },
+  };
+}
+
+// Options that only change search speed, not what the engine finds at a given depth
+const PERFORMANCE_OPTIONS = new Set(["Threads", "Hash"]);
+
+/**
+ * Identity of an engine for the evaluation cache: its name plus the options
+ * that change its evaluations (e.g. "stockfish|Skill Level=10").
+ */
+export function engineCacheId(command: EngineCommand): string {
+  const options = Object.keys(command.options)
+    .filter((name) => !PERFORMANCE_OPTIONS.has(name))
+    .sort()
+    .map((name) => `${name}=${command.options[name]}`);
+  return [command.name, ...options].join("|");
+}
+
+/**
+ * The bundled single-threaded JS build, run under node.
+ */
+export function bundledEngineCommand(): EngineCommand {
+  const srcDir = path.join(__dirname, "../../node_modules/stockfish/src");
+
+  if (!fs.existsSync(srcDir)) {
+    throw new Error("Stockfish src directory not found");
+  }
+
+  const engineFile = fs
+    .readdirSync(srcDir)
+    .find(
+      (f) =>
+        f.startsWith("stockfish") &&
+        f.includes("single") &&
+        !f.includes("lite") &&
+        f.endsWith(".js")
+    );
+
+  if (!engineFile) {
+    throw new Error("Stockfish engine file not found");
+  }
+
+  return {
+    name: engineFile,
+    command: "node",
+    args: [path.join(srcDir, engineFile)],
+    options: {},
+    external: false,
+  };
+}
+
+/**
+ * The configured external engine, or the bundled build when none is configured
+ * or the binary isn't executable. `skipExternal` forces the bundled build (used
+ * after the external engine failed to start).
+ */
+export function resolveEngineCommand(skipExternal: boolean = false): EngineCommand {
+  const settings = loadEngineSettings();
+
+  if (settings.path && !skipExternal) {
+    const binary = path.resolve(process.cwd(), settings.path);
+    try {
+      fs.accessSync(binary, fs.constants.X_OK);
+
+      const options: Record<string, string> = {};
+      if (settings.threads) options["Threads"] = String(settings.threads);
+      if (settings.hash) options["Hash"] = String(settings.hash);
+      Object.keys(settings.options || {}).forEach((name) => {
+        options[name] = String(settings.options![name]);
+      });
+
+      return { name: path.basename(binary), command: binary, args: settings.args || [], options, external: true };
+    } catch {
+      console.warn(`[engine-config] ${binary} is not an executable file, using bundled Stockfish`);
+    }
+  }
+
+  return bundledEngineCommand();
+}
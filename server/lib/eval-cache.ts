@@ -0,0 +1,125 @@
+// Engine evaluation cache: in-memory LRU (cache.ts) in front of the
+// positionEvaluations table, or the local JSON store when the DB is down.
+// Entries are keyed by the first four FEN fields, so move counters don't
+// split identical positions, and by the engine (engineCacheId). They serve
+// any request at or below their depth and are only replaced by a deeper
+// search, or an equally deep one with at least as many lines.
+
+import type { PositionEvaluation } from "@shared/schema";
+import type { EngineEvaluation, EngineLine } from "./stockfish";
+import { evalCache, getEvalCacheKey } from "./cache";
+import { getStore } from "./store-provider";
+
+interface CachedEvaluation {
+  depth: number;
+  multiPv: number;
+  evaluation: EngineEvaluation;
+}
+
+/**
+ * Placement, side to move, castling rights and en passant square.
+ */
+export function normalizeFen(fen: string): string {
+  return fen.trim().split(/\s+/).slice(0, 4).join(" ");
+}
+
+function serves(entry: { depth: number; multiPv: number }, depth: number, multiPv: number): boolean {
+  return entry.depth >= depth && entry.multiPv >= multiPv;
+}
+
+/**
+ * Whether `next` may overwrite `current`: never with a shallower search.
+ */
+export function supersedes(next: { depth: number; multiPv: number }, current: { depth: number; multiPv: number }): boolean {
+  return next.depth > current.depth || (next.depth === current.depth && next.multiPv >= current.multiPv);
+}
+
+function memoKey(key: string, engine: string): string {
+  return getEvalCacheKey(`${engine}|${key}`);
+}
+
+// A deeper MultiPV entry can answer a narrower request
+function trimLines(evaluation: EngineEvaluation, multiPv: number): EngineEvaluation {
+  return { ...evaluation, lines: evaluation.lines.slice(0, multiPv) };
+}
+
+function fromRow(row: PositionEvaluation): EngineEvaluation {
+  const lines = (row.lines as EngineLine[] | null) || [];
+  return {
+    score: row.score ?? undefined,
+    mate: row.mate ?? undefined,
+    bestMove: row.bestMove ?? undefined,
+    depth: lines[0]?.depth ?? row.depth,
+    lines,
+  };
+}
+
+/**
+ * Look up a cached evaluation searched to at least `depth` with at least `multiPv` lines.
+ */
+export async function getCachedEvaluation(fen: string, engine: string, depth: number, multiPv: number): Promise<EngineEvaluation | null> {
+  const key = normalizeFen(fen);
+
+  const memo = evalCache.get(memoKey(key, engine));
+  if (memo) {
+    const entry = JSON.parse(memo as string) as CachedEvaluation;
+    if (serves(entry, depth, multiPv)) {
+      return trimLines(entry.evaluation, multiPv);
+    }
+  }
+
+  try {
+    const { store } = await getStore();
+    const row = await store.getPositionEvaluation(key, engine);
+    if (row && serves(row, depth, multiPv)) {
+      const evaluation = fromRow(row);
+      const entry: CachedEvaluation = { depth: row.depth, multiPv: row.multiPv, evaluation };
+      evalCache.set(memoKey(key, engine), JSON.stringify(entry));
+      return trimLines(evaluation, multiPv);
+    }
+  } catch (error) {
+    console.warn("[eval-cache] lookup failed:", error instanceof Error ? error.message : error);
+  }
+
+  return null;
+}
+
+/**
+ * Store a fresh evaluation. `depth` is the requested depth: the engine may
+ * report less when it stops early (e.g. forced mate), which still answers it.
+ */
+export async function cacheEvaluation(
+  fen: string,
+  engine: string,
+  depth: number,
+  multiPv: number,
+  evaluation: EngineEvaluation
+): Promise<void> {
+  const key = normalizeFen(fen);
+  const entry: CachedEvaluation = {
+    depth: Math.max(depth, evaluation.depth),
+    multiPv,
+    evaluation,
+  };
+  const memo = evalCache.get(memoKey(key, engine));
+  if (!memo || supersedes(entry, JSON.parse(memo as string) as CachedEvaluation)) {
+    evalCache.set(memoKey(key, engine), JSON.stringify(entry));
+  }
+
+  try {
+    const { store } = await getStore();
+    // The store applies the same rule against what it already holds
+    await store.savePositionEvaluation({
+      fen: key,
+      engine,
+      depth: entry.depth,
+      multiPv,
+      score: evaluation.score ?? null,
+      mate: evaluation.mate ?? null,
+      bestMove: evaluation.bestMove ?? null,
+      lines: evaluation.lines,
+    });
+  } catch (error) {
+    console.warn("[eval-cache] persist failed:", error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,207 @@
+// Full-game batch analysis: walks every ply of a stored game with Stockfish,
+// classifies each move by centipawn loss and persists rows to moveAnalyses.
+// Jobs run in-process, one per game; progress is kept in memory for polling.
+
+import { Chess, type Move } from "chess.js";
+import type { Game, InsertMoveAnalysis } from "@shared/schema";
+import type { AnalysisJob } from "@shared/types";
+import type { IStorage } from "../storage";
+import { getStockfishEvaluation } from "./stockfish";
+import { parsePgn } from "@shared/pgn";
+
+export type MoveClassification = "brilliant" | "good" | "inaccuracy" | "mistake" | "blunder";
+
+// Centipawn loss thresholds (mover's perspective)
+const INACCURACY_CP = 50;
+const MISTAKE_CP = 100;
+const BLUNDER_CP = 300;
+
+// Mate scores are mapped onto a capped centipawn scale so losses stay comparable
+const MATE_CP = 1000;
+
+// Batch jobs queue behind interactive engine requests
+const BATCH_PRIORITY = -1;
+
+const PIECE_VALUES: Record<string, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+const jobs = new Map<number, AnalysisJob>();
+
+/**
+ * Convert an engine score (side-to-move perspective) to White's perspective.
+ */
+export function toWhitePerspective(
+  evaluation: { score?: number; mate?: number },
+  sideToMove: "w" | "b"
+): { score?: number; mate?: number } {
+  const sign = sideToMove === "w" ? 1 : -1;
+  return {
+    score: evaluation.score !== undefined ? evaluation.score * sign : undefined,
+    mate: evaluation.mate !== undefined ? evaluation.mate * sign : undefined,
+  };
+}
+
+/**
+ * Collapse score/mate (White's perspective) into a single capped centipawn value.
+ */
+export function evalToCentipawns(score?: number | null, mate?: number | null): number {
+  // Mate 0 (side to move is mated) has no sign; the accompanying score carries it
+  if (mate !== undefined && mate !== null && mate !== 0) {
+    return mate > 0 ? MATE_CP : -MATE_CP;
+  }
+  if (score === undefined || score === null) return 0;
+  return Math.max(-MATE_CP, Math.min(MATE_CP, score));
+}
+
+/**
+ * Classify a move from the centipawn loss suffered by the side that played it.
+ * A best move that leaves material en prise is flagged as brilliant.
+ */
+export function classifyMove(cpLoss: number, isBestMove: boolean, isSacrifice: boolean): MoveClassification {
+  if (cpLoss >= BLUNDER_CP) return "blunder";
+  if (cpLoss >= MISTAKE_CP) return "mistake";
+  if (cpLoss >= INACCURACY_CP) return "inaccuracy";
+  if (isBestMove && isSacrifice) return "brilliant";
+  return "good";
+}
+
+function describeMove(san: string, classification: MoveClassification, cpLoss: number, bestMove?: string): string {
+  const loss = (cpLoss / 100).toFixed(1);
+  switch (classification) {
+    case "brilliant":
+      return `${san} is a brilliant sacrifice and the engine's top choice.`;
+    case "good":
+      return `${san} keeps the balance of the position.`;
+    default:
+      return `${san} is ${classification === "inaccuracy" ? "an" : "a"} ${classification} (loses ${loss} pawns).${bestMove ? ` Best was ${bestMove}.` : ""}`;
+  }
+}
+
+/**
+ * Returns the current (or last) job for a game, if any.
+ */
+export function getAnalysisJob(gameId: number): AnalysisJob | undefined {
+  return jobs.get(gameId);
+}
+
+/**
+ * Start analyzing a stored game. If a job for the game is already running, it is returned as-is.
+ * Existing moveAnalyses rows for the game are replaced.
+ */
+export function startGameAnalysis(game: Game, store: IStorage, depth: number): AnalysisJob {
+  const existing = jobs.get(game.id);
+  if (existing && existing.status === "running") {
+    return existing;
+  }
+
+  const parsed = parsePgn(game.pgn)[0];
+  if (!parsed) throw new Error("Game has no moves");
+  const moves = parsed.moves.map(m => ({
+    san: m.san,
+    from: m.uci.slice(0, 2),
+    to: m.uci.slice(2, 4),
+    promotion: m.uci.slice(4) || undefined,
+  }));
+
+  const job: AnalysisJob = {
+    gameId: game.id,
+    status: "running",
+    depth,
+    totalPlies: moves.length,
+    analyzedPlies: 0,
+    startedAt: new Date().toISOString(),
+  };
+  jobs.set(game.id, job);
+
+  runJob(job, parsed.startFen, moves, store)
+    .then(() => {
+      job.status = "completed";
+      job.finishedAt = new Date().toISOString();
+      console.log(`[game-analysis] game ${job.gameId} done (${job.analyzedPlies} plies, depth ${job.depth})`);
+    })
+    .catch((error: any) => {
+      job.status = "failed";
+      job.error = error?.message || "Analysis failed";
+      job.finishedAt = new Date().toISOString();
+      console.error(`[game-analysis] game ${job.gameId} failed:`, error);
+    });
+
+  return job;
+}
+
+async function runJob(
+  job: AnalysisJob,
+  startFen: string,
+  moves: Array<{ san: string; from: string; to: string; promotion?: string }>,
+  store: IStorage
+): Promise<void> {
+  await store.deleteGameAnalyses(job.gameId);
+
+  const chess = new Chess(startFen);
+  let before = await evaluateWhite(chess, job.depth);
+  job.startScore = before.score;
+  job.startMate = before.mate;
+
+  for (let ply = 0; ply < moves.length; ply++) {
+    const mover = chess.turn();
+    const played = chess.move({ from: moves[ply].from, to: moves[ply].to, promotion: moves[ply].promotion });
+    const after = await evaluateWhite(chess, job.depth);
+
+    const sign = mover === "w" ? 1 : -1;
+    const cpBefore = evalToCentipawns(before.score, before.mate);
+    const cpAfter = evalToCentipawns(after.score, after.mate);
+    const cpLoss = Math.max(0, sign * (cpBefore - cpAfter));
+
+    const uci = played.from + played.to + (played.promotion || "");
+    const isBestMove = before.bestMove === uci;
+    const classification = classifyMove(cpLoss, isBestMove, isSacrifice(chess, played));
+
+    const row: InsertMoveAnalysis = {
+      gameId: job.gameId,
+      moveNumber: ply + 1,
+      move: played.san,
+      fen: chess.fen(),
+      analysis: describeMove(played.san, classification, cpLoss, isBestMove ? undefined : before.bestMove),
+      evaluation: classification,
+      score: after.score ?? null,
+      mate: after.mate ?? null,
+      bestMove: before.bestMove ?? null,
+    };
+    await store.saveMoveAnalysis(row);
+
+    job.analyzedPlies = ply + 1;
+    before = after;
+  }
+}
+
+/**
+ * A piece left en prise: attacked by the opponent, and either undefended or
+ * attackable by a cheaper piece, for less material than it is worth.
+ */
+function isSacrifice(chess: Chess, played: Move): boolean {
+  if (played.piece === "p" || chess.isCheckmate()) return false;
+
+  const opponent = played.color === "w" ? "b" : "w";
+  const attackers = chess.attackers(played.to, opponent);
+  if (attackers.length === 0) return false;
+
+  const movedValue = PIECE_VALUES[played.piece];
+  const defended = chess.attackers(played.to, played.color).length > 0;
+  const cheapestAttacker = Math.min(...attackers.map(sq => PIECE_VALUES[chess.get(sq)?.type || "k"] || 100));
+  const losesMaterial = !defended || cheapestAttacker < movedValue;
+
+  return losesMaterial && movedValue > PIECE_VALUES[played.captured || "p"] + 1;
+}
+
+async function evaluateWhite(chess: Chess, depth: number): Promise<{ score?: number; mate?: number; bestMove?: string }> {
+  if (chess.isCheckmate()) {
+    // Side to move is mated: #0, with the capped score saying who won
+    return { score: chess.turn() === "w" ? -MATE_CP : MATE_CP, mate: 0 };
+  }
+  if (chess.isDraw() || chess.isStalemate()) {
+    return { score: 0 };
+  }
+
+  const evaluation = await getStockfishEvaluation(chess.fen(), depth, 1, { priority: BATCH_PRIORITY });
+  const white = toWhitePerspective(evaluation, chess.turn());
+  return { ...white, bestMove: evaluation.bestMove };
+}
@@ -0,0 +1,164 @@
+// Bulk PGN upload into the game library: split, parse and dedupe a whole
+// archive, then store the new games in batches.
+
+import { createHash } from "crypto";
+import type { Game, InsertGame } from "@shared/schema";
+import type { GameUploadResult } from "@shared/types";
+import { parsePgn, splitPgn, PgnParseError, STANDARD_START_FEN, type PgnGame } from "@shared/pgn";
+import type { IStorage } from "../storage";
+import { lookupOpening, type EcoOpening } from "./eco";
+
+// Keeps each INSERT well under Postgres' bind-parameter limit
+const BATCH_SIZE = 500;
+
+const ROSTER = ["Event", "Site", "Date", "Round", "White", "Black", "Result"];
+
+/**
+ * Dedupe key: the Seven Tag Roster plus the main line. The moves are included
+ * because archives are full of "?" headers that alone would collide.
+ */
+export function gameHeaderHash(game: PgnGame): string {
+  const roster = ROSTER.map((tag) => (game.headers[tag] || "?").trim().toLowerCase());
+  const moves = game.moves.map((m) => m.san).join(" ");
+  return createHash("sha256").update(`${roster.join("|")}\n${moves}`).digest("hex");
+}
+
+/**
+ * Opening name from a Chess.com ECOUrl header, e.g.
+ * ".../openings/Italian-Game-Giuoco-Piano" → "Italian Game Giuoco Piano".
+ */
+export function openingFromEcoUrl(url: string | undefined): string | undefined {
+  const match = (url || "").match(/\/openings\/([^/?#]+)/);
+  if (!match) return undefined;
+  try {
+    return decodeURIComponent(match[1]).replace(/-/g, " ").trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * ECO code and name: the ECO/Opening (or Chess.com ECOUrl) headers when
+ * present, otherwise the deepest named position of the main line.
+ */
+function detectOpening(game: PgnGame): { eco?: string; opening?: string } {
+  let eco = game.headers.ECO;
+  let opening = game.headers.Opening || openingFromEcoUrl(game.headers.ECOUrl);
+  if ((!eco || !opening) && game.startFen === STANDARD_START_FEN) {
+    let named: EcoOpening | undefined;
+    for (const move of game.moves) {
+      named = lookupOpening(move.fen) || named;
+    }
+    if (named) {
+      eco = eco || named.eco;
+      opening = opening || named.name;
+    }
+  }
+  return { eco, opening };
+}
+
+function rating(value: string | undefined): number | null {
+  const parsed = parseInt(value || "", 10);
+  return isNaN(parsed) ? null : parsed;
+}
+
+export function gameRecord(game: PgnGame, pgn: string): InsertGame {
+  const { eco, opening } = detectOpening(game);
+  return {
+    pgn,
+    white: game.headers.White || "White",
+    black: game.headers.Black || "Black",
+    result: game.result !== "*" ? game.result : game.headers.Result,
+    date: game.headers.Date,
+    event: game.headers.Event,
+    site: game.headers.Site,
+    opening,
+    eco,
+    whiteRating: rating(game.headers.WhiteElo),
+    blackRating: rating(game.headers.BlackElo),
+    timeControl: game.headers.TimeControl && game.headers.TimeControl !== "?" ? game.headers.TimeControl : null,
+    headerHash: gameHeaderHash(game),
+  };
+}
+
+/**
+ * Store the records whose header hash isn't in the user's library yet.
+ */
+export async function saveNewGames(
+  records: InsertGame[],
+  store: IStorage,
+  userId: number
+): Promise<{ created: Game[]; duplicates: number }> {
+  const saved = { created: [] as Game[], duplicates: 0 };
+
+  for (let i = 0; i < records.length; i += BATCH_SIZE) {
+    const batch = records.slice(i, i + BATCH_SIZE);
+    const existing = new Set((await store.getGamesByHeaderHash(userId, batch.map((r) => r.headerHash!))).map((g) => g.headerHash));
+    const fresh = batch.filter((r) => {
+      if (existing.has(r.headerHash!)) return false;
+      existing.add(r.headerHash!); // Repeats within the batch are duplicates too
+      return true;
+    });
+    saved.duplicates += batch.length - fresh.length;
+
+    saved.created.push(...(await store.createGames(fresh.map((r) => ({ ...r, userId })))));
+  }
+
+  return saved;
+}
+
+/**
+ * Import every game of a PGN file. Games that fail to parse are reported with
+ * their position and line in the file and don't stop the rest of the upload.
+ */
+export async function importPgnLibrary(
+  text: string,
+  store: IStorage,
+  userId: number,
+  options: { collection?: string; tags?: string[] } = {}
+): Promise<GameUploadResult> {
+  const result: GameUploadResult = { imported: 0, duplicates: 0, failed: [], gameIds: [] };
+  const records: InsertGame[] = [];
+  const seen = new Set<string>();
+  let cursor = 0;
+  let cursorLine = 1;
+
+  splitPgn(text).forEach((chunk, index) => {
+    // Line where this game starts, so errors point into the uploaded file
+    const at = text.indexOf(chunk, cursor);
+    if (at !== -1) {
+      for (let i = cursor; i < at; i++) if (text.charCodeAt(i) === 10) cursorLine++;
+      cursor = at;
+    }
+    const startLine = cursorLine;
+
+    try {
+      const game = parsePgn(chunk)[0];
+      if (!game) return;
+      const record = gameRecord(game, chunk);
+      if (seen.has(record.headerHash!)) {
+        result.duplicates++;
+        return;
+      }
+      seen.add(record.headerHash!);
+      records.push({ ...record, collection: options.collection ?? null, tags: options.tags ?? [] });
+    } catch (error) {
+      if (error instanceof PgnParseError) {
+        result.failed.push({
+          game: index + 1,
+          line: startLine + error.line - 1,
+          message: error.message.replace(/^Line \d+: /, ""),
+        });
+      } else {
+        result.failed.push({ game: index + 1, line: startLine, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  });
+
+  const saved = await saveNewGames(records, store, userId);
+  result.imported = saved.created.length;
+  result.duplicates += saved.duplicates;
+  result.gameIds = saved.created.map((g) => g.id);
+
+  return result;
+}
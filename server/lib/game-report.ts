@@ -0,0 +1,137 @@
+// Game Review report: per-side accuracy, average centipawn loss, error counts
+// and the biggest evaluation swings, computed from stored moveAnalyses rows.
+
+import type { Game, MoveAnalysis } from "@shared/schema";
+import type { AnalysisJob, GameReport, PlayerReport, SwingMoment } from "@shared/types";
+import { parsePgn, STANDARD_START_FEN } from "@shared/pgn";
+import { evalToCentipawns } from "./game-analysis";
+
+const MAX_SWINGS = 3;
+
+/**
+ * Winning chances (0-100) for White from a centipawn score (Lichess model).
+ */
+export function winPercent(cp: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+}
+
+/**
+ * Per-move accuracy (0-100) from the mover's drop in winning chances (Lichess model).
+ */
+export function moveAccuracy(winBefore: number, winAfter: number): number {
+  const drop = Math.max(0, winBefore - winAfter);
+  const accuracy = 103.1668 * Math.exp(-0.04354 * drop) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+/**
+ * Side that played a row's move and its move number, read from the position
+ * after it (games set up with Black to move start on an even ply).
+ */
+function moverOf(row: MoveAnalysis): { color: "white" | "black"; moveNumber: number } {
+  const [, turn, , , , fullmove] = row.fen.split(" ");
+  const number = parseInt(fullmove, 10);
+  if (turn === "b") return { color: "white", moveNumber: isNaN(number) ? Math.ceil(row.moveNumber / 2) : number };
+  return { color: "black", moveNumber: isNaN(number) ? Math.ceil(row.moveNumber / 2) : number - 1 };
+}
+
+/**
+ * Eval before ply 1. Rows only store the eval after each ply, so it comes from the
+ * analysis job; once that is gone (server restart) the standard start counts as
+ * equal and a set-up position as the eval after ply 1, leaving that move unjudged.
+ */
+function startCentipawns(game: Game, rows: MoveAnalysis[], job?: AnalysisJob): number {
+  if (job && (job.startScore !== undefined || job.startMate !== undefined)) {
+    return evalToCentipawns(job.startScore, job.startMate);
+  }
+  let startFen = STANDARD_START_FEN;
+  try {
+    startFen = parsePgn(game.pgn)[0]?.startFen ?? STANDARD_START_FEN;
+  } catch {
+    // Unparseable now but analyzed before; keep the standard start
+  }
+  if (startFen === STANDARD_START_FEN || rows.length === 0) return 0;
+  return evalToCentipawns(rows[0].score, rows[0].mate);
+}
+
+function emptyPlayer(name: string): PlayerReport {
+  return {
+    name,
+    accuracy: 0,
+    averageCentipawnLoss: 0,
+    moves: 0,
+    brilliant: 0,
+    inaccuracies: 0,
+    mistakes: 0,
+    blunders: 0,
+  };
+}
+
+/**
+ * Build the report for a game. `analyses` must be the game's full set of rows;
+ * `job` is the analysis job that wrote them, when still in memory.
+ */
+export function buildGameReport(game: Game, analyses: MoveAnalysis[], job?: AnalysisJob): GameReport {
+  const rows = [...analyses].sort((a, b) => a.moveNumber - b.moveNumber);
+  const players = { white: emptyPlayer(game.white), black: emptyPlayer(game.black) };
+  const totals = {
+    white: { accuracy: 0, cpLoss: 0 },
+    black: { accuracy: 0, cpLoss: 0 },
+  };
+  const swings: SwingMoment[] = [];
+
+  let cpBefore = startCentipawns(game, rows, job);
+  for (const row of rows) {
+    const { color, moveNumber } = moverOf(row);
+    const sign = color === "white" ? 1 : -1;
+    const cpAfter = evalToCentipawns(row.score, row.mate);
+
+    // Everything below is from the mover's point of view
+    const winBefore = winPercent(sign * cpBefore);
+    const winAfter = winPercent(sign * cpAfter);
+    const cpLoss = Math.max(0, sign * (cpBefore - cpAfter));
+
+    const player = players[color];
+    player.moves++;
+    totals[color].accuracy += moveAccuracy(winBefore, winAfter);
+    totals[color].cpLoss += cpLoss;
+
+    if (row.evaluation === "brilliant") player.brilliant++;
+    if (row.evaluation === "inaccuracy") player.inaccuracies++;
+    if (row.evaluation === "mistake") player.mistakes++;
+    if (row.evaluation === "blunder") player.blunders++;
+
+    swings.push({
+      ply: row.moveNumber,
+      moveNumber,
+      color,
+      move: row.move,
+      evaluation: row.evaluation,
+      before: cpBefore,
+      after: cpAfter,
+      swing: Math.round((winBefore - winAfter) * 10) / 10,
+      bestMove: row.bestMove,
+    });
+
+    cpBefore = cpAfter;
+  }
+
+  (["white", "black"] as const).forEach(color => {
+    const player = players[color];
+    if (player.moves > 0) {
+      player.accuracy = Math.round((totals[color].accuracy / player.moves) * 10) / 10;
+      player.averageCentipawnLoss = Math.round(totals[color].cpLoss / player.moves);
+    }
+  });
+
+  return {
+    gameId: game.id,
+    analyzedPlies: rows.length,
+    white: players.white,
+    black: players.black,
+    swings: swings
+      .filter(s => s.swing >= 1)
+      .sort((a, b) => b.swing - a.swing)
+      .slice(0, MAX_SWINGS),
+  };
+}
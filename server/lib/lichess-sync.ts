@@ -0,0 +1,193 @@
+// Incremental Lichess import for a linked account: streams the games created
+// since the last sync (oldest first) and stores them in the library in
+// batches, advancing users.lichessSyncedUntil after each batch so an
+// interrupted run resumes where it stopped. Runs on demand or on a timer; the
+// timer syncs one account at a time, as the Lichess API guidelines ask.
+
+import type { InsertGame, User } from "@shared/schema";
+import type { LichessSyncJob, LichessSyncState } from "@shared/types";
+import { parsePgn } from "@shared/pgn";
+import type { IStorage } from "../storage";
+import { getStore } from "./store-provider";
+import { LichessRateLimitError, streamGamesByUsername, type LichessGame } from "./lichess";
+import { gameRecord, saveNewGames } from "./game-library";
+
+const SYNC_BATCH_SIZE = 100;
+
+// After a 429 the scheduler waits this long (doubling per retry) before trying the account again
+const RATE_LIMIT_BACKOFF_MS = 60 * 1000;
+const RATE_LIMIT_RETRIES = 3;
+
+const jobs = new Map<number, LichessSyncJob>();
+const runs = new Map<number, Promise<unknown>>(); // The user's current job; resolves to its error, if any
+let scheduleMinutes: number | null = null;
+
+// Lichess usernames are case-insensitive
+function sameAccount(a: string | null, b: string | null): boolean {
+  return (a || "").toLowerCase() === (b || "").toLowerCase();
+}
+
+export function getLichessSyncState(user: User): LichessSyncState {
+  // A job for a previously linked account is no longer the user's concern
+  const job = jobs.get(user.id);
+  return {
+    lichessUsername: user.lichessUsername,
+    syncedUntil: user.lichessSyncedUntil ? user.lichessSyncedUntil.toISOString() : null,
+    scheduleMinutes,
+    job: job && sameAccount(job.lichessUsername, user.lichessUsername) ? job : null,
+  };
+}
+
+/**
+ * Library record for a Lichess game. Ratings and time control come from the
+ * JSON payload, which is authoritative over the PGN headers.
+ */
+export function lichessGameRecord(game: LichessGame): InsertGame | null {
+  if (!game.pgn) return null;
+  const parsed = parsePgn(game.pgn)[0];
+  if (!parsed) return null;
+
+  const record = gameRecord(parsed, game.pgn);
+  return {
+    ...record,
+    whiteRating: game.players.white.rating ?? record.whiteRating,
+    blackRating: game.players.black.rating ?? record.blackRating,
+    timeControl: game.clock ? `${game.clock.initial}+${game.clock.increment}` : record.timeControl,
+    opening: game.opening?.name || record.opening,
+    eco: game.opening?.eco || record.eco,
+  };
+}
+
+async function runSync(job: LichessSyncJob, user: User, store: IStorage): Promise<void> {
+  // `since` is inclusive, so start just after the newest game already synced
+  const since = user.lichessSyncedUntil ? user.lichessSyncedUntil.getTime() + 1 : undefined;
+  let batch: InsertGame[] = [];
+  let newest = 0;
+
+  // Relinking (PUT /api/lichess/account) resets lichessSyncedUntil; stop rather than overwrite it
+  const flush = async () => {
+    const current = await store.getUser(user.id);
+    if (!current || !sameAccount(current.lichessUsername, job.lichessUsername)) {
+      throw new Error("Lichess account changed during sync");
+    }
+    if (batch.length > 0) {
+      const saved = await saveNewGames(batch, store, user.id);
+      job.imported += saved.created.length;
+      job.duplicates += saved.duplicates;
+      batch = [];
+    }
+    if (newest > 0) await store.updateUser(user.id, { lichessSyncedUntil: new Date(newest) });
+  };
+
+  await streamGamesByUsername(job.lichessUsername, { since }, async (game) => {
+    if (jobs.get(user.id) !== job) throw new Error("Lichess account changed during sync");
+    job.received++;
+    newest = Math.max(newest, game.createdAt);
+    try {
+      const record = lichessGameRecord(game);
+      if (record) batch.push(record);
+      else job.failed++;
+    } catch (error) {
+      job.failed++;
+      console.warn(`[lichess-sync] skipped game ${game.id}:`, error instanceof Error ? error.message : error);
+    }
+    if (batch.length >= SYNC_BATCH_SIZE) await flush();
+  });
+  await flush();
+}
+
+/**
+ * Start syncing the user's linked Lichess account. Returns the running job
+ * if one is already in progress.
+ */
+export function startLichessSync(user: User, store: IStorage, trigger: LichessSyncJob["trigger"] = "manual"): LichessSyncJob {
+  if (!user.lichessUsername) throw new Error("No Lichess account linked");
+
+  // A run for a previously linked account stops by itself at its next game
+  const existing = jobs.get(user.id);
+  if (existing && existing.status === "running" && sameAccount(existing.lichessUsername, user.lichessUsername)) {
+    return existing;
+  }
+
+  const job: LichessSyncJob = {
+    userId: user.id,
+    lichessUsername: user.lichessUsername,
+    trigger,
+    status: "running",
+    received: 0,
+    imported: 0,
+    duplicates: 0,
+    failed: 0,
+    startedAt: new Date().toISOString(),
+  };
+  jobs.set(user.id, job);
+
+  const run = runSync(job, user, store);
+  runs.set(user.id, run.then(() => null, (error) => error));
+  run
+    .then(() => {
+      job.status = "completed";
+      job.finishedAt = new Date().toISOString();
+      console.log(`[lichess-sync] ${job.lichessUsername} done (${job.imported} new, ${job.duplicates} duplicates, ${job.failed} failed)`);
+    })
+    .catch((error: any) => {
+      job.status = "failed";
+      job.error = error?.message || "Lichess sync failed";
+      job.finishedAt = new Date().toISOString();
+      console.error(`[lichess-sync] ${job.lichessUsername} failed:`, error);
+    });
+
+  return job;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sync one account to completion (joining a run already in progress), retrying
+ * with backoff while Lichess answers 429. The user is reloaded on every attempt,
+ * since the account may be relinked or unlinked while waiting.
+ */
+async function syncScheduled(userId: number, store: IStorage): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    const user = await store.getUser(userId);
+    if (!user?.lichessUsername) return;
+    const job = startLichessSync(user, store, "schedule");
+    const error = await runs.get(user.id);
+    if (!(error instanceof LichessRateLimitError) || attempt >= RATE_LIMIT_RETRIES) return;
+
+    const wait = RATE_LIMIT_BACKOFF_MS * 2 ** attempt;
+    console.warn(`[lichess-sync] rate limited, retrying ${job.lichessUsername} in ${wait / 1000}s`);
+    await sleep(wait);
+  }
+}
+
+/**
+ * Sync every linked account every LICHESS_SYNC_INTERVAL_MINUTES (off when unset),
+ * one after another. A tick still running when the next one is due skips it.
+ */
+export function startLichessSyncScheduler(): void {
+  const minutes = parseInt(process.env.LICHESS_SYNC_INTERVAL_MINUTES || "", 10);
+  if (isNaN(minutes) || minutes <= 0) return;
+  scheduleMinutes = minutes;
+  let ticking = false;
+
+  const timer = setInterval(async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const { store } = await getStore();
+      const linked = (await store.getUsers()).filter((u) => u.lichessUsername);
+      for (const user of linked) {
+        await syncScheduled(user.id, store);
+      }
+    } catch (error) {
+      console.error("[lichess-sync] scheduled run failed:", error);
+    } finally {
+      ticking = false;
+    }
+  }, minutes * 60 * 1000);
+  timer.unref();
+  console.log(`[lichess-sync] scheduled every ${minutes} min`);
+}
@@ -1,6 +1,19 @@
 // Lichess API client for fetching games
 
-interface LichessGame {
+import { readPgnHeaders } from "@shared/pgn";
+
+// Overridable so tests can point at a local stand-in server
+const LICHESS_API_URL = (process.env.LICHESS_API_URL || "https://lichess.org").replace(/\/$/, "");
+
+// Lichess asks clients to wait a full minute after a 429 before the next request
+export class LichessRateLimitError extends Error {
+  constructor() {
+    super("Lichess rate limit reached, try again in a minute");
+    this.name = "LichessRateLimitError";
+  }
+}
+
+export interface LichessGame {
   id: string;
   players: {
     white: { user?: { name: string }; rating?: number };
@@ -8,9 +21,12 @@ interface LichessGame {
   };
   pgn: string;
   moves?: string;
-  clock?: any;
-  opening?: { name: string };
-  createdAt: number;
+  clock?: { initial: number; increment: number; totalTime?: number }; // Seconds
+  clocks?: number[]; // Remaining time after each ply, in centiseconds (clocks=true)
+  speed?: string;
+  opening?: { eco?: string; name: string };
+  createdAt: number; // ms since epoch
+  lastMoveAt?: number;
   status: string;
   winner?: string;
 }
@@ -23,7 +39,7 @@ export async function fetchGameByUrl(gameUrl: string): Promise<string> {
   }
   
   const gameId = gameIdMatch[1];
-  const response = await fetch(`https://lichess.org/game/export/${gameId}`, {
+  const response = await fetch(`${LICHESS_API_URL}/game/export/${gameId}`, {
     headers: {
       "Accept": "application/x-chess-pgn",
     },
@@ -38,7 +54,7 @@ export async function fetchGameByUrl(gameUrl: string): Promise<string> {
 
 export async function fetchGamesByUsername(username: string, max: number = 1): Promise<string> {
   const response = await fetch(
-    `https://lichess.org/api/games/user/${username}?max=${max}&pgnInJson=true`,
+    `${LICHESS_API_URL}/api/games/user/${username}?max=${max}&pgnInJson=true`,
     {
       headers: {
         "Accept": "application/x-ndjson",
@@ -85,16 +101,62 @@ export async function fetchGamesByUsername(username: string, max: number = 1): P
   return await fetchGameByUrl(`https://lichess.org/${gameData.id}`);
 }
 
-// Split a multi-game PGN into individual games
-export function splitPgn(pgn: string): string[] {
-  // Split by double newline (separator between games)
-  const rawGames = pgn.split(/\n\n\[Event/).filter(g => g.trim());
-  
-  // Re-add [Event to all but first
-  return rawGames.map((game, index) => {
-    if (index === 0) return game;
-    return `[Event${game}`;
+/**
+ * Stream a user's games oldest first as NDJSON, calling `onGame` for each one
+ * as it arrives. `since` is a creation time in ms (inclusive). PGNs include
+ * [%clk] comments.
+ */
+export async function streamGamesByUsername(
+  username: string,
+  options: { since?: number },
+  onGame: (game: LichessGame) => Promise<void>
+): Promise<number> {
+  const params = new URLSearchParams({
+    pgnInJson: "true",
+    clocks: "true",
+    opening: "true",
+    sort: "dateAsc",
   });
+  if (options.since !== undefined) params.set("since", String(options.since));
+
+  const response = await fetch(`${LICHESS_API_URL}/api/games/user/${encodeURIComponent(username)}?${params}`, {
+    headers: { "Accept": "application/x-ndjson" },
+  });
+  if (response.status === 404) {
+    throw new Error(`Lichess user "${username}" not found`);
+  }
+  if (response.status === 429) {
+    throw new LichessRateLimitError();
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch games for user (HTTP ${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  let count = 0;
+
+  const emit = async (line: string) => {
+    if (!line.trim()) return;
+    await onGame(JSON.parse(line));
+    count++;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    let newline;
+    while ((newline = buffered.indexOf("\n")) !== -1) {
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      await emit(line);
+    }
+  }
+  await emit(buffered + decoder.decode());
+
+  return count;
 }
 
 export function parsePgnMetadata(pgn: string): {
@@ -106,18 +168,11 @@ export function parsePgnMetadata(pgn: string): {
   site?: string;
   opening?: string;
 } {
-  const lines = pgn.split("\n");
+  const headers = readPgnHeaders(pgn);
   const metadata: any = {};
-  
-  for (const line of lines) {
-    if (line.startsWith("[")) {
-      const match = line.match(/\[(\w+)\s+"(.+)"\]/);
-      if (match) {
-        const [, key, value] = match;
-        metadata[key.toLowerCase()] = value;
-      }
-    }
-  }
+  Object.keys(headers).forEach((key) => {
+    metadata[key.toLowerCase()] = headers[key];
+  });
   
   return {
     white: metadata.white || "White",
@@ -2,46 +2,90 @@ import fs from 'fs/promises';
 import path from 'path';
 import type { 
   Game, InsertGame, 
+  User, InsertUser,
+  Session, InsertSession,
+  Subscription, InsertSubscription,
+  QuotaUsage,
   MoveAnalysis, InsertMoveAnalysis,
   UserSettings, InsertUserSettings,
   Puzzle, InsertPuzzle,
-  PuzzleAttempt, InsertPuzzleAttempt
+  PuzzleAttempt, InsertPuzzleAttempt,
+  ProgressStat, InsertProgressStat,
+  PositionEvaluation, InsertPositionEvaluation,
+  Repertoire, InsertRepertoire,
+  RepertoireNode, InsertRepertoireNode
 } from '@shared/schema';
+import type { GameFilters, QuotaMetric } from '@shared/types';
 
 const STORE_PATH = '/tmp/gm-trainer-store.json';
 
+// The whole file is rewritten on each persist, so keep the eval cache bounded
+const MAX_POSITION_EVALUATIONS = 5000;
+// ...and write cache entries at most this often instead of once per evaluation
+const EVAL_PERSIST_DELAY_MS = 5000;
+
 interface StoreData {
   games: Game[];
+  users: User[];
+  sessions: Session[];
+  subscriptions: Subscription[];
+  quotaUsage: QuotaUsage[];
   moveAnalyses: MoveAnalysis[];
-  settings: UserSettings | null;
+  settings: UserSettings[]; // One row per user
+
   puzzles: Puzzle[];
   puzzleAttempts: PuzzleAttempt[];
+  progressStats: ProgressStat[];
+  positionEvaluations: PositionEvaluation[];
+  repertoires: Repertoire[];
+  repertoireNodes: RepertoireNode[];
   nextId: {
     game: number;
+    user: number;
+    subscription: number;
     moveAnalysis: number;
     settings: number;
     puzzle: number;
     puzzleAttempt: number;
+    progressStat: number;
+    positionEvaluation: number;
+    repertoire: number;
+    repertoireNode: number;
   };
 }
 
 export class LocalStore {
   private data: StoreData | null = null;
   private initialized = false;
+  private persistTimer: NodeJS.Timeout | null = null;
 
   private getDefaultData(): StoreData {
     return {
       games: [],
+      users: [],
+      sessions: [],
+      subscriptions: [],
+      quotaUsage: [],
       moveAnalyses: [],
-      settings: null,
+      settings: [],
       puzzles: [],
       puzzleAttempts: [],
+      progressStats: [],
+      positionEvaluations: [],
+      repertoires: [],
+      repertoireNodes: [],
       nextId: {
         game: 1,
+        user: 1,
+        subscription: 1,
         moveAnalysis: 1,
         settings: 1,
         puzzle: 1,
         puzzleAttempt: 1,
+        progressStat: 1,
+        positionEvaluation: 1,
+        repertoire: 1,
+        repertoireNode: 1,
       },
     };
   }
@@ -52,12 +96,48 @@ export class LocalStore {
     try {
       const fileContent = await fs.readFile(STORE_PATH, 'utf-8');
       // HOTFIX v6.1: Revive Date objects from ISO strings
-      this.data = JSON.parse(fileContent, (key, value) => {
-        if (key === 'createdAt' || key === 'updatedAt' || key === 'attemptedAt') {
+      const parsed = JSON.parse(fileContent, (key, value) => {
+        if (key === 'createdAt' || key === 'updatedAt' || key === 'attemptedAt' || key === 'dueAt' || key === 'lichessSyncedUntil' || key === 'expiresAt' || key === 'trialStartedAt' || key === 'recordedAt') {
           return value ? new Date(value) : value;
         }
         return value;
       });
+      // Files written by older versions may lack newer collections
+      const defaults = this.getDefaultData();
+      this.data = { ...defaults, ...parsed, nextId: { ...defaults.nextId, ...parsed.nextId } };
+      // Settings used to be a single global row
+      if (!Array.isArray(parsed.settings)) this.data!.settings = parsed.settings ? [parsed.settings] : [];
+      this.data!.users = this.data!.users.map(u => ({
+        ...u,
+        isAdmin: u.isAdmin ?? false,
+        puzzleRating: u.puzzleRating ?? 1500,
+        puzzleRatingDeviation: u.puzzleRatingDeviation ?? 350,
+        puzzleVolatility: u.puzzleVolatility ?? 0.06,
+      }));
+      this.data!.puzzles = this.data!.puzzles.map(p => ({
+        ...p,
+        ratingDeviation: p.ratingDeviation ?? 350,
+        volatility: p.volatility ?? 0.06,
+        plays: p.plays ?? 0,
+        userId: p.userId ?? null,
+        gameId: p.gameId ?? null,
+        gamePly: p.gamePly ?? null,
+      }));
+      this.data!.puzzleAttempts = this.data!.puzzleAttempts.map(a => ({ ...a, movesCompleted: a.movesCompleted ?? null }));
+      this.data!.positionEvaluations = this.data!.positionEvaluations.map(e => ({ ...e, engine: e.engine ?? '' }));
+      // ...and games may predate the library fields
+      this.data!.games = this.data!.games.map(g => ({
+        ...g,
+        userId: g.userId ?? null,
+        eco: g.eco ?? null,
+        whiteRating: g.whiteRating ?? null,
+        blackRating: g.blackRating ?? null,
+        timeControl: g.timeControl ?? null,
+        collection: g.collection ?? null,
+        tags: g.tags ?? [],
+        headerHash: g.headerHash ?? null,
+        updatedAt: g.updatedAt || g.createdAt,
+      }));
       console.log('[local-store] loaded from', STORE_PATH);
     } catch (error) {
       this.data = this.getDefaultData();
@@ -68,6 +148,18 @@ export class LocalStore {
     this.initialized = true;
   }
 
+  /**
+   * Persist within EVAL_PERSIST_DELAY_MS, once for every change made until then.
+   */
+  private persistSoon(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.persist();
+    }, EVAL_PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
   private async persist(): Promise<void> {
     if (!this.data) return;
     
@@ -78,51 +170,52 @@ export class LocalStore {
     }
   }
 
-  async getSettings(): Promise<UserSettings | null> {
+  async getSettings(userId: number): Promise<UserSettings | undefined> {
     await this.ensureInitialized();
-    return this.data!.settings;
+    return this.data!.settings.find(s => s.userId === userId);
   }
 
-  async updateSettings(settings: Partial<InsertUserSettings>): Promise<UserSettings> {
+  async updateSettings(userId: number, settings: Partial<InsertUserSettings>): Promise<UserSettings> {
     await this.ensureInitialized();
     
-    const existing = this.data!.settings;
+    const index = this.data!.settings.findIndex(s => s.userId === userId);
     
-    if (existing) {
+    if (index !== -1) {
       const updated: UserSettings = {
-        ...existing,
+        ...this.data!.settings[index],
         ...settings,
+        userId,
         updatedAt: new Date(),
       };
-      this.data!.settings = updated;
+      this.data!.settings[index] = updated;
       await this.persist();
       return updated;
     } else {
       const newSettings: UserSettings = {
         id: this.data!.nextId.settings++,
-        userId: null,
+        userId,
         coachingStyle: settings.coachingStyle || 'balanced',
         difficulty: settings.difficulty ?? 50,
         verbosity: settings.verbosity ?? 50,
         language: settings.language || 'spanish', // HOTFIX v6.1: Spanish default
         updatedAt: new Date(),
       };
-      this.data!.settings = newSettings;
+      this.data!.settings.push(newSettings);
       await this.persist();
       return newSettings;
     }
   }
 
-  async getGame(id: number): Promise<Game | undefined> {
+  async getGame(id: number, userId: number): Promise<Game | undefined> {
     await this.ensureInitialized();
-    return this.data!.games.find(g => g.id === id);
+    return this.data!.games.find(g => g.id === id && g.userId === userId);
   }
 
-  async createGame(insertGame: InsertGame): Promise<Game> {
-    await this.ensureInitialized();
-    
-    const game: Game = {
+  private buildGame(insertGame: InsertGame): Game {
+    const now = new Date();
+    return {
       id: this.data!.nextId.game++,
+      userId: insertGame.userId ?? null,
       pgn: insertGame.pgn,
       white: insertGame.white,
       black: insertGame.black,
@@ -131,25 +224,259 @@ export class LocalStore {
       event: insertGame.event ?? null,
       site: insertGame.site ?? null,
       opening: insertGame.opening ?? null,
-      createdAt: new Date(),
+      eco: insertGame.eco ?? null,
+      whiteRating: insertGame.whiteRating ?? null,
+      blackRating: insertGame.blackRating ?? null,
+      timeControl: insertGame.timeControl ?? null,
+      collection: insertGame.collection ?? null,
+      tags: insertGame.tags ?? [],
+      headerHash: insertGame.headerHash ?? null,
+      createdAt: now,
+      updatedAt: now,
     };
+  }
+
+  async createGame(insertGame: InsertGame): Promise<Game> {
+    await this.ensureInitialized();
     
+    const game = this.buildGame(insertGame);
     this.data!.games.push(game);
     await this.persist();
     return game;
   }
 
-  async getAllGames(): Promise<Game[]> {
+  // One persist for the whole batch: the file is rewritten on every persist
+  async createGames(insertGames: InsertGame[]): Promise<Game[]> {
+    await this.ensureInitialized();
+
+    const created = insertGames.map(g => this.buildGame(g));
+    this.data!.games.push(...created);
+    await this.persist();
+    return created;
+  }
+
+  async getGamesByHeaderHash(userId: number, hashes: string[]): Promise<Game[]> {
+    await this.ensureInitialized();
+    const wanted = new Set(hashes);
+    return this.data!.games.filter(g => g.userId === userId && g.headerHash !== null && wanted.has(g.headerHash));
+  }
+
+  async searchGames(userId: number, filters: GameFilters): Promise<{ games: Game[]; total: number }> {
+    await this.ensureInitialized();
+
+    const contains = (value: string | null, needle: string) =>
+      value !== null && value.toLowerCase().includes(needle.toLowerCase());
+
+    const matches = this.data!.games.filter(g => {
+      if (g.userId !== userId) return false;
+      if (filters.q) {
+        const fields = [g.white, g.black, g.event, g.site, g.opening, g.eco, g.collection, g.pgn];
+        if (!fields.some(f => contains(f, filters.q!))) return false;
+      }
+      if (filters.player && !contains(g.white, filters.player) && !contains(g.black, filters.player)) return false;
+      if (filters.event && !contains(g.event, filters.event)) return false;
+      if (filters.result && g.result !== filters.result) return false;
+      if (filters.eco && !(g.eco || '').toUpperCase().startsWith(filters.eco.toUpperCase())) return false;
+      if (filters.collection && g.collection !== filters.collection) return false;
+      if (filters.tag && !g.tags.includes(filters.tag)) return false;
+      if (filters.dateFrom && (g.date === null || g.date < filters.dateFrom)) return false;
+      if (filters.dateTo && (g.date === null || g.date > filters.dateTo)) return false;
+      return true;
+    });
+
+    matches.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    const offset = filters.offset ?? 0;
+    return { games: matches.slice(offset, offset + (filters.limit ?? 50)), total: matches.length };
+  }
+
+  async updateGame(id: number, userId: number, updates: Partial<InsertGame>): Promise<Game | undefined> {
+    await this.ensureInitialized();
+
+    const index = this.data!.games.findIndex(g => g.id === id && g.userId === userId);
+    if (index === -1) return undefined;
+    this.data!.games[index] = { ...this.data!.games[index], ...updates, updatedAt: new Date() };
+    await this.persist();
+    return this.data!.games[index];
+  }
+
+  async deleteGame(id: number, userId: number): Promise<void> {
     await this.ensureInitialized();
-    return [...this.data!.games].sort((a, b) => 
+    const game = this.data!.games.find(g => g.id === id && g.userId === userId);
+    if (!game) return;
+    this.data!.games = this.data!.games.filter(g => g !== game);
+    this.data!.moveAnalyses = this.data!.moveAnalyses.filter(a => a.gameId !== id);
+    await this.persist();
+  }
+
+  async getAllGames(userId: number): Promise<Game[]> {
+    await this.ensureInitialized();
+    return this.data!.games.filter(g => g.userId === userId).sort((a, b) => 
       a.createdAt.getTime() - b.createdAt.getTime()
     );
   }
 
-  async getAllPuzzles(filters?: { minRating?: number; maxRating?: number; themes?: string[] }): Promise<Puzzle[]> {
+  async getUsers(): Promise<User[]> {
+    await this.ensureInitialized();
+    return [...this.data!.users];
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    await this.ensureInitialized();
+    return this.data!.users.find(u => u.id === id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    await this.ensureInitialized();
+    return this.data!.users.find(u => u.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    await this.ensureInitialized();
+
+    const user: User = {
+      id: this.data!.nextId.user++,
+      username: insertUser.username,
+      email: insertUser.email ?? null,
+      passwordHash: insertUser.passwordHash ?? null,
+      isAdmin: insertUser.isAdmin ?? false,
+      lichessUsername: insertUser.lichessUsername ?? null,
+      lichessSyncedUntil: insertUser.lichessSyncedUntil ?? null,
+      puzzleRating: insertUser.puzzleRating ?? 1500,
+      puzzleRatingDeviation: insertUser.puzzleRatingDeviation ?? 350,
+      puzzleVolatility: insertUser.puzzleVolatility ?? 0.06,
+      createdAt: new Date(),
+    };
+    this.data!.users.push(user);
+    await this.persist();
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    await this.ensureInitialized();
+
+    const index = this.data!.users.findIndex(u => u.id === id);
+    if (index === -1) return undefined;
+    this.data!.users[index] = { ...this.data!.users[index], ...updates };
+    await this.persist();
+    return this.data!.users[index];
+  }
+
+  async claimUnownedData(userId: number): Promise<void> {
+    await this.ensureInitialized();
+    this.data!.games.forEach(g => { if (g.userId === null) g.userId = userId; });
+    this.data!.puzzleAttempts.forEach(a => { if (a.userId === null) a.userId = userId; });
+    this.data!.settings.forEach(s => { if (s.userId === null) s.userId = userId; });
+    this.data!.repertoires.forEach(r => { if (r.userId === null) r.userId = userId; });
+    await this.persist();
+  }
+
+  async createSession(session: InsertSession): Promise<Session> {
+    await this.ensureInitialized();
+    const created: Session = { ...session, createdAt: new Date() };
+    // Expired sessions are dropped whenever a new one is created
+    const now = Date.now();
+    this.data!.sessions = this.data!.sessions.filter(s => s.expiresAt.getTime() > now);
+    this.data!.sessions.push(created);
+    await this.persist();
+    return created;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    await this.ensureInitialized();
+    return this.data!.sessions.find(s => s.id === id);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.ensureInitialized();
+    this.data!.sessions = this.data!.sessions.filter(s => s.id !== id);
+    await this.persist();
+  }
+
+  async getSubscription(userId: number): Promise<Subscription | undefined> {
+    await this.ensureInitialized();
+    return this.data!.subscriptions.find(s => s.userId === userId);
+  }
+
+  async getSubscriptions(): Promise<Subscription[]> {
+    await this.ensureInitialized();
+    return [...this.data!.subscriptions].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getSubscriptionByBillingId(billingSubscriptionId: string): Promise<Subscription | undefined> {
+    await this.ensureInitialized();
+    return this.data!.subscriptions.find(s => s.billingSubscriptionId === billingSubscriptionId);
+  }
+
+  async saveSubscription(subscription: InsertSubscription): Promise<Subscription> {
+    await this.ensureInitialized();
+
+    const now = new Date();
+    const index = this.data!.subscriptions.findIndex(s => s.userId === subscription.userId);
+    const existing = index === -1 ? undefined : this.data!.subscriptions[index];
+    // Like an upsert: fields left undefined keep their stored value
+    const pick = <K extends keyof InsertSubscription>(key: K) =>
+      subscription[key] !== undefined ? subscription[key] : existing ? existing[key] : undefined;
+    const saved: Subscription = {
+      id: existing ? existing.id : this.data!.nextId.subscription++,
+      userId: subscription.userId,
+      plan: subscription.plan,
+      status: pick('status') ?? 'active',
+      grantedBy: pick('grantedBy') ?? null,
+      billingSubscriptionId: pick('billingSubscriptionId') ?? null,
+      billingCustomerId: pick('billingCustomerId') ?? null,
+      expiresAt: pick('expiresAt') ?? null,
+      createdAt: existing ? existing.createdAt : now,
+      updatedAt: now,
+    };
+    if (index === -1) this.data!.subscriptions.push(saved);
+    else this.data!.subscriptions[index] = saved;
+    await this.persist();
+    return saved;
+  }
+
+  async getQuotaUsage(subject: string, day: string): Promise<QuotaUsage | undefined> {
+    await this.ensureInitialized();
+    return this.data!.quotaUsage.find(q => q.key === `${day}|${subject}`);
+  }
+
+  async addQuotaUsage(
+    subject: string,
+    day: string,
+    amounts: Partial<Record<QuotaMetric, number>>,
+    limit?: { metric: QuotaMetric; max: number }
+  ): Promise<QuotaUsage | undefined> {
+    await this.ensureInitialized();
+
+    // Check and update with no await in between, so concurrent requests can't both pass the limit
+    const key = `${day}|${subject}`;
+    let row = this.data!.quotaUsage.find(q => q.key === key);
+    const current = row ? row[limit?.metric ?? 'trialAnalyses'] : 0;
+    if (limit && current + (amounts[limit.metric] || 0) > limit.max) return undefined;
+
+    if (!row) {
+      // Only today's rows matter; drop the rest whenever a new day starts
+      this.data!.quotaUsage = this.data!.quotaUsage.filter(q => q.day === day);
+      row = {
+        key, subject, day,
+        trialAnalyses: 0, trialStartedAt: null, stockfishCalls: 0, llmCalls: 0, ttsSeconds: 0,
+        updatedAt: new Date(),
+      };
+      this.data!.quotaUsage.push(row);
+    }
+    (Object.keys(amounts) as QuotaMetric[]).forEach(metric => {
+      row![metric] += amounts[metric] || 0;
+    });
+    if (amounts.trialAnalyses && !row.trialStartedAt) row.trialStartedAt = new Date();
+    row.updatedAt = new Date();
+    await this.persist();
+    return row;
+  }
+
+  async getAllPuzzles(filters?: { minRating?: number; maxRating?: number; themes?: string[]; userId?: number }): Promise<Puzzle[]> {
     await this.ensureInitialized();
     
-    let puzzles = [...this.data!.puzzles];
+    // Own-game puzzles are only visible to their owner
+    let puzzles = this.data!.puzzles.filter(puzzle => puzzle.userId === null || puzzle.userId === filters?.userId);
     
     if (filters) {
       puzzles = puzzles.filter(puzzle => {
@@ -169,15 +496,36 @@ export class LocalStore {
     return puzzles.sort((a, b) => (a.rating || 0) - (b.rating || 0));
   }
 
+  async getPuzzlesNearRating(
+    userId: number,
+    rating: number,
+    options: { limit: number; themes?: string[]; excludeId?: number; unattempted?: boolean }
+  ): Promise<Puzzle[]> {
+    await this.ensureInitialized();
+
+    const attempted = new Set(
+      options.unattempted ? this.data!.puzzleAttempts.filter(a => a.userId === userId).map(a => a.puzzleId) : []
+    );
+    return this.data!.puzzles
+      .filter(p =>
+        (p.userId === null || p.userId === userId) &&
+        (!options.themes?.length || (p.theme !== null && options.themes.includes(p.theme))) &&
+        p.id !== options.excludeId &&
+        !attempted.has(p.id)
+      )
+      .map(puzzle => ({ puzzle, distance: Math.abs((puzzle.rating ?? 1500) - rating) }))
+      .sort((a, b) => a.distance - b.distance || a.puzzle.id - b.puzzle.id)
+      .slice(0, options.limit)
+      .map(({ puzzle }) => puzzle);
+  }
+
   async getPuzzle(id: number): Promise<Puzzle | undefined> {
     await this.ensureInitialized();
     return this.data!.puzzles.find(p => p.id === id);
   }
 
-  async createPuzzle(insertPuzzle: InsertPuzzle): Promise<Puzzle> {
-    await this.ensureInitialized();
-    
-    const puzzle: Puzzle = {
+  private buildPuzzle(insertPuzzle: InsertPuzzle): Puzzle {
+    return {
       id: this.data!.nextId.puzzle++,
       fen: insertPuzzle.fen,
       solution: insertPuzzle.solution,
@@ -186,14 +534,51 @@ export class LocalStore {
       rating: insertPuzzle.rating ?? null,
       source: insertPuzzle.source ?? null,
       externalId: insertPuzzle.externalId ?? null,
+      ratingDeviation: insertPuzzle.ratingDeviation ?? 350,
+      volatility: insertPuzzle.volatility ?? 0.06,
+      plays: insertPuzzle.plays ?? 0,
+      userId: insertPuzzle.userId ?? null,
+      gameId: insertPuzzle.gameId ?? null,
+      gamePly: insertPuzzle.gamePly ?? null,
       createdAt: new Date(),
     };
-    
+  }
+
+  async createPuzzle(insertPuzzle: InsertPuzzle): Promise<Puzzle> {
+    await this.ensureInitialized();
+
+    const puzzle = this.buildPuzzle(insertPuzzle);
     this.data!.puzzles.push(puzzle);
     await this.persist();
     return puzzle;
   }
 
+  // One persist for the whole batch, as in createGames
+  async createPuzzles(insertPuzzles: InsertPuzzle[]): Promise<Puzzle[]> {
+    await this.ensureInitialized();
+
+    const created = insertPuzzles.map(p => this.buildPuzzle(p));
+    this.data!.puzzles.push(...created);
+    await this.persist();
+    return created;
+  }
+
+  async getPuzzlesByExternalId(source: string, externalIds: string[]): Promise<Puzzle[]> {
+    await this.ensureInitialized();
+    const wanted = new Set(externalIds);
+    return this.data!.puzzles.filter(p => p.source === source && p.externalId !== null && wanted.has(p.externalId));
+  }
+
+  async updatePuzzle(id: number, updates: Partial<InsertPuzzle>): Promise<Puzzle | undefined> {
+    await this.ensureInitialized();
+
+    const index = this.data!.puzzles.findIndex(p => p.id === id);
+    if (index === -1) return undefined;
+    this.data!.puzzles[index] = { ...this.data!.puzzles[index], ...updates };
+    await this.persist();
+    return this.data!.puzzles[index];
+  }
+
   async createPuzzleAttempt(attempt: InsertPuzzleAttempt): Promise<PuzzleAttempt> {
     await this.ensureInitialized();
     
@@ -203,6 +588,7 @@ export class LocalStore {
       puzzleId: attempt.puzzleId,
       solved: attempt.solved,
       timeSpent: attempt.timeSpent ?? null,
+      movesCompleted: attempt.movesCompleted ?? null,
       attemptedAt: new Date(),
     };
     
@@ -211,21 +597,21 @@ export class LocalStore {
     return puzzleAttempt;
   }
 
-  async getPuzzleAttempts(puzzleId: number): Promise<PuzzleAttempt[]> {
+  async getPuzzleAttempts(puzzleId: number, userId: number): Promise<PuzzleAttempt[]> {
     await this.ensureInitialized();
     return this.data!.puzzleAttempts
-      .filter(a => a.puzzleId === puzzleId)
+      .filter(a => a.puzzleId === puzzleId && a.userId === userId)
       .sort((a, b) => a.attemptedAt.getTime() - b.attemptedAt.getTime());
   }
 
-  async getAllPuzzleAttempts(): Promise<PuzzleAttempt[]> {
+  async getAllPuzzleAttempts(userId: number): Promise<PuzzleAttempt[]> {
     await this.ensureInitialized();
-    return [...this.data!.puzzleAttempts].sort((a, b) => 
+    return this.data!.puzzleAttempts.filter(a => a.userId === userId).sort((a, b) => 
       a.attemptedAt.getTime() - b.attemptedAt.getTime()
     );
   }
 
-  async getPuzzleStats(): Promise<{
+  async getPuzzleStats(userId: number): Promise<{
     totalAttempts: number;
     totalSolved: number;
     successRate: number;
@@ -233,7 +619,7 @@ export class LocalStore {
   }> {
     await this.ensureInitialized();
     
-    const attempts = this.data!.puzzleAttempts;
+    const attempts = this.data!.puzzleAttempts.filter(a => a.userId === userId);
     const totalAttempts = attempts.length;
     const totalSolved = attempts.filter(a => a.solved).length;
     const successRate = totalAttempts > 0 ? (totalSolved / totalAttempts) * 100 : 0;
@@ -248,6 +634,27 @@ export class LocalStore {
       averageTime,
     };
   }
+  async createProgressStat(stat: InsertProgressStat): Promise<ProgressStat> {
+    await this.ensureInitialized();
+
+    const progressStat: ProgressStat = {
+      id: this.data!.nextId.progressStat++,
+      userId: stat.userId ?? null,
+      statType: stat.statType,
+      value: stat.value,
+      metadata: stat.metadata ?? null,
+      recordedAt: new Date(),
+    };
+    this.data!.progressStats.push(progressStat);
+    await this.persist();
+    return progressStat;
+  }
+
+  async getProgressStats(userId: number, statType: string): Promise<ProgressStat[]> {
+    await this.ensureInitialized();
+    return this.data!.progressStats.filter(s => s.userId === userId && s.statType === statType);
+  }
+
 
   async getMoveAnalysis(gameId: number, moveNumber: number): Promise<MoveAnalysis | undefined> {
     await this.ensureInitialized();
@@ -285,6 +692,151 @@ export class LocalStore {
       .filter(a => a.gameId === gameId)
       .sort((a, b) => a.moveNumber - b.moveNumber);
   }
+
+  async deleteGameAnalyses(gameId: number): Promise<void> {
+    await this.ensureInitialized();
+    this.data!.moveAnalyses = this.data!.moveAnalyses.filter(a => a.gameId !== gameId);
+    await this.persist();
+  }
+
+  async getPositionEvaluation(fen: string, engine: string): Promise<PositionEvaluation | undefined> {
+    await this.ensureInitialized();
+    return this.data!.positionEvaluations.find(e => e.fen === fen && e.engine === engine);
+  }
+
+  async savePositionEvaluation(evaluation: InsertPositionEvaluation): Promise<PositionEvaluation> {
+    await this.ensureInitialized();
+
+    const engine = evaluation.engine ?? '';
+    const multiPv = evaluation.multiPv ?? 1;
+    const existing = this.data!.positionEvaluations.find(e => e.fen === evaluation.fen && e.engine === engine);
+    // Never replace a deeper search, or an equally deep one with more lines
+    if (existing && (existing.depth > evaluation.depth || (existing.depth === evaluation.depth && existing.multiPv > multiPv))) {
+      return existing;
+    }
+
+    const positionEvaluation: PositionEvaluation = {
+      id: existing ? existing.id : this.data!.nextId.positionEvaluation++,
+      fen: evaluation.fen,
+      engine,
+      depth: evaluation.depth,
+      multiPv,
+      score: evaluation.score ?? null,
+      mate: evaluation.mate ?? null,
+      bestMove: evaluation.bestMove ?? null,
+      lines: evaluation.lines ?? null,
+      updatedAt: new Date(),
+    };
+
+    // Most recently saved last; drop the oldest beyond the cap
+    this.data!.positionEvaluations = this.data!.positionEvaluations
+      .filter(e => e !== existing)
+      .concat(positionEvaluation)
+      .slice(-MAX_POSITION_EVALUATIONS);
+    this.persistSoon();
+    return positionEvaluation;
+  }
+
+  async getRepertoires(userId: number): Promise<Repertoire[]> {
+    await this.ensureInitialized();
+    return this.data!.repertoires.filter(r => r.userId === userId).sort((a, b) => 
+      a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  async getRepertoire(id: number, userId: number): Promise<Repertoire | undefined> {
+    await this.ensureInitialized();
+    return this.data!.repertoires.find(r => r.id === id && r.userId === userId);
+  }
+
+  async createRepertoire(insertRepertoire: InsertRepertoire): Promise<Repertoire> {
+    await this.ensureInitialized();
+
+    const repertoire: Repertoire = {
+      id: this.data!.nextId.repertoire++,
+      userId: insertRepertoire.userId ?? null,
+      name: insertRepertoire.name,
+      color: insertRepertoire.color,
+      description: insertRepertoire.description ?? null,
+      createdAt: new Date(),
+    };
+
+    this.data!.repertoires.push(repertoire);
+    await this.persist();
+    return repertoire;
+  }
+
+  async updateRepertoire(id: number, userId: number, updates: Partial<InsertRepertoire>): Promise<Repertoire | undefined> {
+    await this.ensureInitialized();
+
+    const index = this.data!.repertoires.findIndex(r => r.id === id && r.userId === userId);
+    if (index === -1) return undefined;
+    this.data!.repertoires[index] = { ...this.data!.repertoires[index], ...updates };
+    await this.persist();
+    return this.data!.repertoires[index];
+  }
+
+  async deleteRepertoire(id: number, userId: number): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.data!.repertoires.some(r => r.id === id && r.userId === userId)) return;
+    this.data!.repertoires = this.data!.repertoires.filter(r => r.id !== id);
+    this.data!.repertoireNodes = this.data!.repertoireNodes.filter(n => n.repertoireId !== id);
+    await this.persist();
+  }
+
+  async getRepertoireNodes(repertoireId: number): Promise<RepertoireNode[]> {
+    await this.ensureInitialized();
+    return this.data!.repertoireNodes
+      .filter(n => n.repertoireId === repertoireId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getRepertoireNode(id: number): Promise<RepertoireNode | undefined> {
+    await this.ensureInitialized();
+    return this.data!.repertoireNodes.find(n => n.id === id);
+  }
+
+  async createRepertoireNode(insertNode: InsertRepertoireNode): Promise<RepertoireNode> {
+    await this.ensureInitialized();
+
+    const node: RepertoireNode = {
+      id: this.data!.nextId.repertoireNode++,
+      repertoireId: insertNode.repertoireId,
+      parentId: insertNode.parentId ?? null,
+      fen: insertNode.fen,
+      move: insertNode.move,
+      uci: insertNode.uci,
+      color: insertNode.color,
+      comment: insertNode.comment ?? null,
+      eco: insertNode.eco ?? null,
+      openingName: insertNode.openingName ?? null,
+      repetitions: insertNode.repetitions ?? 0,
+      interval: insertNode.interval ?? 0,
+      easeFactor: insertNode.easeFactor ?? 2.5,
+      dueAt: insertNode.dueAt ?? null,
+      createdAt: new Date(),
+    };
+
+    this.data!.repertoireNodes.push(node);
+    await this.persist();
+    return node;
+  }
+
+  async updateRepertoireNode(id: number, updates: Partial<InsertRepertoireNode>): Promise<RepertoireNode | undefined> {
+    await this.ensureInitialized();
+
+    const index = this.data!.repertoireNodes.findIndex(n => n.id === id);
+    if (index === -1) return undefined;
+    this.data!.repertoireNodes[index] = { ...this.data!.repertoireNodes[index], ...updates };
+    await this.persist();
+    return this.data!.repertoireNodes[index];
+  }
+
+  async deleteRepertoireNodes(ids: number[]): Promise<void> {
+    await this.ensureInitialized();
+    this.data!.repertoireNodes = this.data!.repertoireNodes.filter(n => !ids.includes(n.id));
+    await this.persist();
+  }
 }
 
 export const localStore = new LocalStore();
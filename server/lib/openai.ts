@@ -4,6 +4,7 @@
 import OpenAI from "openai";
 import { getLocalTemplate } from "./cache";
 import { gptMemo, isTrivialPosition } from "./gpt-memo";
+import { describeFacts, detectMotifs, positionFacts, type TacticalFact } from "./tactics";
 
 /**
  * Lazily initialize OpenAI client. Avoid constructing the client at module
@@ -54,6 +55,26 @@ function getLanguageInstruction(language: string): string {
   return languages[language] || languages.english;
 }
 
+/**
+ * What the local motif detector sees: the best move's tactics, then the
+ * position's loose pieces and back-rank weaknesses. Never throws, since the
+ * FEN and move come straight from the client.
+ */
+function tacticalFacts(fen: string, bestMove?: string): TacticalFact[] {
+  try {
+    return [...detectMotifs(fen, bestMove ? [bestMove] : []), ...positionFacts(fen)];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Commentary without an LLM: the first two detected facts, if any.
+ */
+function localComment(facts: TacticalFact[], language: string): string | null {
+  return facts.length > 0 ? describeFacts(facts.slice(0, 2), language).join(" ") : null;
+}
+
 /**
  * Generate pedagogical chess commentary - Cost Saver Pack v6.0
  * Profile: Doctor en Ciencias del Deporte y Entrenamiento Ajedrecístico
@@ -81,6 +102,7 @@ export async function getGPTComment(params: {
   } = params;
 
   const bestSan = bestMove || '';
+  const facts = tacticalFacts(fen, bestMove);
 
   // 1. Check local templates first (Cost Saver v6.0)
   const localTemplate = getLocalTemplate(fen, language, voiceMode);
@@ -106,9 +128,9 @@ export async function getGPTComment(params: {
 
   // 4. Rate limit check
   if (!gptMemo.canMakeGPTCall()) {
-    const rateLimitFallback = voiceMode === 'kids'
+    const rateLimitFallback = localComment(facts, language) ?? (voiceMode === 'kids'
       ? 'Great moves! Keep thinking carefully about each position.'
-      : 'Continue analyzing the position thoughtfully. Consider your strategic objectives.';
+      : 'Continue analyzing the position thoughtfully. Consider your strategic objectives.');
     console.log('[gpt] rate limit exceeded, using fallback');
     return { text: rateLimitFallback };
   }
@@ -148,6 +170,7 @@ Position (FEN): ${fen}
 Best continuation: ${bestMove || 'Analyzing...'}
 ${positionContext}
 Recent moves: ${moveHistory.slice(-6).join(' ') || 'Starting position'}
+Tactical facts (verified, build on them): ${describeFacts(facts).join(' ') || 'None detected'}
 
 ${vocabularyLevel}
 
@@ -167,10 +190,10 @@ CRITICAL RULES:
 
   const openai = getOpenAIClient();
   if (!openai) {
-    console.warn('[openai] OPENAI_API_KEY not set - returning fallback comment');
-    const fallback = voiceMode === 'kids'
+    console.warn('[openai] OPENAI_API_KEY not set - returning local comment');
+    const fallback = localComment(facts, language) ?? (voiceMode === 'kids'
       ? 'This is an interesting position! Keep practicing and focus on development and king safety.'
-      : 'This position is instructive. Consider piece coordination and candidate moves; try to improve piece activity.';
+      : 'This position is instructive. Consider piece coordination and candidate moves; try to improve piece activity.');
     gptMemo.set(fen, language, voiceMode, bestSan, fallback);
     return { text: fallback };
   }
@@ -0,0 +1,127 @@
+// Opening explorer over the stored games: every game's first plies are
+// replayed into a tree keyed by normalized FEN (see eval-cache), counting
+// the moves played from each position and the results they led to.
+// Each user has their own tree, rebuilt lazily whenever their games change.
+
+import type { Game } from "@shared/schema";
+import type { ExplorerMove, ExplorerPosition, ExplorerStats } from "@shared/types";
+import { normalizeFen } from "./eval-cache";
+import { parsePgn } from "@shared/pgn";
+
+// Only the opening phase is indexed
+const MAX_PLIES = 30;
+
+type Outcome = "white" | "draws" | "black";
+
+interface Tally {
+  white: number;
+  draws: number;
+  black: number;
+}
+
+interface MoveNode extends Tally {
+  uci: string;
+  san: string;
+}
+
+type MoveTree = Map<string, Map<string, MoveNode>>;
+
+const trees = new Map<number, { tree: MoveTree; signature: string }>();
+
+function gameOutcome(game: Game): Outcome | null {
+  const result = game.result || game.pgn.match(/\[Result\s+"([^"]+)"\]/)?.[1];
+  if (result === "1-0") return "white";
+  if (result === "0-1") return "black";
+  if (result === "1/2-1/2") return "draws";
+  return null; // Unfinished or unknown games don't count
+}
+
+function toStats(tally: Tally): ExplorerStats {
+  const total = tally.white + tally.draws + tally.black;
+  const percent = (n: number) => (total > 0 ? Math.round((n / total) * 100) : 0);
+  return {
+    total,
+    white: tally.white,
+    draws: tally.draws,
+    black: tally.black,
+    whitePercent: percent(tally.white),
+    drawPercent: percent(tally.draws),
+    blackPercent: percent(tally.black),
+  };
+}
+
+function buildTree(games: Game[]): MoveTree {
+  const next: MoveTree = new Map();
+
+  for (const game of games) {
+    const outcome = gameOutcome(game);
+    if (!outcome) continue;
+
+    let parsed;
+    try {
+      parsed = parsePgn(game.pgn)[0];
+    } catch {
+      continue; // Unparseable PGN; skip the game rather than the whole tree
+    }
+    if (!parsed) continue;
+
+    let fen = parsed.startFen;
+    for (const move of parsed.moves.slice(0, MAX_PLIES)) {
+      const key = normalizeFen(fen);
+
+      let children = next.get(key);
+      if (!children) {
+        children = new Map();
+        next.set(key, children);
+      }
+      let node = children.get(move.uci);
+      if (!node) {
+        node = { uci: move.uci, san: move.san, white: 0, draws: 0, black: 0 };
+        children.set(move.uci, node);
+      }
+      node[outcome]++;
+
+      fen = move.fen;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Moves played from `fen` across the user's games, most played first.
+ */
+export function explorePosition(fen: string, games: Game[], userId: number): ExplorerPosition {
+  // Cheap change detection: ids are never reused, so count + max id identify the
+  // set, and updatedAt catches edited results
+  const signature = `${games.length}:${games.reduce((max, g) => Math.max(max, g.id), 0)}:${games.reduce(
+    (max, g) => Math.max(max, g.updatedAt.getTime()),
+    0
+  )}`;
+  let cached = trees.get(userId);
+  if (!cached || cached.signature !== signature) {
+    const started = Date.now();
+    cached = { tree: buildTree(games), signature };
+    trees.set(userId, cached);
+    console.log(`[explorer] indexed ${games.length} games (${cached.tree.size} positions) for user ${userId} in ${Date.now() - started}ms`);
+  }
+
+  const children = cached.tree.get(normalizeFen(fen));
+  const moves: ExplorerMove[] = [];
+  const totals: Tally = { white: 0, draws: 0, black: 0 };
+
+  if (children) {
+    children.forEach((node) => {
+      moves.push({ uci: node.uci, san: node.san, ...toStats(node) });
+      totals.white += node.white;
+      totals.draws += node.draws;
+      totals.black += node.black;
+    });
+  }
+
+  return {
+    fen,
+    ...toStats(totals),
+    moves: moves.sort((a, b) => b.total - a.total),
+  };
+}
@@ -0,0 +1,67 @@
+// PGN export of a stored game: the original headers and variations, with the
+// stored moveAnalyses rows merged into the main line as coach comments,
+// classification NAGs and [%eval] commands.
+
+import type { Game, MoveAnalysis } from "@shared/schema";
+import { parsePgn, writePgn, type PgnGame } from "@shared/pgn";
+
+// Move-quality NAGs: $3 !!, $6 ?!, $2 ?, $4 ??. "good" adds nothing.
+const CLASSIFICATION_NAGS: Record<string, number> = {
+  brilliant: 3,
+  inaccuracy: 6,
+  mistake: 2,
+  blunder: 4,
+};
+const MOVE_QUALITY_NAGS = [1, 2, 3, 4, 5, 6];
+
+function annotate(game: PgnGame, analyses: MoveAnalysis[]) {
+  const byPly = new Map(analyses.map((a) => [a.moveNumber, a] as [number, MoveAnalysis]));
+
+  game.moves.forEach((move, index) => {
+    const analysis = byPly.get(index + 1);
+    // Rows for another version of the game (edited PGN) are skipped
+    if (!analysis || analysis.fen !== move.fen) return;
+
+    const nag = analysis.evaluation ? CLASSIFICATION_NAGS[analysis.evaluation] : undefined;
+    if (nag !== undefined) {
+      move.nags = [nag, ...move.nags.filter((n) => MOVE_QUALITY_NAGS.indexOf(n) === -1)];
+    }
+
+    if (analysis.mate !== null && analysis.mate !== undefined) {
+      move.eval = { mate: analysis.mate };
+    } else if (analysis.score !== null && analysis.score !== undefined) {
+      move.eval = { score: analysis.score / 100 };
+    }
+
+    const commentary = [analysis.analysis, analysis.comment].filter(Boolean).join(" ");
+    if (commentary) move.comment = move.comment ? `${move.comment} ${commentary}` : commentary;
+  });
+}
+
+/**
+ * Export-format PGN for a stored game. Analyses apply to the first game of
+ * the stored PGN, matched by ply and position.
+ */
+export function exportGamePgn(game: Game, analyses: MoveAnalysis[]): string {
+  const parsed = parsePgn(game.pgn);
+  if (parsed.length === 0) throw new Error("Game has no moves");
+
+  // The games row wins: it holds the edits made through PATCH /api/games/:id,
+  // and names the PGN lacks (imports fill in defaults)
+  const first = parsed[0];
+  const headers = first.headers;
+  first.headers = {
+    ...headers,
+    Event: game.event || headers.Event || "?",
+    Site: game.site || headers.Site || "?",
+    Date: game.date || headers.Date || "????.??.??",
+    White: game.white,
+    Black: game.black,
+  };
+  if (game.eco) first.headers.ECO = game.eco;
+  if (game.opening) first.headers.Opening = game.opening;
+  if (game.result) first.result = game.result;
+
+  annotate(first, analyses);
+  return parsed.map(writePgn).join("\n");
+}
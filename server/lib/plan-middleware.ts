@@ -1,50 +1,122 @@
-// Lightweight middleware to require a minimum plan level for protected routes.
+// Plan resolution and gating. The plan comes from the signed-in user's
+// subscription row (see attachPlan); nothing the client sends can raise it.
 // Usage: import { requirePlan, PlanLevel } from './plan-middleware';
 // app.use('/protected', requirePlan('pro'), handler);
 
 import type { Request, Response, NextFunction } from "express";
+import type { Subscription } from "@shared/schema";
+import { PLAN_CONFIGS } from "@shared/types";
+import { getStore } from "./store-provider";
 
 /**
  * Plan levels: 'free' < 'pro' < 'elite'
  */
 export type PlanLevel = 'free' | 'pro' | 'elite';
 
+declare global {
+  namespace Express {
+    interface Request {
+      plan?: PlanLevel;
+    }
+  }
+}
+
 const order: Record<PlanLevel, number> = {
   free: 0,
   pro: 1,
   elite: 2,
 };
 
+const LEVELS: PlanLevel[] = ['free', 'pro', 'elite'];
+
+export function isPlanLevel(value: unknown): value is PlanLevel {
+  return value === 'free' || value === 'pro' || value === 'elite';
+}
+
+export function planAtLeast(plan: PlanLevel, minLevel: PlanLevel): boolean {
+  return order[plan] >= order[minLevel];
+}
+
 /**
- * resolvePlanFromReq - helper that determines the effective plan for the request.
- * Current logic:
- *  - If req.query.plan present -> use it
- *  - Otherwise read process.env.DEFAULT_PLAN (fallback 'free')
- *  - Future: prefer authenticated user plan if req.user exists
+ * Plan for users without an active subscription (DEFAULT_PLAN, server config only).
+ */
+export function defaultPlan(): PlanLevel {
+  const normalized = String(process.env.DEFAULT_PLAN || 'free').toLowerCase();
+  return isPlanLevel(normalized) ? normalized : 'free';
+}
+
+/**
+ * A subscription counts while it is active and not past its end date.
+ */
+export function subscriptionPlan(subscription: Subscription | undefined): PlanLevel | null {
+  if (!subscription || subscription.status !== 'active') return null;
+  if (subscription.expiresAt && subscription.expiresAt.getTime() <= Date.now()) return null;
+  return isPlanLevel(subscription.plan) ? subscription.plan : null;
+}
+
+/**
+ * Lowest plan whose engine depth reaches `depth`.
+ */
+export function planForDepth(depth: number): PlanLevel {
+  return LEVELS.find((level) => PLAN_CONFIGS[level].engineDepth >= depth) || 'elite';
+}
+
+/**
+ * Lowest plan that uses `model`, or null for a model no plan offers.
+ */
+export function planForModel(model: string): PlanLevel | null {
+  return LEVELS.find((level) => PLAN_CONFIGS[level].model === model) || null;
+}
+
+/**
+ * attachPlan - sets req.plan from the signed-in user's subscription.
+ * Runs after authenticate; anonymous requests get the default plan.
+ */
+export async function attachPlan(req: Request, _res: Response, next: NextFunction) {
+  req.plan = defaultPlan();
+  if (!req.user) return next();
+
+  try {
+    const { store } = await getStore();
+    const plan = subscriptionPlan(await store.getSubscription(req.user.id));
+    if (plan) req.plan = plan;
+  } catch (error) {
+    console.error('[plan] subscription lookup failed:', error instanceof Error ? error.message : error);
+  }
+  next();
+}
+
+/**
+ * resolvePlanFromReq - the effective plan for the request, as set by attachPlan.
  */
 export function resolvePlanFromReq(req: Request): PlanLevel {
-  const q = (req.query?.plan as string | undefined) || process.env.DEFAULT_PLAN || 'FREE';
-  const normalized = String(q).toLowerCase();
-  if (normalized === 'elite') return 'elite';
-  if (normalized === 'pro') return 'pro';
-  return 'free';
+  return req.plan || defaultPlan();
+}
+
+/**
+ * upgradeRequired - the 402 response for a request above the caller's plan
+ * (402 to match the existing trial flow, which opens the upgrade modal).
+ */
+export function upgradeRequired(res: Response, minLevel: PlanLevel, plan: PlanLevel) {
+  return res.status(402).json({
+    reason: "UPGRADE_REQUIRED",
+    required: minLevel,
+    plan,
+    message: `This feature requires plan=${minLevel}. Your plan=${plan}. Upgrade to continue.`,
+  });
 }
 
 /**
  * requirePlan(minLevel) - middleware that enforces a required plan level.
- * If the request plan is lower than required, responds 402 with reason TRIAL_ENDED
- * (or 403 depending on context). Uses 402 for upgrade-related gating to match
- * the existing trial flow.
+ * `minLevel` may be a function of the request (e.g. the requested depth or
+ * model); returning null lets the request through.
  */
-export function requirePlan(minLevel: PlanLevel) {
+export function requirePlan(minLevel: PlanLevel | ((req: Request) => PlanLevel | null)) {
   return (req: Request, res: Response, next: NextFunction) => {
+    const required = typeof minLevel === 'function' ? minLevel(req) : minLevel;
     const plan = resolvePlanFromReq(req);
-    if (order[plan] < order[minLevel]) {
-      // Use 402 to indicate upgrade required (consistent with trial behavior)
-      return res.status(402).json({
-        reason: "UPGRADE_REQUIRED",
-        message: `This feature requires plan=${minLevel}. Your plan=${plan}. Upgrade to continue.`,
-      });
+    if (required && !planAtLeast(plan, required)) {
+      return upgradeRequired(res, required, plan);
     }
     return next();
   };
@@ -0,0 +1,219 @@
+// Own-game puzzles: scans the user's stored games with Stockfish for moves
+// where the player missed a tactic or blundered (a large eval swing at a
+// position with a single clearly-best move) and stores that position as a
+// puzzle with source "own-game", private to the user and linked back to the
+// game and ply. The solution follows the engine line for as long as every
+// solver move stays clearly best. Jobs run in-process, one per user.
+
+import { Chess } from "chess.js";
+import type { Game, InsertPuzzle, User } from "@shared/schema";
+import type { PuzzleGenerationJob } from "@shared/types";
+import { parsePgn } from "@shared/pgn";
+import { mateTheme, playSolutionMove, solutionToSan } from "@shared/puzzle";
+import type { IStorage } from "../storage";
+import { getStockfishEvaluation, type EngineEvaluation } from "./stockfish";
+import { evalToCentipawns } from "./game-analysis";
+import { puzzleTheme } from "./tactics";
+
+export const OWN_GAME_SOURCE = "own-game";
+
+const MIN_SWING_CP = 200; // Eval the played move gave away (mover's perspective)
+const UNIQUE_MARGIN_CP = 200; // Best move has to beat the second best by this much
+const STILL_WINNING_CP = 300; // Not a miss if the mover is still this far ahead
+const MAX_SOLVER_MOVES = 3;
+
+// Batch jobs queue behind interactive engine requests
+const BATCH_PRIORITY = -1;
+
+const jobs = new Map<number, PuzzleGenerationJob>();
+
+type Evaluate = (fen: string) => Promise<EngineEvaluation>;
+
+/**
+ * Returns the current (or last) generation job for a user, if any.
+ */
+export function getPuzzleGenerationJob(userId: number): PuzzleGenerationJob | undefined {
+  return jobs.get(userId);
+}
+
+/**
+ * Whether the side to move has one clearly-best move: a mate the others
+ * don't have (any mate in 1 counts, since the board accepts every mating
+ * move), or a lead of UNIQUE_MARGIN_CP over the second line.
+ */
+export function hasClearlyBestMove(evaluation: EngineEvaluation): boolean {
+  const [best, second] = evaluation.lines;
+  if (!best?.pv.length) return false;
+  if (best.mate !== undefined && best.mate > 0) {
+    return best.mate === 1 || !(second?.mate !== undefined && second.mate > 0);
+  }
+  if (!second) return true;
+  return evalToCentipawns(best.score, best.mate) - evalToCentipawns(second.score, second.mate) >= UNIQUE_MARGIN_CP;
+}
+
+/**
+ * Mover's value of the position after their move (engine scores are for the side to move).
+ */
+async function valueAfterMove(chess: Chess, evaluate: Evaluate): Promise<number> {
+  if (chess.isCheckmate()) return evalToCentipawns(undefined, 1);
+  if (chess.isDraw()) return 0;
+  const reply = (await evaluate(chess.fen())).lines[0];
+  return reply ? -evalToCentipawns(reply.score, reply.mate) : 0;
+}
+
+/**
+ * Solution line from `fen`: the best move, then the opponent's best reply and
+ * the solver's next move for as long as that move is still clearly best.
+ */
+async function solutionLine(fen: string, evaluation: EngineEvaluation, evaluate: Evaluate): Promise<string[]> {
+  const chess = new Chess(fen);
+  const line: string[] = [];
+  let current = evaluation;
+
+  while (line.length < MAX_SOLVER_MOVES * 2) {
+    const move = current.lines[0]?.pv[0];
+    if (!move || !playSolutionMove(chess, move)) break;
+    line.push(move);
+    if (chess.isGameOver()) break;
+
+    const reply = (await evaluate(chess.fen())).lines[0]?.pv[0];
+    if (!reply || !playSolutionMove(chess, reply)) break;
+    if (chess.isGameOver()) break;
+    const next = await evaluate(chess.fen());
+    if (!hasClearlyBestMove(next)) break;
+    line.push(reply);
+    current = next;
+  }
+  return line;
+}
+
+/**
+ * Colors the user played in `game`: matched on the account and linked
+ * Lichess names, or both sides when neither name appears.
+ */
+function userColors(game: Game, user: User): Set<"w" | "b"> {
+  const names = [user.username, user.lichessUsername].filter((n): n is string => !!n).map((n) => n.toLowerCase());
+  const colors = new Set<"w" | "b">();
+  if (names.includes(game.white.toLowerCase())) colors.add("w");
+  if (names.includes(game.black.toLowerCase())) colors.add("b");
+  return colors.size > 0 ? colors : new Set<"w" | "b">(["w", "b"]);
+}
+
+/**
+ * Puzzles for the user's missed tactics and blunders in one game.
+ */
+export async function findGamePuzzles(game: Game, user: User, evaluate: Evaluate): Promise<InsertPuzzle[]> {
+  const parsed = parsePgn(game.pgn)[0];
+  if (!parsed) return [];
+  const colors = userColors(game, user);
+  const found: InsertPuzzle[] = [];
+
+  for (let ply = 0; ply < parsed.moves.length; ply++) {
+    const played = parsed.moves[ply];
+    if (!colors.has(played.color)) continue;
+
+    const fen = ply === 0 ? parsed.startFen : parsed.moves[ply - 1].fen;
+    const chess = new Chess(fen);
+    if (chess.moves().length < 2) continue; // Forced move
+
+    const evaluation = await evaluate(fen);
+    const best = evaluation.lines[0];
+    if (!best?.pv.length || best.pv[0] === played.uci || !hasClearlyBestMove(evaluation)) continue;
+
+    const bestValue = evalToCentipawns(best.score, best.mate);
+    playSolutionMove(chess, played.uci);
+    const playedValue = await valueAfterMove(chess, evaluate);
+    if (bestValue - playedValue < MIN_SWING_CP || playedValue >= STILL_WINNING_CP) continue;
+
+    const line = await solutionLine(fen, evaluation, evaluate);
+    if (line.length === 0) continue;
+    const solution = line.join(" ");
+    const bestSan = solutionToSan(fen, solution)[0];
+    const moveLabel = `${played.moveNumber}${played.color === "w" ? "." : "..."}`;
+    const mate = best.mate !== undefined && best.mate > 0 ? best.mate : null;
+    const rating = played.color === "w" ? game.whiteRating : game.blackRating;
+
+    found.push({
+      fen,
+      solution,
+      explanation: `From your game ${game.white} vs ${game.black}${game.date ? ` (${game.date})` : ""}: ` +
+        `you played ${moveLabel} ${played.san}, but ${bestSan} was clearly best ` +
+        (mate ? `(mate in ${mate}).` : `(${((bestValue - playedValue) / 100).toFixed(1)} pawns better).`),
+      // The engine knows the mate length even when the stored line stops short of it
+      theme: mate ? mateTheme(mate) : puzzleTheme(fen, solution) ?? "Missed tactic",
+      rating: rating ?? Math.round(user.puzzleRating),
+      source: OWN_GAME_SOURCE,
+      externalId: `${game.id}:${ply + 1}`,
+      userId: user.id,
+      gameId: game.id,
+      gamePly: ply + 1,
+    });
+  }
+  return found;
+}
+
+/**
+ * Start generating puzzles from `games`. Returns the running job if one is
+ * already in progress for the user. Positions already turned into puzzles
+ * by an earlier run are counted as duplicates, not stored twice.
+ */
+export function startPuzzleGeneration(user: User, games: Game[], store: IStorage, depth: number): PuzzleGenerationJob {
+  const existing = jobs.get(user.id);
+  if (existing && existing.status === "running") {
+    return existing;
+  }
+
+  const job: PuzzleGenerationJob = {
+    userId: user.id,
+    status: "running",
+    depth,
+    totalGames: games.length,
+    scannedGames: 0,
+    created: 0,
+    duplicates: 0,
+    failed: 0,
+    startedAt: new Date().toISOString(),
+  };
+  jobs.set(user.id, job);
+
+  runJob(job, user, games, store)
+    .then(() => {
+      job.status = "completed";
+      job.finishedAt = new Date().toISOString();
+      console.log(`[puzzle-generator] user ${job.userId} done (${job.scannedGames} games, ${job.created} puzzles, depth ${job.depth})`);
+    })
+    .catch((error: any) => {
+      job.status = "failed";
+      job.error = error?.message || "Puzzle generation failed";
+      job.finishedAt = new Date().toISOString();
+      console.error(`[puzzle-generator] user ${job.userId} failed:`, error);
+    });
+
+  return job;
+}
+
+async function runJob(job: PuzzleGenerationJob, user: User, games: Game[], store: IStorage): Promise<void> {
+  // Two lines everywhere, so a position seen as "after" one move is cached as "before" the next
+  const evaluate: Evaluate = (fen) => getStockfishEvaluation(fen, job.depth, 2, { priority: BATCH_PRIORITY });
+
+  for (const game of games) {
+    let found: InsertPuzzle[];
+    try {
+      found = await findGamePuzzles(game, user, evaluate);
+    } catch (error) {
+      job.failed++;
+      job.scannedGames++;
+      console.warn(`[puzzle-generator] skipped game ${game.id}:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    const existing = new Set(
+      (await store.getPuzzlesByExternalId(OWN_GAME_SOURCE, found.map((p) => p.externalId!))).map((p) => p.externalId)
+    );
+    const fresh = found.filter((p) => !existing.has(p.externalId!));
+    const created = await store.createPuzzles(fresh);
+    job.created += created.length;
+    job.duplicates += found.length - fresh.length;
+    job.scannedGames++;
+  }
+}
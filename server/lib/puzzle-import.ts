@@ -0,0 +1,225 @@
+// Import of the Lichess puzzle database (https://database.lichess.org/#puzzles),
+// a CSV with one puzzle per line:
+//   PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
+// FEN is the position before the opponent's move; Moves starts with that move
+// and continues with the solution line (UCI). The input is read as a stream
+// and stored in batches, so the multi-million-row dump never sits in memory.
+
+import { Chess } from "chess.js";
+import type { InsertPuzzle } from "@shared/schema";
+import type { PuzzleImportResult } from "@shared/types";
+import { MOTIF_THEMES, mateTheme, playSolutionMove, solutionToSan } from "@shared/puzzle";
+import type { IStorage } from "../storage";
+import { puzzleTheme } from "./tactics";
+
+// Keeps each INSERT well under Postgres' bind-parameter limit
+const BATCH_SIZE = 500;
+
+// Errors kept in the result; the rest are only counted
+const MAX_REPORTED_ERRORS = 20;
+
+// Column order of dumps without a header row
+const DEFAULT_COLUMNS = ["PuzzleId", "FEN", "Moves", "Rating", "RatingDeviation", "Popularity", "NbPlays", "Themes", "GameUrl", "OpeningTags"];
+
+// Lichess theme tags → our `theme`, in priority order (mates first, then the
+// motif); shared names come from MOTIF_THEMES so imported and detected themes filter together
+const THEME_NAMES: [string, string][] = [
+  ["backRankMate", MOTIF_THEMES.backRankMate],
+  ["smotheredMate", MOTIF_THEMES.smotheredMate],
+  ["mateIn1", mateTheme(1)],
+  ["mateIn2", mateTheme(2)],
+  ["mateIn3", mateTheme(3)],
+  ["mateIn4", mateTheme(4)],
+  ["mateIn5", mateTheme(5)],
+  ["fork", MOTIF_THEMES.fork],
+  ["pin", MOTIF_THEMES.pin],
+  ["skewer", MOTIF_THEMES.skewer],
+  ["discoveredAttack", MOTIF_THEMES.discoveredAttack],
+  ["doubleCheck", "Double check"],
+  ["xRayAttack", "X-ray attack"],
+  ["deflection", "Deflection"],
+  ["attraction", "Attraction"],
+  ["clearance", "Clearance"],
+  ["interference", "Interference"],
+  ["capturingDefender", "Capturing the defender"],
+  ["trappedPiece", "Trapped piece"],
+  ["intermezzo", "Intermezzo"],
+  ["sacrifice", "Sacrifice"],
+  ["quietMove", "Quiet move"],
+  ["zugzwang", "Zugzwang"],
+  ["underPromotion", "Underpromotion"],
+  ["promotion", MOTIF_THEMES.promotion],
+  ["advancedPawn", "Advanced pawn"],
+  ["hangingPiece", MOTIF_THEMES.hangingPiece],
+  ["exposedKing", "Exposed king"],
+  ["kingsideAttack", "Kingside attack"],
+  ["queensideAttack", "Queenside attack"],
+  ["defensiveMove", "Defensive move"],
+  ["mate", "Checkmate"],
+];
+
+// Tags about length, phase or outcome rather than the tactic
+const GENERIC_THEMES = new Set([
+  "advantage", "crushing", "equality", "opening", "middlegame", "endgame", "oneMove", "short", "long",
+  "veryLong", "master", "masterVsMaster", "superGM",
+]);
+
+export interface PuzzleImportOptions {
+  themes?: string[]; // Keep puzzles with any of these Lichess tags (e.g. "fork")
+  minRating?: number;
+  maxRating?: number;
+  limit?: number; // Stop after this many new puzzles
+  onProgress?: (result: PuzzleImportResult) => void; // After every stored batch
+}
+
+/**
+ * Our theme for a puzzle's Lichess tags: the first known motif, otherwise the
+ * first specific tag spelled out ("bodenMate" → "Boden mate"), else "Mixed".
+ */
+export function lichessThemeName(tags: string[]): string {
+  for (const [tag, name] of THEME_NAMES) {
+    if (tags.includes(tag)) return name;
+  }
+  const specific = tags.find((tag) => !GENERIC_THEMES.has(tag) && !tag.endsWith("Endgame"));
+  if (!specific) return "Mixed";
+  const words = specific.replace(/([A-Z0-9])/g, " $1").trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * One CSV row as a puzzle: the opponent's first move is played to get the
+ * start position, and the rest of the line has to be legal from there.
+ */
+export function puzzleFromCsvRow(row: Record<string, string>): InsertPuzzle {
+  const id = (row.PuzzleId || "").trim();
+  const moves = (row.Moves || "").trim().split(/\s+/).filter(Boolean);
+  if (!id || !row.FEN || moves.length < 2) throw new Error("Missing PuzzleId, FEN or Moves");
+
+  const chess = new Chess(row.FEN.trim());
+  if (!playSolutionMove(chess, moves[0])) throw new Error(`Illegal first move "${moves[0]}"`);
+  const fen = chess.fen();
+  const solution = moves.slice(1).join(" ");
+  solutionToSan(fen, solution);
+
+  const tags = (row.Themes || "").trim().split(/\s+/).filter(Boolean);
+  const theme = lichessThemeName(tags);
+  const opening = (row.OpeningTags || "").trim().split(/\s+/)[0]?.replace(/_/g, " ");
+  const rating = parseInt(row.Rating, 10);
+  const deviation = parseInt(row.RatingDeviation, 10);
+  const plays = parseInt(row.NbPlays, 10);
+
+  return {
+    fen,
+    solution,
+    explanation: `Lichess puzzle #${id}. Themes: ${tags.join(", ") || "Mixed"}${opening ? `. Opening: ${opening}` : ""}`,
+    // Rows tagged only with generic themes ("crushing", "short") get a detected one
+    theme: theme === "Mixed" ? puzzleTheme(fen, solution) ?? theme : theme,
+    rating: isNaN(rating) ? null : rating,
+    ratingDeviation: isNaN(deviation) ? 350 : deviation,
+    plays: isNaN(plays) ? 0 : plays,
+    source: "lichess",
+    externalId: id,
+  };
+}
+
+function wanted(row: Record<string, string>, options: PuzzleImportOptions): boolean {
+  const rating = parseInt(row.Rating, 10);
+  if (options.minRating !== undefined && !(rating >= options.minRating)) return false;
+  if (options.maxRating !== undefined && !(rating <= options.maxRating)) return false;
+  if (options.themes?.length) {
+    const tags = (row.Themes || "").split(/\s+/);
+    if (!options.themes.some((theme) => tags.includes(theme))) return false;
+  }
+  return true;
+}
+
+/**
+ * Store the puzzles whose Lichess id isn't in the database yet.
+ */
+async function saveNewPuzzles(batch: InsertPuzzle[], store: IStorage): Promise<{ created: number; duplicates: number }> {
+  const ids = batch.map((p) => p.externalId!);
+  const existing = new Set((await store.getPuzzlesByExternalId("lichess", ids)).map((p) => p.externalId));
+  const fresh = batch.filter((p, i) => {
+    if (existing.has(ids[i])) return false;
+    existing.add(ids[i]); // Repeats within the batch are duplicates too
+    return true;
+  });
+  const created = await store.createPuzzles(fresh);
+  return { created: created.length, duplicates: batch.length - fresh.length };
+}
+
+/**
+ * Import a Lichess puzzle CSV from `input` (a file, stdin or a request body).
+ * The header row is optional. Rows that fail to parse are counted, the first
+ * few reported with their line number, and don't stop the import.
+ */
+export async function importLichessPuzzles(
+  input: AsyncIterable<Buffer | string>,
+  store: IStorage,
+  options: PuzzleImportOptions = {}
+): Promise<PuzzleImportResult> {
+  const result: PuzzleImportResult = { imported: 0, duplicates: 0, skipped: 0, failed: 0, errors: [] };
+  const decoder = new TextDecoder();
+  let columns = DEFAULT_COLUMNS;
+  let lineNumber = 0;
+  let batch: InsertPuzzle[] = [];
+  let buffered = "";
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    if (options.limit !== undefined) batch = batch.slice(0, options.limit - result.imported);
+    const saved = await saveNewPuzzles(batch, store);
+    result.imported += saved.created;
+    result.duplicates += saved.duplicates;
+    batch = [];
+    options.onProgress?.(result);
+  };
+
+  const done = () => options.limit !== undefined && result.imported >= options.limit;
+
+  const handleLine = async (line: string) => {
+    lineNumber++;
+    if (!line.trim()) return;
+    // The dump never quotes fields: FEN, moves, themes and tags are space-separated
+    const fields = line.replace(/\r$/, "").split(",");
+    if (lineNumber === 1 && fields[0] === "PuzzleId") {
+      columns = fields;
+      return;
+    }
+
+    const row: Record<string, string> = {};
+    columns.forEach((column, i) => (row[column] = fields[i] ?? ""));
+    if (!wanted(row, options)) {
+      result.skipped++;
+      return;
+    }
+
+    try {
+      batch.push(puzzleFromCsvRow(row));
+    } catch (error) {
+      result.failed++;
+      if (result.errors.length < MAX_REPORTED_ERRORS) {
+        result.errors.push({ line: lineNumber, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    if (batch.length >= BATCH_SIZE) await flush();
+  };
+
+  for await (const chunk of input) {
+    // Past the limit the rest is drained unread, so a request can still be answered
+    if (done()) continue;
+    buffered += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop()!;
+    for (const line of lines) {
+      if (done()) break;
+      await handleLine(line);
+    }
+  }
+  if (!done()) {
+    await handleLine(buffered + decoder.decode());
+    await flush();
+  }
+
+  return result;
+}
@@ -0,0 +1,171 @@
+// Glicko-2 puzzle ratings. Every rated attempt is a game between the user
+// and the puzzle (solved = the user wins), played as its own rating period,
+// so both ratings move after each /api/puzzles/:id/attempt. Only the first
+// attempt at a puzzle is rated. The user's rating after each attempt is
+// appended to progressStats (statType "puzzle_rating") for the history chart.
+// Reference: Glickman, "Example of the Glicko-2 system" (2013).
+
+import type { Puzzle, User } from "@shared/schema";
+import type { PuzzleRatingUpdate } from "@shared/types";
+import type { IStorage } from "../storage";
+
+export const PUZZLE_RATING_STAT = "puzzle_rating";
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+const SCALE = 173.7178; // Glicko <-> Glicko-2 scale
+const TAU = 0.5; // Constrains volatility changes
+const EPSILON = 0.000001;
+const MAX_DEVIATION = 350;
+const MIN_DEVIATION = 45; // Keeps established ratings responsive
+const MAX_VOLATILITY = 0.1;
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, muOpponent: number, phiOpponent: number): number {
+  return 1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+}
+
+/**
+ * New volatility (step 5 of the paper, Illinois algorithm).
+ */
+function nextVolatility(phi: number, sigma: number, delta: number, v: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+/**
+ * Rate `player` after one game against `opponent` (score 1 = win, 0 = loss).
+ */
+export function rateGame(player: Glicko2Rating, opponent: Glicko2Rating, score: number): Glicko2Rating {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.deviation / SCALE;
+  const muOpponent = (opponent.rating - 1500) / SCALE;
+  const phiOpponent = opponent.deviation / SCALE;
+
+  const gOpponent = g(phiOpponent);
+  const expected = expectedScore(mu, muOpponent, phiOpponent);
+  const v = 1 / (gOpponent * gOpponent * expected * (1 - expected));
+  const delta = v * gOpponent * (score - expected);
+
+  const sigma = Math.min(MAX_VOLATILITY, nextVolatility(phi, player.volatility, delta, v));
+  const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+  const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNew = mu + phiNew * phiNew * gOpponent * (score - expected);
+
+  return {
+    rating: muNew * SCALE + 1500,
+    deviation: Math.min(MAX_DEVIATION, Math.max(MIN_DEVIATION, phiNew * SCALE)),
+    volatility: sigma,
+  };
+}
+
+export function userPuzzleRating(user: Pick<User, "puzzleRating" | "puzzleRatingDeviation" | "puzzleVolatility">): Glicko2Rating {
+  return { rating: user.puzzleRating, deviation: user.puzzleRatingDeviation, volatility: user.puzzleVolatility };
+}
+
+function puzzleGlicko(puzzle: Pick<Puzzle, "rating" | "ratingDeviation" | "volatility">): Glicko2Rating {
+  return { rating: puzzle.rating ?? 1500, deviation: puzzle.ratingDeviation, volatility: puzzle.volatility };
+}
+
+/**
+ * Rate one attempt: update the user's and the puzzle's ratings (both from
+ * their values before the attempt) and record the user's new rating.
+ */
+export async function ratePuzzleAttempt(
+  userId: number,
+  puzzle: Puzzle,
+  solved: boolean,
+  store: IStorage
+): Promise<PuzzleRatingUpdate> {
+  const user = await store.getUser(userId);
+  if (!user) throw new Error(`User ${userId} not found`);
+
+  const before = userPuzzleRating(user);
+  const puzzleBefore = puzzleGlicko(puzzle);
+  const after = rateGame(before, puzzleBefore, solved ? 1 : 0);
+  const puzzleAfter = rateGame(puzzleBefore, before, solved ? 0 : 1);
+
+  await store.updateUser(userId, {
+    puzzleRating: after.rating,
+    puzzleRatingDeviation: after.deviation,
+    puzzleVolatility: after.volatility,
+  });
+  await store.updatePuzzle(puzzle.id, {
+    rating: Math.round(puzzleAfter.rating),
+    ratingDeviation: puzzleAfter.deviation,
+    volatility: puzzleAfter.volatility,
+    plays: puzzle.plays + 1,
+  });
+  await store.createProgressStat({
+    userId,
+    statType: PUZZLE_RATING_STAT,
+    value: Math.round(after.rating),
+    metadata: { puzzleId: puzzle.id, solved, deviation: Math.round(after.deviation) },
+  });
+
+  return {
+    rating: Math.round(after.rating),
+    deviation: Math.round(after.deviation),
+    change: Math.round(after.rating) - Math.round(before.rating),
+    puzzleRating: Math.round(puzzleAfter.rating),
+  };
+}
+
+// Candidates the next puzzle is drawn from, closest in rating first
+export const NEXT_PUZZLE_POOL = 5;
+
+/**
+ * Pick the next puzzle for a player rated `rating`: among puzzles not yet
+ * attempted (all puzzles once every one has been tried), one of the few
+ * closest in rating, at random so "next" doesn't always repeat. Only the
+ * NEXT_PUZZLE_POOL nearest candidates are loaded from the store.
+ */
+export async function pickNextPuzzle(
+  store: IStorage,
+  userId: number,
+  rating: number,
+  options: { themes?: string[]; excludeId?: number } = {}
+): Promise<Puzzle | null> {
+  const query = { ...options, limit: NEXT_PUZZLE_POOL };
+  let pool = await store.getPuzzlesNearRating(userId, rating, { ...query, unattempted: true });
+  if (pool.length === 0) pool = await store.getPuzzlesNearRating(userId, rating, query);
+  if (pool.length === 0) return null;
+  return pool[Math.floor(Math.random() * pool.length)];
+}
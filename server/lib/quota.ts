@@ -0,0 +1,170 @@
+// Daily quotas: the FREE trial (PRO analyses per day inside a minutes window)
+// plus per-plan limits on LLM calls and TTS seconds. Counters live in the
+// quota_usage table (or LocalStore) keyed by day and subject, and every
+// limited increment is a single check-and-add in storage, so concurrent
+// requests can't both take the last unit. /api/plan and /api/analyze both go
+// through getQuotaStatus / consumeTrialAnalysis, so they always agree.
+
+import type { Request } from "express";
+import type { QuotaMetric, QuotaStatus } from "@shared/types";
+import type { IStorage } from "../storage";
+import type { PlanLevel } from "./plan-middleware";
+
+export interface QuotaRules {
+  trialEnabled: boolean;
+  trialAnalysesPerDay: number;
+  trialDurationMs: number; // Window opened by the first trial analysis of the day
+  llmCalls: Record<PlanLevel, number | null>; // null = unlimited
+  ttsSeconds: Record<PlanLevel, number | null>;
+}
+
+function limitFromEnv(name: string): number | null {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) || value < 0 ? null : value;
+}
+
+/**
+ * Quota rules from the environment. Read on every call so tests and ops can
+ * change them without a restart.
+ */
+export function getQuotaRules(): QuotaRules {
+  return {
+    trialEnabled: (process.env.TRIAL_ENABLED || "true") === "true",
+    trialAnalysesPerDay: limitFromEnv("TRIAL_ANALYSES_PER_DAY") ?? 1,
+    trialDurationMs: (limitFromEnv("TRIAL_DURATION_MIN") ?? 3) * 60 * 1000,
+    llmCalls: {
+      free: limitFromEnv("QUOTA_LLM_CALLS_FREE"),
+      pro: limitFromEnv("QUOTA_LLM_CALLS_PRO"),
+      elite: limitFromEnv("QUOTA_LLM_CALLS_ELITE"),
+    },
+    ttsSeconds: {
+      free: limitFromEnv("QUOTA_TTS_SECONDS_FREE"),
+      pro: limitFromEnv("QUOTA_TTS_SECONDS_PRO"),
+      elite: limitFromEnv("QUOTA_TTS_SECONDS_ELITE"),
+    },
+  };
+}
+
+/**
+ * Quota day (YYYY-MM-DD) in TZ; counters reset at local midnight.
+ */
+export function quotaDay(date = new Date()): string {
+  const tz = process.env.TZ || "America/Chicago";
+  return date.toLocaleDateString("en-CA", { timeZone: tz });
+}
+
+/**
+ * Who a request's usage is counted against: the signed-in user, else the IP.
+ */
+export function quotaSubject(req: Request): string {
+  if (req.user) return `user:${req.user.id}`;
+  return `ip:${req.ip || req.socket?.remoteAddress || "anon"}`;
+}
+
+/**
+ * Today's counters, trial state and limits for `subject` on `plan`.
+ */
+export async function getQuotaStatus(
+  subject: string,
+  plan: PlanLevel,
+  store: IStorage,
+  rules = getQuotaRules()
+): Promise<QuotaStatus> {
+  const day = quotaDay();
+  const row = await store.getQuotaUsage(subject, day);
+  const usage: Record<QuotaMetric, number> = {
+    trialAnalyses: row?.trialAnalyses ?? 0,
+    stockfishCalls: row?.stockfishCalls ?? 0,
+    llmCalls: row?.llmCalls ?? 0,
+    ttsSeconds: row?.ttsSeconds ?? 0,
+  };
+
+  const startTime = row?.trialStartedAt ? row.trialStartedAt.getTime() : undefined;
+  const remainingMs = startTime === undefined
+    ? rules.trialDurationMs
+    : Math.max(0, rules.trialDurationMs - (Date.now() - startTime));
+  const remainingAnalyses = Math.max(0, rules.trialAnalysesPerDay - usage.trialAnalyses);
+
+  return {
+    day,
+    plan,
+    trial: {
+      eligible: rules.trialEnabled && plan === "free" && remainingAnalyses > 0 && remainingMs > 0,
+      usedToday: usage.trialAnalyses > 0,
+      remainingMs: rules.trialEnabled ? remainingMs : 0,
+      remainingAnalyses: rules.trialEnabled ? remainingAnalyses : 0,
+      startTime,
+    },
+    usage,
+    limits: { llmCalls: rules.llmCalls[plan], ttsSeconds: rules.ttsSeconds[plan] },
+  };
+}
+
+/**
+ * Take one trial analysis for `subject`. Returns false once the day's
+ * analyses or the minutes window are used up (or the trial is disabled).
+ */
+export async function consumeTrialAnalysis(subject: string, store: IStorage, rules = getQuotaRules()): Promise<boolean> {
+  const status = await getQuotaStatus(subject, "free", store, rules);
+  if (!status.trial.eligible) return false;
+  const row = await store.addQuotaUsage(subject, status.day, { trialAnalyses: 1 }, {
+    metric: "trialAnalyses",
+    max: rules.trialAnalysesPerDay,
+  });
+  return !!row;
+}
+
+/**
+ * Give back a trial analysis taken by consumeTrialAnalysis (e.g. the engine failed).
+ */
+export async function refundTrialAnalysis(subject: string, store: IStorage): Promise<void> {
+  await store.addQuotaUsage(subject, quotaDay(), { trialAnalyses: -1 });
+}
+
+/**
+ * Take `amount` of a plan-limited metric. Returns false when it would go over
+ * the plan's daily limit; unlimited plans always succeed.
+ */
+export async function consumeQuota(
+  subject: string,
+  plan: PlanLevel,
+  metric: "llmCalls" | "ttsSeconds",
+  amount: number,
+  store: IStorage,
+  rules = getQuotaRules()
+): Promise<boolean> {
+  const max = rules[metric][plan];
+  const row = await store.addQuotaUsage(subject, quotaDay(), { [metric]: amount }, max === null ? undefined : { metric, max });
+  return !!row;
+}
+
+/**
+ * Count usage that has no limit (telemetry such as stockfishCalls).
+ */
+export async function recordUsage(
+  subject: string,
+  amounts: Partial<Record<QuotaMetric, number>>,
+  store: IStorage
+): Promise<void> {
+  await store.addQuotaUsage(subject, quotaDay(), amounts);
+}
+
+/**
+ * Rough spoken length of `text` (~15 characters per second), charged before
+ * the audio is generated.
+ */
+export function estimateTtsSeconds(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 15));
+}
+
+/**
+ * The 402 body for a used-up daily quota (opens the upgrade modal like TRIAL_ENDED).
+ */
+export function quotaExceeded(metric: "llmCalls" | "ttsSeconds", plan: PlanLevel) {
+  return {
+    reason: "QUOTA_EXCEEDED",
+    metric,
+    plan,
+    message: `Daily ${metric === "llmCalls" ? "coach" : "voice"} limit reached for plan=${plan}. Upgrade or try again tomorrow.`,
+  };
+}
@@ -0,0 +1,186 @@
+// Opening repertoires: tree editing on top of the flat repertoireNodes rows,
+// PGN import, and SM-2 scheduling of the moves the player has to remember.
+
+import { Chess } from "chess.js";
+import type { InsertRepertoireNode, Repertoire, RepertoireNode } from "@shared/schema";
+import type { DrillItem } from "@shared/types";
+import type { IStorage } from "../storage";
+import { lookupOpening } from "./eco";
+import { parsePgn, PgnParseError, STANDARD_START_FEN, type PgnMove } from "@shared/pgn";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+// Cap on never-reviewed moves per drill queue, so a fresh import isn't one endless session
+const MAX_NEW_PER_DRILL = 20;
+
+/**
+ * Add `move` (SAN or UCI) after `parent` (null = from the starting position).
+ * Returns the existing child when the move is already in the tree.
+ */
+export async function addRepertoireMove(
+  store: IStorage,
+  repertoire: Repertoire,
+  parent: RepertoireNode | null,
+  move: string,
+  comment?: string | null,
+  siblings?: RepertoireNode[]
+): Promise<{ node: RepertoireNode; created: boolean }> {
+  const chess = new Chess(parent ? parent.fen : STANDARD_START_FEN);
+  const uciMatch = move.match(/^([a-h][1-8])([a-h][1-8])([qrbn])?$/);
+  // chess.js throws on illegal moves; callers turn that into a 400
+  const played = uciMatch
+    ? chess.move({ from: uciMatch[1], to: uciMatch[2], promotion: uciMatch[3] })
+    : chess.move(move);
+  const uci = played.from + played.to + (played.promotion || "");
+
+  const children = (siblings || (await store.getRepertoireNodes(repertoire.id))).filter(
+    (n) => n.parentId === (parent ? parent.id : null)
+  );
+  const existing = children.find((n) => n.uci === uci);
+  if (existing) {
+    return { node: existing, created: false };
+  }
+
+  const opening = lookupOpening(chess.fen());
+  const insert: InsertRepertoireNode = {
+    repertoireId: repertoire.id,
+    parentId: parent ? parent.id : null,
+    fen: chess.fen(),
+    move: played.san,
+    uci,
+    color: played.color === "w" ? "white" : "black",
+    comment: comment || null,
+    eco: opening?.eco ?? parent?.eco ?? null,
+    openingName: opening?.name ?? parent?.openingName ?? null,
+  };
+  return { node: await store.createRepertoireNode(insert), created: true };
+}
+
+/**
+ * Ids of `rootId` and all of its descendants.
+ */
+export function collectSubtree(nodes: RepertoireNode[], rootId: number): number[] {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    nodes.forEach((n) => {
+      if (n.parentId === ids[i]) ids.push(n.id);
+    });
+  }
+  return ids;
+}
+
+/**
+ * Merge every game in `pgn` into the repertoire, variations included.
+ * PGN comments are kept on newly created moves. The whole PGN is checked
+ * before anything is written, so a bad game throws PgnParseError without
+ * leaving a partial import behind.
+ */
+export async function importPgnIntoRepertoire(
+  store: IStorage,
+  repertoire: Repertoire,
+  pgn: string
+): Promise<{ games: number; added: number }> {
+  // parsePgn already rejects illegal moves, variations included
+  const games = parsePgn(pgn);
+  games.forEach((game, i) => {
+    if (game.startFen !== STANDARD_START_FEN) {
+      throw new PgnParseError(`Game ${i + 1} starts from a custom position (FEN tag)`, game.line);
+    }
+  });
+
+  const nodes = await store.getRepertoireNodes(repertoire.id);
+  let added = 0;
+
+  const addLine = async (moves: PgnMove[], from: RepertoireNode | null): Promise<void> => {
+    let parent = from;
+    for (const move of moves) {
+      const result: { node: RepertoireNode; created: boolean } = await addRepertoireMove(
+        store,
+        repertoire,
+        parent,
+        move.san,
+        null,
+        nodes
+      );
+      let node = result.node;
+      if (result.created) {
+        const comment = [move.startingComment, move.comment].filter(Boolean).join(" ");
+        if (comment) node = (await store.updateRepertoireNode(node.id, { comment })) || node;
+        nodes.push(node);
+        added++;
+      }
+      // Alternatives branch from the position before the move, after it so the main line stays first
+      for (const variation of move.variations) {
+        await addLine(variation, parent);
+      }
+      parent = node;
+    }
+  };
+
+  for (const game of games) {
+    await addLine(game.moves, null);
+  }
+
+  return { games: games.length, added };
+}
+
+/**
+ * SM-2: update a move's review state from a recall grade (0-5, >= 3 is a pass).
+ */
+export function scheduleReview(
+  node: Pick<RepertoireNode, "repetitions" | "interval" | "easeFactor">,
+  quality: number,
+  now: Date = new Date()
+): Pick<RepertoireNode, "repetitions" | "interval" | "easeFactor" | "dueAt"> {
+  let { repetitions, interval, easeFactor } = node;
+
+  if (quality >= 3) {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * easeFactor);
+    repetitions++;
+  } else {
+    repetitions = 0;
+    interval = 1;
+  }
+
+  easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    repetitions,
+    interval,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+  };
+}
+
+/**
+ * Moves of the repertoire's color that are due: overdue first (oldest due
+ * date first), then never-reviewed moves in tree order.
+ */
+export function buildDrillQueue(repertoire: Repertoire, nodes: RepertoireNode[], now: Date = new Date()): DrillItem[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const pathTo = (node: RepertoireNode): number[] => {
+    const path: number[] = [];
+    let current: RepertoireNode | undefined = node;
+    while (current) {
+      path.unshift(current.id);
+      current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+  };
+
+  const own = nodes.filter((n) => n.color === repertoire.color);
+  const due = own
+    .filter((n) => n.dueAt && n.dueAt.getTime() <= now.getTime())
+    .sort((a, b) => a.dueAt!.getTime() - b.dueAt!.getTime());
+  const fresh = own.filter((n) => !n.dueAt).slice(0, MAX_NEW_PER_DRILL);
+
+  return due.concat(fresh).map((n) => ({
+    nodeId: n.id,
+    path: pathTo(n),
+    dueAt: n.dueAt ? n.dueAt.toISOString() : null,
+  }));
+}
@@ -1,84 +1,175 @@
-// Stockfish chess engine integration for position evaluation
+// Stockfish chess engine integration for position evaluation.
+// Requests go through a small pool of engine processes with a priority queue,
+// so concurrent analyses never share one process's stdout.
 import { spawn, ChildProcess } from "child_process";
-import path from "path";
-import { fileURLToPath } from "url";
-import fs from "fs";
+import { Chess } from "chess.js";
+import { PLAN_CONFIGS, type PlanMode } from "@shared/types";
+import { getCachedEvaluation, cacheEvaluation } from "./eval-cache";
+import { engineCacheId, resolveEngineCommand, type EngineCommand } from "./engine-config";
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export interface EngineLine {
+  rank: number; // 1-based MultiPV index
+  score?: number; // Centipawn score (side to move)
+  mate?: number; // Mate in N moves
+  depth: number;
+  pv: string[]; // Principal variation in UCI
+  san: string[]; // Same variation in SAN (may be shorter if a move fails to replay)
+}
 
-interface EngineEvaluation {
+export interface EngineEvaluation {
   score?: number; // Centipawn score (positive = white advantage)
   mate?: number; // Mate in N moves
   bestMove?: string; // Best move in UCI format
   depth: number; // Search depth
+  lines: EngineLine[]; // Ranked lines, best first (one unless MultiPV > 1)
+}
+
+export const MAX_MULTIPV = 5;
+
+const EVALUATION_TIMEOUT_MS = 10000;
+
+// Open-ended (live) searches stop on their own after this long, so an open tab
+// can't hold a pool engine indefinitely
+const MAX_OPEN_SEARCH_MS = Math.max(1, parseInt(process.env.STREAM_MAX_SECONDS || "60", 10) || 60) * 1000;
+
+// Queue priority by plan; batch jobs pass a negative priority to yield to interactive use
+const PLAN_PRIORITY: Record<PlanMode, number> = { free: 0, pro: 1, elite: 2 };
+
+export interface EvaluationOptions {
+  plan?: PlanMode; // Sets default priority and per-client concurrency (PLAN_CONFIGS.maxConcurrentAnalysis)
+  priority?: number; // Higher runs first; overrides the plan priority
+  clientId?: string; // Per-client concurrency is only enforced when set
+  signal?: AbortSignal; // Abort to drop a queued request or `stop` a running search
+  onInfo?: (line: EngineLine) => void; // Called for every scored `info` line as the search deepens
+}
+
+export class InvalidFenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidFenError";
+  }
+}
+
+/**
+ * Throw InvalidFenError unless `fen` is a legal position. The FEN is written
+ * straight into the UCI stream of a shared engine, so a line break in it would
+ * smuggle in commands of its own.
+ */
+export function assertValidFen(fen: string): void {
+  if (/[\x00-\x1f\x7f]/.test(fen)) {
+    throw new InvalidFenError("Invalid FEN: contains control characters");
+  }
+  try {
+    new Chess(fen);
+  } catch (error: any) {
+    throw new InvalidFenError(error.message || "Invalid FEN");
+  }
+}
+
+/**
+ * Replay a UCI principal variation from `fen` and return it in SAN.
+ */
+export function pvToSan(fen: string, pv: string[]): string[] {
+  const san: string[] = [];
+  try {
+    const chess = new Chess(fen);
+    for (const uci of pv) {
+      const move = chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+      san.push(move.san);
+    }
+  } catch {
+    // Stop at the first move that doesn't replay (illegal/garbled PV)
+  }
+  return san;
 }
 
 class StockfishEngine {
   private engine: ChildProcess | null = null;
   private ready: boolean = false;
   private readyPromise: Promise<void> | null = null;
+  private multiPv: number = 1;
+  private buffer: string = "";
+  private lineHandler: ((line: string) => void) | null = null;
+  private failCurrent: ((error: Error) => void) | null = null;
+
+  alive: boolean = true;
+  busy: boolean = false;
+  wasReady: boolean = false; // Reached `readyok` at least once
+  onExit: (() => void) | null = null;
 
-  constructor() {
+  constructor(readonly command: EngineCommand) {
     try {
-      // Find the stockfish engine file
-      const srcDir = path.join(__dirname, "../../node_modules/stockfish/src");
-      
-      if (!fs.existsSync(srcDir)) {
-        throw new Error("Stockfish src directory not found");
-      }
+      // Spawn the configured UCI engine (bundled JS build runs under node)
+      this.engine = spawn(command.command, command.args, {
+        stdio: ["pipe", "pipe", "pipe"],
+      });
 
-      const engineFile = fs
-        .readdirSync(srcDir)
-        .find(
-          (f) =>
-            f.startsWith("stockfish") &&
-            f.includes("single") &&
-            !f.includes("lite") &&
-            f.endsWith(".js")
-        );
-
-      if (!engineFile) {
-        throw new Error("Stockfish engine file not found");
-      }
+      // Single stdout reader; output can split lines across chunks, so buffer them
+      this.engine.stdout!.on("data", (data: Buffer) => {
+        this.buffer += data.toString();
+        const lines = this.buffer.split("\n");
+        this.buffer = lines.pop() || "";
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (trimmed && this.lineHandler) this.lineHandler(trimmed);
+        }
+      });
 
-      const enginePath = path.join(srcDir, engineFile);
-      
-      // Spawn node process to run stockfish
-      this.engine = spawn("node", [enginePath], {
-        stdio: ["pipe", "pipe", "pipe"],
+      this.engine.stderr!.on("data", (data: Buffer) => {
+        console.error(`${command.name} stderr:`, data.toString());
+      });
+
+      this.engine.on("exit", (code, signal) => {
+        this.alive = false;
+        this.ready = false;
+        this.engine = null;
+        if (this.failCurrent) {
+          this.failCurrent(new Error(`${command.name} process exited (code ${code}, signal ${signal})`));
+        }
+        this.onExit?.();
       });
 
       this.readyPromise = new Promise((resolve, reject) => {
         const timeout = setTimeout(() => {
-          reject(new Error("Stockfish initialization timeout"));
+          this.lineHandler = null;
+          reject(new Error(`${command.name} initialization timeout`));
+          this.terminate();
         }, 5000);
 
-        this.engine!.stdout!.on("data", (data: Buffer) => {
-          const lines = data.toString().split("\n");
-          for (const line of lines) {
-            if (line.trim() === "uciok") {
-              clearTimeout(timeout);
-              this.ready = true;
-              resolve();
-              break;
-            }
+        // Configured options go in between `uciok` and `readyok`
+        this.lineHandler = (line) => {
+          if (line === "uciok") {
+            Object.keys(command.options).forEach((name) => {
+              this.engine?.stdin?.write(`setoption name ${name} value ${command.options[name]}\n`);
+            });
+            this.engine?.stdin?.write("isready\n");
+          } else if (line === "readyok") {
+            clearTimeout(timeout);
+            this.lineHandler = null;
+            this.ready = true;
+            this.wasReady = true;
+            resolve();
           }
-        });
+        };
 
-        this.engine!.stderr!.on("data", (data: Buffer) => {
-          console.error("Stockfish stderr:", data.toString());
+        // Exiting before `readyok` (bad binary, wrong args) fails fast instead of waiting out the timeout
+        this.engine!.once("exit", (code) => {
+          clearTimeout(timeout);
+          if (!this.ready) reject(new Error(`${command.name} exited during startup (code ${code})`));
         });
 
         this.engine!.on("error", (error) => {
           clearTimeout(timeout);
+          this.alive = false;
           reject(error);
+          this.onExit?.();
         });
       });
 
       // Initialize UCI
       this.engine.stdin!.write("uci\n");
     } catch (error) {
-      console.error("Failed to initialize Stockfish:", error);
+      console.error(`Failed to initialize ${command.name}:`, error);
       throw error;
     }
   }
@@ -89,94 +180,145 @@ class StockfishEngine {
     }
   }
 
-  async evaluatePosition(fen: string, depth: number = 12): Promise<EngineEvaluation> {
+  /**
+   * Ask the engine to finish the current search now; it still answers with `bestmove`.
+   */
+  stop() {
+    this.engine?.stdin?.write("stop\n");
+  }
+
+  /**
+   * Search `fen` to `depth`; a non-finite depth searches for MAX_OPEN_SEARCH_MS
+   * (`go movetime`) unless `signal` aborts it first.
+   */
+  async evaluatePosition(
+    fen: string,
+    depth: number = 12,
+    multiPv: number = 1,
+    signal?: AbortSignal,
+    onInfo?: (line: EngineLine) => void
+  ): Promise<EngineEvaluation> {
     await this.waitUntilReady();
 
     if (!this.engine || !this.engine.stdin) {
       throw new Error("Engine not ready");
     }
 
+    // Aborted while the engine was starting up
+    if (signal?.aborted) {
+      throw new Error("Analysis cancelled");
+    }
+
+    multiPv = Math.max(1, Math.min(MAX_MULTIPV, Math.floor(multiPv)));
+
     return new Promise((resolve, reject) => {
       let bestMove: string | undefined;
-      let score: number | undefined;
-      let mate: number | undefined;
-      let currentDepth = 0;
+      let cancelled = false;
+      const pvLines = new Map<number, { score?: number; mate?: number; depth: number; pv: string[] }>();
 
+      const openEnded = !Number.isFinite(depth);
       const timeout = setTimeout(() => {
         cleanup();
         reject(new Error("Evaluation timeout"));
-      }, 10000);
+        // The engine may still be searching; kill it so the pool spawns a clean one
+        this.terminate();
+      }, openEnded ? MAX_OPEN_SEARCH_MS + EVALUATION_TIMEOUT_MS : EVALUATION_TIMEOUT_MS);
+
+      const onAbort = () => {
+        cancelled = true;
+        this.stop();
+      };
 
       const cleanup = () => {
         clearTimeout(timeout);
-        if (this.engine && this.engine.stdout) {
-          this.engine.stdout.removeListener("data", dataHandler);
-        }
+        this.lineHandler = null;
+        this.failCurrent = null;
+        signal?.removeEventListener("abort", onAbort);
       };
 
-      const dataHandler = (data: Buffer) => {
-        const lines = data.toString().split("\n");
-        
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (!trimmed) continue;
-
-          // Parse UCI info messages
-          if (trimmed.startsWith("info") && trimmed.includes("depth")) {
-            const depthMatch = trimmed.match(/depth (\d+)/);
-            if (depthMatch) {
-              currentDepth = parseInt(depthMatch[1]);
-            }
-
-            // Parse centipawn score
-            const cpMatch = trimmed.match(/score cp (-?\d+)/);
-            if (cpMatch) {
-              score = parseInt(cpMatch[1]);
-              mate = undefined;
-            }
-
-            // Parse mate score
-            const mateMatch = trimmed.match(/score mate (-?\d+)/);
-            if (mateMatch) {
-              mate = parseInt(mateMatch[1]);
-              score = undefined;
-            }
-
-            // Parse best move from principal variation
-            const pvMatch = trimmed.match(/pv ([a-h][1-8][a-h][1-8][qrbn]?)/);
-            if (pvMatch) {
-              bestMove = pvMatch[1];
-            }
+      this.failCurrent = (error) => {
+        cleanup();
+        reject(error);
+      };
+
+      this.lineHandler = (trimmed) => {
+        // Parse UCI info messages; only lines carrying a score and PV describe a line
+        if (trimmed.startsWith("info") && trimmed.includes(" depth ") && trimmed.includes(" pv ")) {
+          const depthMatch = trimmed.match(/ depth (\d+)/);
+          const multipvMatch = trimmed.match(/ multipv (\d+)/);
+          const cpMatch = trimmed.match(/score cp (-?\d+)/);
+          const mateMatch = trimmed.match(/score mate (-?\d+)/);
+          if (!cpMatch && !mateMatch) return;
+
+          const rank = multipvMatch ? parseInt(multipvMatch[1]) : 1;
+          const pv = trimmed
+            .slice(trimmed.indexOf(" pv ") + 4)
+            .split(/\s+/)
+            .filter((m) => /^[a-h][1-8][a-h][1-8][qrbn]?$/.test(m));
+
+          const line = {
+            score: cpMatch ? parseInt(cpMatch[1]) : undefined,
+            mate: mateMatch ? parseInt(mateMatch[1]) : undefined,
+            depth: depthMatch ? parseInt(depthMatch[1]) : 0,
+            pv,
+          };
+          pvLines.set(rank, line);
+          if (onInfo && rank <= multiPv) {
+            onInfo({ rank, ...line, san: pvToSan(fen, pv) });
           }
+        }
 
-          // When search is done
-          if (trimmed.startsWith("bestmove")) {
-            const moveMatch = trimmed.match(/bestmove ([a-h][1-8][a-h][1-8][qrbn]?)/);
-            if (moveMatch && !bestMove) {
-              bestMove = moveMatch[1];
-            }
-
-            cleanup();
-            resolve({
-              score,
-              mate,
-              bestMove,
-              depth: currentDepth,
-            });
+        // When search is done
+        if (trimmed.startsWith("bestmove")) {
+          cleanup();
+          if (cancelled) {
+            reject(new Error("Analysis cancelled"));
             return;
           }
+
+          const ranked: EngineLine[] = Array.from(pvLines.keys())
+            .filter((rank) => rank <= multiPv)
+            .sort((a, b) => a - b)
+            .map((rank) => {
+              const line = pvLines.get(rank)!;
+              return { rank, ...line, san: pvToSan(fen, line.pv) };
+            });
+
+          const top = ranked[0];
+          bestMove = top?.pv[0];
+          const moveMatch = trimmed.match(/bestmove ([a-h][1-8][a-h][1-8][qrbn]?)/);
+          if (moveMatch && !bestMove) {
+            bestMove = moveMatch[1];
+          }
+
+          resolve({
+            score: top?.score,
+            mate: top?.mate,
+            bestMove,
+            depth: top?.depth ?? 0,
+            lines: ranked,
+          });
         }
       };
 
-      this.engine!.stdout!.on("data", dataHandler);
+      signal?.addEventListener("abort", onAbort);
+
+      // MultiPV is sticky in the engine, so only send it when it changes
+      if (multiPv !== this.multiPv) {
+        this.engine!.stdin!.write(`setoption name MultiPV value ${multiPv}\n`);
+        this.multiPv = multiPv;
+      }
 
       // Set position and start analysis
       this.engine!.stdin!.write(`position fen ${fen}\n`);
-      this.engine!.stdin!.write(`go depth ${depth}\n`);
+      this.engine!.stdin!.write(openEnded ? `go movetime ${MAX_OPEN_SEARCH_MS}\n` : `go depth ${depth}\n`);
     });
   }
 
   terminate() {
+    // Dead from now on, not from the (async) `exit` event, so the pool never hands it another request
+    this.alive = false;
+    this.ready = false;
     if (this.engine) {
       try {
         this.engine.stdin!.write("quit\n");
@@ -189,20 +331,249 @@ class StockfishEngine {
   }
 }
 
-// Create a singleton instance
-let engineInstance: StockfishEngine | null = null;
+interface QueuedRequest {
+  seq: number;
+  fen: string;
+  depth: number;
+  multiPv: number;
+  priority: number;
+  clientId?: string;
+  maxConcurrent: number;
+  signal?: AbortSignal;
+  onInfo?: (line: EngineLine) => void;
+  onAbort?: () => void;
+  resolve: (evaluation: EngineEvaluation) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Fixed-size pool of engine processes. Processes are spawned lazily, replaced
+ * when they crash, and handed the highest-priority queued request (FIFO within
+ * a priority) whose client is under its plan's concurrency limit.
+ */
+class EnginePool {
+  private engines: StockfishEngine[] = [];
+  private queue: QueuedRequest[] = [];
+  private runningByClient = new Map<string, number>();
+  private seq = 0;
+  private externalFailed = false; // Configured binary couldn't start; use the bundled build
+  private command: EngineCommand | null = null;
 
-export async function getStockfishEvaluation(fen: string, depth: number = 15): Promise<EngineEvaluation> {
-  if (!engineInstance) {
-    engineInstance = new StockfishEngine();
+  constructor(private size: number) {}
+
+  /**
+   * Command new processes are spawned with, resolved once (and again after the external engine fails).
+   */
+  private currentCommand(): EngineCommand {
+    if (!this.command || (this.externalFailed && this.command.external)) {
+      this.command = resolveEngineCommand(this.externalFailed);
+    }
+    return this.command;
+  }
+
+  engineId(): string {
+    return engineCacheId(this.currentCommand());
+  }
+
+  evaluate(fen: string, depth: number, multiPv: number, options: EvaluationOptions): Promise<EngineEvaluation> {
+    const plan = options.plan || "free";
+
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error("Analysis cancelled"));
+        return;
+      }
+
+      const request: QueuedRequest = {
+        seq: this.seq++,
+        fen,
+        depth,
+        multiPv,
+        priority: options.priority ?? PLAN_PRIORITY[plan],
+        clientId: options.clientId,
+        maxConcurrent: Math.max(1, PLAN_CONFIGS[plan].maxConcurrentAnalysis),
+        signal: options.signal,
+        onInfo: options.onInfo,
+        resolve,
+        reject,
+      };
+
+      if (request.signal) {
+        request.onAbort = () => {
+          const index = this.queue.indexOf(request);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(new Error("Analysis cancelled"));
+          }
+        };
+        request.signal.addEventListener("abort", request.onAbort);
+      }
+
+      this.queue.push(request);
+      this.dispatch();
+    });
+  }
+
+  stats() {
+    return {
+      size: this.size,
+      engines: this.engines.length,
+      busy: this.engines.filter((e) => e.busy).length,
+      queued: this.queue.length,
+    };
+  }
+
+  terminate() {
+    this.queue.forEach((request) => request.reject(new Error("Engine pool terminated")));
+    this.queue = [];
+    this.engines.forEach((engine) => {
+      engine.onExit = null;
+      engine.terminate();
+    });
+    this.engines = [];
+  }
+
+  private dispatch() {
+    // Terminated engines may not have exited yet; their slots go to fresh processes
+    this.engines = this.engines.filter((e) => e.alive);
+
+    while (this.queue.length > 0) {
+      const index = this.nextRequestIndex();
+      if (index === -1) return;
+
+      let engine = this.engines.find((e) => !e.busy);
+      if (!engine) {
+        if (this.engines.length >= this.size) return;
+        try {
+          engine = this.spawn();
+        } catch (error: any) {
+          // Engine can't start at all; fail the request instead of spinning
+          const [request] = this.queue.splice(index, 1);
+          request.reject(error);
+          continue;
+        }
+      }
+
+      const [request] = this.queue.splice(index, 1);
+      this.run(engine, request);
+    }
   }
-  
-  return await engineInstance.evaluatePosition(fen, depth);
+
+  private nextRequestIndex(): number {
+    let best = -1;
+    this.queue.forEach((request, index) => {
+      if (request.clientId && (this.runningByClient.get(request.clientId) || 0) >= request.maxConcurrent) {
+        return;
+      }
+      const current = best === -1 ? null : this.queue[best];
+      if (!current || request.priority > current.priority || (request.priority === current.priority && request.seq < current.seq)) {
+        best = index;
+      }
+    });
+    return best;
+  }
+
+  private spawn(): StockfishEngine {
+    const engine = new StockfishEngine(this.currentCommand());
+    engine.onExit = () => {
+      this.engines = this.engines.filter((e) => e !== engine);
+      if (this.queue.length > 0) {
+        console.warn("[engine-pool] engine process exited, respawning for queued requests");
+      }
+      this.dispatch();
+    };
+    this.engines.push(engine);
+    return engine;
+  }
+
+  private run(engine: StockfishEngine, request: QueuedRequest) {
+    if (request.signal && request.onAbort) {
+      request.signal.removeEventListener("abort", request.onAbort);
+    }
+
+    engine.busy = true;
+    if (request.clientId) {
+      this.runningByClient.set(request.clientId, (this.runningByClient.get(request.clientId) || 0) + 1);
+    }
+
+    engine
+      .evaluatePosition(request.fen, request.depth, request.multiPv, request.signal, request.onInfo)
+      .then(request.resolve, (error: Error) => {
+        if (engine.command.external && !engine.wasReady && !this.externalFailed) {
+          // Never got going: switch to the bundled engine and retry this request
+          console.warn(`[engine-pool] ${engine.command.name} failed to start (${error.message}), falling back to bundled Stockfish`);
+          this.externalFailed = true;
+          engine.terminate();
+          this.queue.unshift(request);
+          return;
+        }
+        request.reject(error);
+      })
+      .finally(() => {
+        engine.busy = false;
+        if (request.clientId) {
+          const running = (this.runningByClient.get(request.clientId) || 1) - 1;
+          if (running > 0) this.runningByClient.set(request.clientId, running);
+          else this.runningByClient.delete(request.clientId);
+        }
+        this.dispatch();
+      });
+  }
+}
+
+let pool: EnginePool | null = null;
+
+function getPool(): EnginePool {
+  if (!pool) {
+    pool = new EnginePool(Math.max(1, parseInt(process.env.STOCKFISH_POOL_SIZE || "2", 10) || 2));
+  }
+  return pool;
+}
+
+export async function getStockfishEvaluation(
+  fen: string,
+  depth: number = 15,
+  multiPv: number = 1,
+  options: EvaluationOptions = {}
+): Promise<EngineEvaluation> {
+  assertValidFen(fen);
+  multiPv = Math.max(1, Math.min(MAX_MULTIPV, Math.floor(multiPv)));
+
+  const cached = await getCachedEvaluation(fen, getPool().engineId(), depth, multiPv);
+  if (cached) {
+    return cached;
+  }
+
+  const evaluation = await getPool().evaluate(fen, depth, multiPv, options);
+  // Read again: the pool may have fallen back to the bundled engine for this request
+  await cacheEvaluation(fen, getPool().engineId(), depth, multiPv, evaluation);
+  return evaluation;
+}
+
+/**
+ * Live analysis: `options.onInfo` receives each line as the search deepens.
+ * Without `depth` the search runs until `options.signal` aborts or
+ * STREAM_MAX_SECONDS pass. Bypasses the evaluation cache, since the point is
+ * the progression.
+ */
+export async function streamStockfishAnalysis(
+  fen: string,
+  depth: number | undefined,
+  multiPv: number,
+  options: EvaluationOptions
+): Promise<EngineEvaluation> {
+  assertValidFen(fen);
+  multiPv = Math.max(1, Math.min(MAX_MULTIPV, Math.floor(multiPv)));
+  return await getPool().evaluate(fen, depth ?? Infinity, multiPv, options);
+}
+
+export function getEnginePoolStats() {
+  return getPool().stats();
 }
 
 export function terminateEngine() {
-  if (engineInstance) {
-    engineInstance.terminate();
-    engineInstance = null;
+  if (pool) {
+    pool.terminate();
+    pool = null;
   }
 }
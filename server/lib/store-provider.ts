@@ -19,7 +19,7 @@ export async function getStore(): Promise<{ store: IStorage; provider: 'db' | 'l
     // Dynamic import so missing DATABASE_URL doesn't crash the entire app at import time.
     const { storage: dbStorage } = await import('../storage');
     await Promise.race([
-      dbStorage.getSettings(),
+      dbStorage.getUser(0),
       new Promise((_, reject) =>
         setTimeout(() => reject(new Error('DB timeout')), 2000)
       )
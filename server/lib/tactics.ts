@@ -0,0 +1,389 @@
+// Deterministic tactical motif detector. Given a position and a line (SAN or
+// UCI), it reports forks, pins, skewers, discovered attacks, hanging pieces,
+// promotions and how mates are delivered, plus static facts about the
+// position (undefended pieces, back-rank weaknesses). Used to tag puzzles
+// with a theme and to give the coach verified facts, or the whole comment
+// when no LLM is available. Geometry only: no search, so it stays cheap
+// enough to run on every imported row.
+
+import { Chess, type Color, type Move, type PieceSymbol, type Square } from "chess.js";
+import { MOTIF_THEMES, mateTheme, parseSolution, playSolutionMove, solverMoveCount, type TacticalMotif } from "@shared/puzzle";
+
+export interface TacticalFact {
+  motif: TacticalMotif;
+  color: Color; // Side that profits
+  move?: string; // SAN of the move that creates it
+  piece: PieceSymbol; // Acting piece (the weak king for a back-rank weakness)
+  square: Square;
+  targets: { piece: PieceSymbol; square: Square }[];
+}
+
+const VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 100 };
+
+const FILES = "abcdefgh";
+const KNIGHT_STEPS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const KING_STEPS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+const ORTHOGONAL = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+const DIAGONAL = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+// Checked in this order when a line shows several motifs
+const THEME_PRIORITY: TacticalMotif[] = ["fork", "skewer", "pin", "discoveredAttack", "promotion", "hangingPiece"];
+
+function opponent(color: Color): Color {
+  return color === "w" ? "b" : "w";
+}
+
+function toSquare(file: number, rank: number): Square | null {
+  if (file < 0 || file > 7 || rank < 0 || rank > 7) return null;
+  return `${FILES[file]}${rank + 1}` as Square;
+}
+
+function coords(square: Square): [number, number] {
+  return [FILES.indexOf(square[0]), parseInt(square[1], 10) - 1];
+}
+
+function rays(piece: PieceSymbol): number[][] {
+  if (piece === "r") return ORTHOGONAL;
+  if (piece === "b") return DIAGONAL;
+  if (piece === "q") return [...ORTHOGONAL, ...DIAGONAL];
+  return [];
+}
+
+function steps(square: Square, deltas: number[][]): Square[] {
+  const [file, rank] = coords(square);
+  return deltas.map(([df, dr]) => toSquare(file + df, rank + dr)).filter((sq): sq is Square => sq !== null);
+}
+
+/**
+ * Squares attacked by the piece on `square` (pins ignored).
+ */
+function attackedSquares(chess: Chess, square: Square): Square[] {
+  const piece = chess.get(square);
+  if (!piece) return [];
+  if (piece.type === "n") return steps(square, KNIGHT_STEPS);
+  if (piece.type === "k") return steps(square, KING_STEPS);
+  if (piece.type === "p") return steps(square, [[1, piece.color === "w" ? 1 : -1], [-1, piece.color === "w" ? 1 : -1]]);
+
+  const [file, rank] = coords(square);
+  const attacked: Square[] = [];
+  for (const [df, dr] of rays(piece.type)) {
+    for (let i = 1; ; i++) {
+      const next = toSquare(file + df * i, rank + dr * i);
+      if (!next) break;
+      attacked.push(next);
+      if (chess.get(next)) break;
+    }
+  }
+  return attacked;
+}
+
+/**
+ * The first two pieces met from `square` along one direction.
+ */
+function piecesAlong(chess: Chess, square: Square, [df, dr]: number[]): { square: Square; piece: PieceSymbol; color: Color }[] {
+  const [file, rank] = coords(square);
+  const found: { square: Square; piece: PieceSymbol; color: Color }[] = [];
+  for (let i = 1; found.length < 2; i++) {
+    const next = toSquare(file + df * i, rank + dr * i);
+    if (!next) break;
+    const piece = chess.get(next);
+    if (piece) found.push({ square: next, piece: piece.type, color: piece.color });
+  }
+  return found;
+}
+
+function isDefended(chess: Chess, square: Square, color: Color): boolean {
+  return chess.attackers(square, color).length > 0;
+}
+
+/**
+ * Whether the `color` piece on `square` can be taken for profit: attacked and
+ * either undefended or attacked by something cheaper.
+ */
+function isLoose(chess: Chess, square: Square, color: Color): boolean {
+  const piece = chess.get(square);
+  const attackers = chess.attackers(square, opponent(color));
+  if (!piece || attackers.length === 0) return false;
+  if (!isDefended(chess, square, color)) return true;
+  return Math.min(...attackers.map((sq) => VALUES[chess.get(sq)?.type || "k"])) < VALUES[piece.type];
+}
+
+function findKing(chess: Chess, color: Color): Square | null {
+  for (const row of chess.board()) {
+    for (const cell of row) {
+      if (cell && cell.type === "k" && cell.color === color) return cell.square;
+    }
+  }
+  return null;
+}
+
+function fork(chess: Chess, move: Move): TacticalFact | null {
+  const piece = move.promotion ?? move.piece;
+  const enemy = opponent(move.color);
+  const targets = attackedSquares(chess, move.to)
+    .map((square) => ({ square, found: chess.get(square) }))
+    .filter(({ found }) => found && found.color === enemy && found.type !== "p")
+    .map(({ square, found }) => ({ square, piece: found!.type }))
+    .filter((t) => t.piece === "k" || VALUES[t.piece] > VALUES[piece] || !isDefended(chess, t.square, enemy));
+  if (targets.length < 2 || isLoose(chess, move.to, move.color)) return null;
+  return { motif: "fork", color: move.color, move: move.san, piece, square: move.to, targets };
+}
+
+/**
+ * Pins and skewers by the moved piece: two enemy pieces on one of its lines,
+ * the more valuable one behind (pin) or in front (skewer).
+ */
+function lineAttacks(chess: Chess, move: Move): TacticalFact[] {
+  const piece = move.promotion ?? move.piece;
+  const enemy = opponent(move.color);
+  const facts: TacticalFact[] = [];
+  if (isLoose(chess, move.to, move.color)) return facts;
+
+  for (const direction of rays(piece)) {
+    const [front, back] = piecesAlong(chess, move.to, direction);
+    if (!front || !back || front.color !== enemy || back.color !== enemy) continue;
+    const targets = [{ piece: front.piece, square: front.square }, { piece: back.piece, square: back.square }];
+    if (VALUES[back.piece] > VALUES[front.piece]) {
+      facts.push({ motif: "pin", color: move.color, move: move.san, piece, square: move.to, targets });
+    } else if (VALUES[front.piece] > VALUES[back.piece] && back.piece !== "p") {
+      facts.push({ motif: "skewer", color: move.color, move: move.san, piece, square: move.to, targets });
+    }
+  }
+  return facts;
+}
+
+/**
+ * Attacks opened by the moved piece getting out of the way of a line piece.
+ */
+function discoveredAttacks(before: Chess, after: Chess, move: Move): TacticalFact[] {
+  const enemy = opponent(move.color);
+  const facts: TacticalFact[] = [];
+
+  for (const row of after.board()) {
+    for (const cell of row) {
+      if (!cell || cell.color !== move.color || cell.square === move.to || rays(cell.type).length === 0) continue;
+      const seenBefore = new Set(attackedSquares(before, cell.square));
+      const targets = attackedSquares(after, cell.square)
+        .filter((square) => !seenBefore.has(square))
+        .map((square) => ({ square, found: after.get(square) }))
+        .filter(({ found }) => found && found.color === enemy)
+        .filter(({ square, found }) =>
+          found!.type === "k" ||
+          (found!.type !== "p" && (VALUES[found!.type] > VALUES[cell.type] || !isDefended(after, square, enemy)))
+        )
+        .map(({ square, found }) => ({ square, piece: found!.type }));
+      if (targets.length > 0) {
+        facts.push({ motif: "discoveredAttack", color: move.color, move: move.san, piece: cell.type, square: cell.square, targets });
+      }
+    }
+  }
+  return facts;
+}
+
+/**
+ * How the side to move got mated: back rank, smothered, or plain mate.
+ */
+function matePattern(chess: Chess, move: Move): TacticalFact {
+  const mated = chess.turn();
+  const king = findKing(chess, mated)!;
+  const fact: TacticalFact = {
+    motif: "mate",
+    color: move.color,
+    move: move.san,
+    piece: move.promotion ?? move.piece,
+    square: move.to,
+    targets: [{ piece: "k", square: king }],
+  };
+  const ownPiece = (square: Square) => chess.get(square)?.color === mated;
+
+  if (move.piece === "n" && steps(king, KING_STEPS).every(ownPiece)) {
+    return { ...fact, motif: "smotheredMate" };
+  }
+  const backRank = mated === "w" ? 0 : 7;
+  const forward = mated === "w" ? 1 : -1;
+  const [, kingRank] = coords(king);
+  if (
+    kingRank === backRank &&
+    (fact.piece === "r" || fact.piece === "q") &&
+    coords(move.to)[1] === backRank &&
+    steps(king, [[-1, forward], [0, forward], [1, forward]]).every(ownPiece)
+  ) {
+    return { ...fact, motif: "backRankMate" };
+  }
+  return fact;
+}
+
+/**
+ * Motifs created by one move, judged on the position after it.
+ */
+function moveMotifs(before: Chess, after: Chess, move: Move): TacticalFact[] {
+  const facts: TacticalFact[] = [];
+  const forkFact = fork(after, move);
+  if (forkFact) facts.push(forkFact);
+  facts.push(...lineAttacks(after, move));
+  facts.push(...discoveredAttacks(before, after, move));
+  if (move.captured && move.captured !== "p" && !isDefended(before, move.to, opponent(move.color))) {
+    facts.push({
+      motif: "hangingPiece",
+      color: move.color,
+      move: move.san,
+      piece: move.piece,
+      square: move.to,
+      targets: [{ piece: move.captured, square: move.to }],
+    });
+  }
+  if (move.promotion) {
+    facts.push({
+      motif: "promotion",
+      color: move.color,
+      move: move.san,
+      piece: "p",
+      square: move.to,
+      targets: [{ piece: move.promotion, square: move.to }],
+    });
+  }
+  return facts;
+}
+
+/**
+ * Motifs in `line` (SAN or UCI) played from `fen`, for the side to move: what
+ * each of its moves creates (the opponent's replies in between are only
+ * played), and the mating pattern if the line ends in mate. Stops at the
+ * first illegal move.
+ */
+export function detectMotifs(fen: string, line: string[]): TacticalFact[] {
+  const chess = new Chess(fen);
+  const solver = chess.turn();
+  const facts: TacticalFact[] = [];
+
+  for (const notation of line) {
+    const before = new Chess(chess.fen());
+    const move = playSolutionMove(chess, notation);
+    if (!move) break;
+    if (chess.isCheckmate()) {
+      if (move.color === solver) facts.push(matePattern(chess, move));
+      break;
+    }
+    if (move.color === solver) facts.push(...moveMotifs(before, chess, move));
+  }
+  return facts;
+}
+
+/**
+ * Static facts about `fen` for both sides: pieces left undefended under
+ * attack, and kings stuck on the back rank with no escape square while the
+ * opponent still has a rook or queen.
+ */
+export function positionFacts(fen: string): TacticalFact[] {
+  const chess = new Chess(fen);
+  const facts: TacticalFact[] = [];
+
+  for (const row of chess.board()) {
+    for (const cell of row) {
+      if (!cell || cell.type === "k" || cell.type === "p") continue;
+      const attackers = chess.attackers(cell.square, opponent(cell.color));
+      if (attackers.length === 0 || isDefended(chess, cell.square, cell.color)) continue;
+      const attacker = attackers.reduce((a, b) => (VALUES[chess.get(a)!.type] <= VALUES[chess.get(b)!.type] ? a : b));
+      facts.push({
+        motif: "hangingPiece",
+        color: opponent(cell.color),
+        piece: chess.get(attacker)!.type,
+        square: attacker,
+        targets: [{ piece: cell.type, square: cell.square }],
+      });
+    }
+  }
+
+  for (const color of ["w", "b"] as Color[]) {
+    const king = findKing(chess, color);
+    if (!king) continue;
+    const forward = color === "w" ? 1 : -1;
+    const heavy = chess.board().flat().some((cell) => cell && cell.color !== color && (cell.type === "r" || cell.type === "q"));
+    const blocked = steps(king, [[-1, forward], [0, forward], [1, forward]])
+      .every((square) => chess.get(square)?.color === color || chess.attackers(square, opponent(color)).length > 0);
+    if (coords(king)[1] === (color === "w" ? 0 : 7) && heavy && blocked) {
+      facts.push({ motif: "backRankWeakness", color: opponent(color), piece: "k", square: king, targets: [] });
+    }
+  }
+  return facts;
+}
+
+/**
+ * Theme for a puzzle from its own line: the mating pattern when the line
+ * ends in mate, otherwise the strongest motif found. null when nothing is
+ * recognized (or the line doesn't replay).
+ */
+export function puzzleTheme(fen: string, solution: string): string | null {
+  let facts: TacticalFact[];
+  try {
+    facts = detectMotifs(fen, parseSolution(solution));
+  } catch {
+    return null;
+  }
+
+  const mate = facts.find((f) => f.motif === "mate" || f.motif === "backRankMate" || f.motif === "smotheredMate");
+  if (mate) return mate.motif === "mate" ? mateTheme(solverMoveCount(solution)) : MOTIF_THEMES[mate.motif as "backRankMate" | "smotheredMate"];
+  const motif = THEME_PRIORITY.find((m) => facts.some((f) => f.motif === m));
+  return motif ? MOTIF_THEMES[motif as keyof typeof MOTIF_THEMES] : null;
+}
+
+// With the article, since Spanish needs its gender ("la dama")
+const PIECE_NAMES: Record<string, Record<PieceSymbol, string>> = {
+  english: { p: "the pawn", n: "the knight", b: "the bishop", r: "the rook", q: "the queen", k: "the king" },
+  spanish: { p: "el peón", n: "el caballo", b: "el alfil", r: "la torre", q: "la dama", k: "el rey" },
+};
+
+const SIDE_NAMES: Record<string, Record<Color, string>> = {
+  english: { w: "White", b: "Black" },
+  spanish: { w: "las blancas", b: "las negras" },
+};
+
+/**
+ * One sentence per fact, in Spanish or English (other languages get English).
+ */
+export function describeFacts(facts: TacticalFact[], language = "english"): string[] {
+  const es = language === "spanish";
+  const names = PIECE_NAMES[es ? "spanish" : "english"];
+  const bare = (piece: PieceSymbol) => names[piece].split(" ")[1];
+  const at = (piece: PieceSymbol, square: Square) => `${names[piece]} ${es ? "de" : "on"} ${square}`;
+  const target = (t: { piece: PieceSymbol; square: Square }) => at(t.piece, t.square);
+  const list = (targets: TacticalFact["targets"]) => targets.map(target).join(es ? " y " : " and ");
+  const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+  return facts.map((f) => {
+    const actor = at(f.piece, f.square);
+    const by = f.move ? `${f.move}: ` : "";
+    switch (f.motif) {
+      case "fork":
+        return es ? `${by}${actor} ataca a la vez ${list(f.targets)}.` : `${by}${actor} forks ${list(f.targets)}.`;
+      case "pin":
+        return es ? `${by}${actor} clava ${target(f.targets[0])} contra ${target(f.targets[1])}.` : `${by}${actor} pins ${target(f.targets[0])} to ${target(f.targets[1])}.`;
+      case "skewer":
+        return es
+          ? `${by}${actor} ensarta ${target(f.targets[0])}; detrás cae ${target(f.targets[1])}.`
+          : `${by}${actor} skewers ${target(f.targets[0])}, winning ${target(f.targets[1])} behind it.`;
+      case "discoveredAttack":
+        if (f.targets.some((t) => t.piece === "k")) {
+          return es ? `${by}jaque descubierto de ${actor}.` : `${by}discovered check by ${actor}.`;
+        }
+        return es ? `${by}ataque descubierto de ${actor} sobre ${list(f.targets)}.` : `${by}discovered attack by ${actor} on ${list(f.targets)}.`;
+      case "hangingPiece":
+        if (f.move) {
+          return es ? `${by}gana ${target(f.targets[0])}, que no tenía defensa.` : `${by}wins ${target(f.targets[0])}, which was undefended.`;
+        }
+        return capitalize(es ? `${target(f.targets[0])} está bajo ataque y sin defensa.` : `${target(f.targets[0])} is attacked and undefended.`);
+      case "promotion":
+        return es ? `${by}el peón corona en ${bare(f.targets[0].piece)}.` : `${by}the pawn promotes to a ${bare(f.targets[0].piece)}.`;
+      case "backRankWeakness":
+        return es
+          ? `El rey de ${SIDE_NAMES.spanish[opponent(f.color)]} en ${f.square} no tiene casilla de escape: cuidado con la última fila.`
+          : `${SIDE_NAMES.english[opponent(f.color)]}'s king on ${f.square} has no escape square: watch the back rank.`;
+      case "backRankMate":
+        return es ? `${by}mate en la última fila.` : `${by}back-rank mate.`;
+      case "smotheredMate":
+        return es ? `${by}mate de la coz: el rey queda encerrado por sus propias piezas.` : `${by}smothered mate: the king is boxed in by its own pieces.`;
+      case "mate":
+        return es ? `${by}jaque mate.` : `${by}checkmate.`;
+    }
+  });
+}
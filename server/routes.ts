@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { getStore } from "./lib/store-provider"; // HOTFIX v6.1: DB fallback
@@ -6,35 +6,247 @@ import { fetchGameByUrl, fetchGamesByUsername, parsePgnMetadata } from "./lib/li
 import { fetchPgnByChessComUrl } from "./lib/chesscom";
 import { analyzeMove, answerQuestion } from "./lib/openai";
 import { generateSpeech, getTTSProvider } from "./lib/tts-provider"; // Cost Saver Pack v6.0
-import { getStockfishEvaluation } from "./lib/stockfish";
+import { assertValidFen, getStockfishEvaluation, streamStockfishAnalysis, InvalidFenError, MAX_MULTIPV } from "./lib/stockfish";
+import { startGameAnalysis, getAnalysisJob } from "./lib/game-analysis";
+import { buildGameReport } from "./lib/game-report";
+import { exportGamePgn } from "./lib/pgn-export";
+import { explorePosition } from "./lib/opening-explorer";
+import { importPgnLibrary } from "./lib/game-library";
+import { importChessComArchives, monthsBetween } from "./lib/chesscom-import";
+import { getLichessSyncState, startLichessSync } from "./lib/lichess-sync";
+import { authenticate, endSession, hashPassword, requireAdmin, requireAuth, startSession, toAuthUser, verifyPassword } from "./lib/auth";
+import { addRepertoireMove, collectSubtree, importPgnIntoRepertoire, scheduleReview, buildDrillQueue } from "./lib/repertoire";
+import { attachPlan, isPlanLevel, planAtLeast, planForDepth, planForModel, requirePlan, resolvePlanFromReq, subscriptionPlan, upgradeRequired } from "./lib/plan-middleware";
 import { randomUUID } from "crypto";
 import { z } from "zod";
 import { insertPuzzleSchema, insertPuzzleAttemptSchema } from "@shared/schema";
-import type { PlanMode, VoiceProvider } from "@shared/types"; // Cost Saver Pack v6.0
+import { PgnParseError } from "@shared/pgn";
+import { solutionToSan } from "@shared/puzzle";
+import { pickNextPuzzle, PUZZLE_RATING_STAT, ratePuzzleAttempt } from "./lib/puzzle-rating";
+import { importLichessPuzzles, lichessThemeName } from "./lib/puzzle-import";
+import { getPuzzleGenerationJob, startPuzzleGeneration } from "./lib/puzzle-generator";
+import { puzzleTheme } from "./lib/tactics";
+import { applyBillingEvent, BillingSignatureError, createCheckoutSession, isBillingConfigured, SIGNATURE_HEADER, verifyWebhook } from "./lib/billing";
+import { PLAN_CONFIGS, type PuzzleRatingSummary, type SubscriptionSummary } from "@shared/types"; // Cost Saver Pack v6.0
+import { consumeQuota, consumeTrialAnalysis, estimateTtsSeconds, getQuotaRules, getQuotaStatus, quotaExceeded, quotaSubject, recordUsage, refundTrialAnalysis } from "./lib/quota";
 import fs from "fs"; // HOTFIX v6.2.2: For loading sample puzzles
 import path from "path"; // HOTFIX v6.2.2: For file paths
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get all games
-  app.get("/api/games", async (req, res) => {
+  // Sets req.user for requests carrying a valid session cookie, and req.plan from their subscription
+  app.use("/api", authenticate, attachPlan);
+
+  // Plan needed for an explicitly requested engine depth (none when unset); routes
+  // gated by it still clamp their default depth to the caller's plan
+  const depthPlan = (depth: unknown) => {
+    const requested = Number(depth);
+    return depth !== undefined && Number.isFinite(requested) && requested > 0 ? planForDepth(requested) : null;
+  };
+
+  const credentialsSchema = z.object({
+    username: z.string().trim().regex(/^[A-Za-z0-9_-]{3,30}$/, "Username must be 3-30 letters, digits, _ or -"),
+    password: z.string().min(8, "Password must be at least 8 characters").max(200),
+  });
+
+  app.post("/api/auth/signup", async (req, res) => {
+    try {
+      const parsed = credentialsSchema.extend({ email: z.string().trim().email().optional() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid signup", details: parsed.error.errors });
+      }
+
+      const { store } = await getStore();
+      const { username, password, email } = parsed.data;
+      if (await store.getUserByUsername(username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+
+      // Admin rights are never granted here; see `npm run users:make-admin`
+      const user = await store.createUser({
+        username,
+        email: email ?? null,
+        passwordHash: await hashPassword(password),
+      });
+
+      await startSession(res, store, user.id);
+      res.status(201).json(toAuthUser(user));
+    } catch (error: any) {
+      console.error("Signup error:", error);
+      res.status(500).json({ error: error.message || "Failed to sign up" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const parsed = credentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid login", details: parsed.error.errors });
+      }
+
+      const { store } = await getStore();
+      const user = await store.getUserByUsername(parsed.data.username);
+      if (!user || !(await verifyPassword(parsed.data.password, user.passwordHash))) {
+        return res.status(401).json({ error: "Wrong username or password" });
+      }
+
+      await startSession(res, store, user.id);
+      res.json(toAuthUser(user));
+    } catch (error: any) {
+      console.error("Login error:", error);
+      res.status(500).json({ error: error.message || "Failed to log in" });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { store } = await getStore();
+      await endSession(req, res, store);
+      res.status(204).end();
+    } catch (error: any) {
+      console.error("Logout error:", error);
+      res.status(500).json({ error: error.message || "Failed to log out" });
+    }
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+
+  // Game library: filtered, newest first, paginated
+  app.get("/api/games", requireAuth, async (req, res) => {
     try {
-      const games = await storage.getAllGames();
-      res.json(games);
+      const pgnDate = z.string().trim().min(1).transform((d) => d.replace(/-/g, "."));
+      const filtersSchema = z.object({
+        q: z.string().trim().min(1).optional(),
+        player: z.string().trim().min(1).optional(),
+        event: z.string().trim().min(1).optional(),
+        result: z.enum(["1-0", "0-1", "1/2-1/2", "*"]).optional(),
+        eco: z.string().trim().regex(/^[A-E](\d{1,2})?$/i, "ECO must look like B or B90").optional(),
+        collection: z.string().trim().min(1).optional(),
+        tag: z.string().trim().min(1).optional(),
+        dateFrom: pgnDate.optional(),
+        dateTo: pgnDate.optional(),
+        limit: z.coerce.number().int().min(1).max(500).default(50),
+        offset: z.coerce.number().int().min(0).default(0),
+      });
+      const parsed = filtersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid game filters", details: parsed.error.errors });
+      }
+
+      const { store } = await getStore();
+      res.json(await store.searchGames(req.user!.id, parsed.data));
     } catch (error: any) {
       console.error("Failed to fetch games:", error);
       res.status(500).json({ error: error.message || "Failed to fetch games" });
     }
   });
 
+  // Bulk upload: the request body is the .pgn file itself (any number of games)
+  app.post(
+    "/api/games/upload",
+    requireAuth,
+    express.text({ type: ["application/x-chess-pgn", "application/vnd.chess-pgn", "text/plain"], limit: "25mb" }),
+    async (req, res) => {
+      try {
+        const optionsSchema = z.object({
+          collection: z.string().trim().min(1).max(255).optional(),
+          tags: z.string().optional().transform((t) => (t ? t.split(",").map((tag) => tag.trim()).filter(Boolean) : [])),
+        });
+        const options = optionsSchema.safeParse(req.query);
+        if (!options.success) {
+          return res.status(400).json({ error: "Invalid upload options", details: options.error.errors });
+        }
+        if (typeof req.body !== "string" || req.body.trim() === "") {
+          return res.status(400).json({ error: "Send the PGN file as the request body (Content-Type: application/x-chess-pgn)" });
+        }
+
+        const { store, provider } = await getStore();
+        const started = Date.now();
+        const result = await importPgnLibrary(req.body, store, req.user!.id, options.data);
+        console.log(
+          `[game-library] upload provider=${provider} imported=${result.imported} duplicates=${result.duplicates} failed=${result.failed.length} in ${Date.now() - started}ms`
+        );
+        res.status(result.imported > 0 ? 201 : 200).json(result);
+      } catch (error: any) {
+        if (error instanceof PgnParseError) {
+          return res.status(400).json({ error: "Invalid PGN", details: error.message });
+        }
+        console.error("Game upload error:", error);
+        res.status(500).json({ error: error.message || "Failed to upload games" });
+      }
+    }
+  );
+
+  // Edit library metadata (the PGN itself is not editable here)
+  app.patch("/api/games/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid game ID" });
+      }
+
+      const optional = (max: number) => z.string().trim().max(max).nullable().optional();
+      const updateSchema = z.object({
+        white: z.string().trim().min(1).max(255).optional(),
+        black: z.string().trim().min(1).max(255).optional(),
+        result: z.enum(["1-0", "0-1", "1/2-1/2", "*"]).nullable().optional(),
+        date: optional(50),
+        event: optional(255),
+        site: optional(255),
+        opening: optional(255),
+        eco: optional(10),
+        collection: optional(255),
+        tags: z.array(z.string().trim().min(1).max(50)).max(50).optional(),
+      }).strict();
+      const parsed = updateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid game update", details: parsed.error.errors });
+      }
+
+      const { store } = await getStore();
+      const updates = { ...parsed.data };
+      if (updates.tags) updates.tags = Array.from(new Set(updates.tags));
+      const game = await store.updateGame(id, req.user!.id, updates);
+      if (!game) {
+        return res.status(404).json({ error: "Game not found" });
+      }
+      res.json(game);
+    } catch (error: any) {
+      console.error("Failed to update game:", error);
+      res.status(500).json({ error: error.message || "Failed to update game" });
+    }
+  });
+
+  app.delete("/api/games/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid game ID" });
+      }
+
+      const { store } = await getStore();
+      const game = await store.getGame(id, req.user!.id);
+      if (!game) {
+        return res.status(404).json({ error: "Game not found" });
+      }
+      await store.deleteGame(id, req.user!.id);
+      res.status(204).end();
+    } catch (error: any) {
+      console.error("Failed to delete game:", error);
+      res.status(500).json({ error: error.message || "Failed to delete game" });
+    }
+  });
+
   // Get a single game by ID
-  app.get("/api/games/:id", async (req, res) => {
+  app.get("/api/games/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid game ID" });
       }
       
-      const game = await storage.getGame(id);
+      const game = await storage.getGame(id, req.user!.id);
       if (!game) {
         return res.status(404).json({ error: "Game not found" });
       }
@@ -47,7 +259,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Import game from Lichess
-  app.post("/api/games/import", async (req, res) => {
+  app.post("/api/games/import", requireAuth, async (req, res) => {
     try {
       const { type, value } = req.body;
       
@@ -72,6 +284,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const game = await storage.createGame({
         pgn,
         ...metadata,
+        userId: req.user!.id,
       });
 
       res.json(game);
@@ -81,21 +294,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Import game from Chess.com by URL
-  app.post("/api/games/import-chesscom", async (req, res) => {
+  // Import from Chess.com: one game by URL, or a player's monthly archives by username
+  app.post("/api/games/import-chesscom", requireAuth, async (req, res) => {
     try {
-      const { url } = req.body || {};
-      if (!url) {
-        return res.status(400).json({ error: "Missing url" });
+      const month = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Months look like 2024-03");
+      const importSchema = z.union([
+        z.object({ url: z.string().trim().min(1, "Missing url") }),
+        z.object({
+          username: z.string().trim().regex(/^[A-Za-z0-9_-]{3,25}$/, "Invalid Chess.com username"),
+          from: month,
+          to: month.optional(),
+        })
+          .refine((body) => !body.to || body.to >= body.from, "The month range ends before it starts")
+          .refine((body) => !body.to || monthsBetween(body.from, body.to) < 24, "Import at most 24 months at a time"),
+      ]);
+      const parsed = importSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Missing url or username and month range", details: parsed.error.errors });
       }
 
-      const pgn = await fetchPgnByChessComUrl(url);
+      if ("username" in parsed.data) {
+        const { username, from } = parsed.data;
+        const to = parsed.data.to || from;
+        const { store, provider } = await getStore();
+        const started = Date.now();
+        const result = await importChessComArchives(username, from, to, store, req.user!.id);
+        console.log(
+          `[chesscom-import] ${username} ${from}..${to} provider=${provider} imported=${result.imported} duplicates=${result.duplicates} failed=${result.failed} in ${Date.now() - started}ms`
+        );
+        return res.status(result.imported > 0 ? 201 : 200).json(result);
+      }
+
+      const pgn = await fetchPgnByChessComUrl(parsed.data.url);
 
       // Parse metadata and store
       const metadata = parsePgnMetadata(pgn);
       const game = await storage.createGame({
         pgn,
         ...metadata,
+        userId: req.user!.id,
       });
 
       res.json(game);
@@ -105,6 +342,444 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start a full-game batch analysis job (every ply, classified and persisted to moveAnalyses)
+  app.post("/api/games/:id/analyze", requireAuth, requirePlan((req) => depthPlan(req.body?.depth)), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid game ID" });
+      }
+
+      const analyzeSchema = z.object({
+        depth: z.coerce.number().int().min(1).max(24).default(parseInt(process.env.BATCH_ANALYSIS_DEPTH || '12', 10)),
+      });
+      const validationResult = analyzeSchema.safeParse(req.body || {});
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid analysis request",
+          details: validationResult.error.errors
+        });
+      }
+
+      const { store, provider } = await getStore();
+      const game = await store.getGame(id, req.user!.id);
+      if (!game) {
+        return res.status(404).json({ error: "Game not found" });
+      }
+
+      const depth = Math.min(validationResult.data.depth, PLAN_CONFIGS[resolvePlanFromReq(req)].engineDepth);
+      console.log('[game-analysis] start game=', id, 'provider=', provider, 'depth=', depth);
+      const job = startGameAnalysis(game, store, depth);
+      res.status(202).json(job);
+    } catch (error: any) {
+      if (error instanceof PgnParseError) {
+        return res.status(400).json({ error: "Invalid PGN", details: error.message });
+      }
+      console.error("Game analysis start error:", error);
+      res.status(500).json({ error: error.message || "Failed to start game analysis" });
+    }
+  });
+
+  // Poll progress of a full-game analysis job
+  app.get("/api/games/:id/analyze", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid game ID" });
+      }
+
+      const { store } = await getStore();
+      const job = (await store.getGame(id, req.user!.id)) ? getAnalysisJob(id) : undefined;
+      if (!job) {
+        return res.status(404).json({ error: "No analysis job for this game" });
+      }
+      res.json(job);
+    } catch (error: any) {
+      console.error("Failed to fetch analysis job:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch analysis job" });
+    }
+  });
+
+  // Get stored move analyses for a game (ordered by ply)
+  app.get("/api/games/:id/analyses", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid game ID" });
+      }
+
+      const { store } = await getStore();
+      if (!(await store.getGame(id, req.user!.id))) {
+        return res.status(404).json({ error: "Game not found" });
+      }
+      const analyses = await store.getGameAnalyses(id);
+      res.json(analyses);
+    } catch (error: any) {
+      console.error("Failed to fetch game analyses:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch game analyses" });
+    }
+  });
+
+  // Game Review report: accuracy, ACPL, error counts and biggest swings per side
+  app.get("/api/games/:id/report", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid game ID" });
+      }
+
+      const { store } = await getStore();
+      const game = await store.getGame(id, req.user!.id);
+      if (!game) {
+        return res.status(404).json({ error: "Game not found" });
+      }
+
+      const analyses = await store.getGameAnalyses(id);
+      if (analyses.length === 0) {
+        return res.status(404).json({ error: "Game has not been analyzed yet" });
+      }
+
+      res.json(buildGameReport(game, analyses, getAnalysisJob(id)));
+    } catch (error: any) {
+      console.error("Failed to build game report:", error);
+      res.status(500).json({ error: error.message || "Failed to build game report" });
+    }
+  });
+
+  // Annotated PGN download: original headers and variations plus stored analyses
+  app.get("/api/games/:id/pgn", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid game ID" });
+      }
+
+      const { store } = await getStore();
+      const game = await store.getGame(id, req.user!.id);
+      if (!game) {
+        return res.status(404).json({ error: "Game not found" });
+      }
+
+      const analyses = await store.getGameAnalyses(id);
+      let pgn: string;
+      try {
+        pgn = exportGamePgn(game, analyses);
+      } catch (error: any) {
+        return res.status(422).json({ error: "Stored PGN cannot be exported", details: error.message });
+      }
+
+      const filename = `${game.white}-vs-${game.black}`.replace(/[^A-Za-z0-9_-]+/g, "_");
+      res.setHeader("Content-Type", "application/x-chess-pgn; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.pgn"`);
+      res.send(pgn);
+    } catch (error: any) {
+      console.error("Failed to export game PGN:", error);
+      res.status(500).json({ error: error.message || "Failed to export game PGN" });
+    }
+  });
+
+  // Lichess account sync: linked username, last synced game and current job
+  app.get("/api/lichess/sync", requireAuth, async (req, res) => {
+    try {
+      const { store } = await getStore();
+      const user = (await store.getUser(req.user!.id))!;
+      res.json(getLichessSyncState(user));
+    } catch (error: any) {
+      console.error("Failed to fetch Lichess sync state:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch Lichess sync state" });
+    }
+  });
+
+  // Link (or unlink with null) the Lichess account; a new username syncs from scratch
+  app.put("/api/lichess/account", requireAuth, async (req, res) => {
+    try {
+      const accountSchema = z.object({
+        username: z.string().trim().regex(/^[A-Za-z0-9_-]{2,30}$/, "Invalid Lichess username").nullable(),
+      });
+      const parsed = accountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid Lichess account", details: parsed.error.errors });
+      }
+
+      const { store } = await getStore();
+      let user = (await store.getUser(req.user!.id))!;
+      const username = parsed.data.username;
+      if ((username || "").toLowerCase() !== (user.lichessUsername || "").toLowerCase()) {
+        user = (await store.updateUser(user.id, { lichessUsername: username, lichessSyncedUntil: null }))!;
+      }
+      res.json(getLichessSyncState(user));
+    } catch (error: any) {
+      console.error("Failed to link Lichess account:", error);
+      res.status(500).json({ error: error.message || "Failed to link Lichess account" });
+    }
+  });
+
+  // Start an incremental sync (poll GET /api/lichess/sync for progress)
+  app.post("/api/lichess/sync", requireAuth, async (req, res) => {
+    try {
+      const { store, provider } = await getStore();
+      const user = (await store.getUser(req.user!.id))!;
+      if (!user.lichessUsername) {
+        return res.status(400).json({ error: "Link a Lichess account first" });
+      }
+
+      console.log('[lichess-sync] start user=', user.lichessUsername, 'provider=', provider);
+      const job = startLichessSync(user, store);
+      res.status(202).json(job);
+    } catch (error: any) {
+      console.error("Lichess sync start error:", error);
+      res.status(500).json({ error: error.message || "Failed to start Lichess sync" });
+    }
+  });
+
+  // Opening explorer: moves played from a position across the user's games
+  app.get("/api/explorer", requireAuth, async (req, res) => {
+    try {
+      const explorerSchema = z.object({
+        fen: z.string().min(1, "FEN string cannot be empty"),
+      });
+      const parsed = explorerSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid request", details: parsed.error.errors });
+      }
+
+      const { store } = await getStore();
+      const games = await store.getAllGames(req.user!.id);
+      res.json(explorePosition(parsed.data.fen, games, req.user!.id));
+    } catch (error: any) {
+      console.error("Opening explorer error:", error);
+      res.status(500).json({ error: error.message || "Failed to explore position" });
+    }
+  });
+
+  // Opening repertoires: CRUD, tree editing, PGN import and SM-2 drilling (each user sees only their own)
+  const repertoireSchema = z.object({
+    name: z.string().trim().min(1, "Name cannot be empty").max(255),
+    color: z.enum(["white", "black"]),
+    description: z.string().nullish(),
+  });
+
+  async function loadRepertoire(req: any, res: any) {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid repertoire ID" });
+      return null;
+    }
+    const { store } = await getStore();
+    const repertoire = await store.getRepertoire(id, req.user!.id);
+    if (!repertoire) {
+      res.status(404).json({ error: "Repertoire not found" });
+      return null;
+    }
+    return { store, repertoire };
+  }
+
+  async function loadRepertoireNode(req: any, res: any, store: any, repertoireId: number) {
+    const nodeId = parseInt(req.params.nodeId, 10);
+    const node = isNaN(nodeId) ? undefined : await store.getRepertoireNode(nodeId);
+    if (!node || node.repertoireId !== repertoireId) {
+      res.status(404).json({ error: "Repertoire node not found" });
+      return null;
+    }
+    return node;
+  }
+
+  app.get("/api/repertoires", requireAuth, async (req, res) => {
+    try {
+      const { store } = await getStore();
+      res.json(await store.getRepertoires(req.user!.id));
+    } catch (error: any) {
+      console.error("Failed to fetch repertoires:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch repertoires" });
+    }
+  });
+
+  app.post("/api/repertoires", requireAuth, async (req, res) => {
+    try {
+      const parsed = repertoireSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid repertoire", details: parsed.error.errors });
+      }
+      const { store } = await getStore();
+      res.status(201).json(await store.createRepertoire({ ...parsed.data, userId: req.user!.id }));
+    } catch (error: any) {
+      console.error("Failed to create repertoire:", error);
+      res.status(500).json({ error: error.message || "Failed to create repertoire" });
+    }
+  });
+
+  // Repertoire with its flat node list (the client builds the tree from parentId)
+  app.get("/api/repertoires/:id", requireAuth, async (req, res) => {
+    try {
+      const loaded = await loadRepertoire(req, res);
+      if (!loaded) return;
+      const nodes = await loaded.store.getRepertoireNodes(loaded.repertoire.id);
+      res.json({ repertoire: loaded.repertoire, nodes });
+    } catch (error: any) {
+      console.error("Failed to fetch repertoire:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch repertoire" });
+    }
+  });
+
+  app.patch("/api/repertoires/:id", requireAuth, async (req, res) => {
+    try {
+      const parsed = repertoireSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid repertoire", details: parsed.error.errors });
+      }
+      const loaded = await loadRepertoire(req, res);
+      if (!loaded) return;
+      res.json(await loaded.store.updateRepertoire(loaded.repertoire.id, req.user!.id, parsed.data));
+    } catch (error: any) {
+      console.error("Failed to update repertoire:", error);
+      res.status(500).json({ error: error.message || "Failed to update repertoire" });
+    }
+  });
+
+  app.delete("/api/repertoires/:id", requireAuth, async (req, res) => {
+    try {
+      const loaded = await loadRepertoire(req, res);
+      if (!loaded) return;
+      const nodes = await loaded.store.getRepertoireNodes(loaded.repertoire.id);
+      await loaded.store.deleteRepertoireNodes(nodes.map(n => n.id));
+      await loaded.store.deleteRepertoire(loaded.repertoire.id, req.user!.id);
+      res.status(204).end();
+    } catch (error: any) {
+      console.error("Failed to delete repertoire:", error);
+      res.status(500).json({ error: error.message || "Failed to delete repertoire" });
+    }
+  });
+
+  // Add a move (SAN or UCI) after parentId (null = first move); idempotent per move
+  app.post("/api/repertoires/:id/nodes", requireAuth, async (req, res) => {
+    try {
+      const nodeSchema = z.object({
+        parentId: z.number().int().nullable().default(null),
+        move: z.string().trim().min(1, "Move cannot be empty"),
+        comment: z.string().nullish(),
+      });
+      const parsed = nodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid move", details: parsed.error.errors });
+      }
+
+      const loaded = await loadRepertoire(req, res);
+      if (!loaded) return;
+      const { store, repertoire } = loaded;
+
+      let parent = null;
+      if (parsed.data.parentId !== null) {
+        parent = await store.getRepertoireNode(parsed.data.parentId);
+        if (!parent || parent.repertoireId !== repertoire.id) {
+          return res.status(404).json({ error: "Parent node not found" });
+        }
+      }
+
+      let result;
+      try {
+        result = await addRepertoireMove(store, repertoire, parent, parsed.data.move, parsed.data.comment);
+      } catch (error: any) {
+        return res.status(400).json({ error: "Illegal move", details: error.message });
+      }
+      res.status(result.created ? 201 : 200).json(result.node);
+    } catch (error: any) {
+      console.error("Failed to add repertoire move:", error);
+      res.status(500).json({ error: error.message || "Failed to add repertoire move" });
+    }
+  });
+
+  app.patch("/api/repertoires/:id/nodes/:nodeId", requireAuth, async (req, res) => {
+    try {
+      const parsed = z.object({ comment: z.string().nullable() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid node update", details: parsed.error.errors });
+      }
+      const loaded = await loadRepertoire(req, res);
+      if (!loaded) return;
+      const node = await loadRepertoireNode(req, res, loaded.store, loaded.repertoire.id);
+      if (!node) return;
+      res.json(await loaded.store.updateRepertoireNode(node.id, { comment: parsed.data.comment || null }));
+    } catch (error: any) {
+      console.error("Failed to update repertoire node:", error);
+      res.status(500).json({ error: error.message || "Failed to update repertoire node" });
+    }
+  });
+
+  // Deletes the move and everything after it
+  app.delete("/api/repertoires/:id/nodes/:nodeId", requireAuth, async (req, res) => {
+    try {
+      const loaded = await loadRepertoire(req, res);
+      if (!loaded) return;
+      const node = await loadRepertoireNode(req, res, loaded.store, loaded.repertoire.id);
+      if (!node) return;
+      const nodes = await loaded.store.getRepertoireNodes(loaded.repertoire.id);
+      const ids = collectSubtree(nodes, node.id);
+      await loaded.store.deleteRepertoireNodes(ids);
+      res.json({ deleted: ids.length });
+    } catch (error: any) {
+      console.error("Failed to delete repertoire node:", error);
+      res.status(500).json({ error: error.message || "Failed to delete repertoire node" });
+    }
+  });
+
+  app.post("/api/repertoires/:id/import", requireAuth, async (req, res) => {
+    try {
+      const parsed = z.object({ pgn: z.string().min(1, "PGN cannot be empty") }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid PGN", details: parsed.error.errors });
+      }
+      const loaded = await loadRepertoire(req, res);
+      if (!loaded) return;
+
+      const result = await importPgnIntoRepertoire(loaded.store, loaded.repertoire, parsed.data.pgn);
+      console.log(`[repertoire] imported ${result.games} games into ${loaded.repertoire.id} (+${result.added} moves)`);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof PgnParseError) {
+        return res.status(400).json({ error: "Invalid PGN", details: error.message });
+      }
+      console.error("Failed to import PGN into repertoire:", error);
+      res.status(500).json({ error: error.message || "Failed to import PGN" });
+    }
+  });
+
+  app.get("/api/repertoires/:id/drill", requireAuth, async (req, res) => {
+    try {
+      const loaded = await loadRepertoire(req, res);
+      if (!loaded) return;
+      const nodes = await loaded.store.getRepertoireNodes(loaded.repertoire.id);
+      res.json(buildDrillQueue(loaded.repertoire, nodes));
+    } catch (error: any) {
+      console.error("Failed to build drill queue:", error);
+      res.status(500).json({ error: error.message || "Failed to build drill queue" });
+    }
+  });
+
+  // Record a drill answer; quality is the SM-2 grade (0-5)
+  app.post("/api/repertoires/:id/nodes/:nodeId/review", requireAuth, async (req, res) => {
+    try {
+      const parsed = z.object({ quality: z.number().int().min(0).max(5) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid review", details: parsed.error.errors });
+      }
+      const loaded = await loadRepertoire(req, res);
+      if (!loaded) return;
+      const node = await loadRepertoireNode(req, res, loaded.store, loaded.repertoire.id);
+      if (!node) return;
+      res.json(await loaded.store.updateRepertoireNode(node.id, scheduleReview(node, parsed.data.quality)));
+    } catch (error: any) {
+      console.error("Failed to record review:", error);
+      res.status(500).json({ error: error.message || "Failed to record review" });
+    }
+  });
+
+  // Coach routes charge the caller's daily quotas (server/lib/quota.ts): one LLM call per
+  // request, and the estimated speech length before generating audio
+  async function chargeQuota(req: express.Request, metric: "llmCalls" | "ttsSeconds", amount: number) {
+    const { store } = await getStore();
+    return consumeQuota(quotaSubject(req), resolvePlanFromReq(req), metric, amount, store);
+  }
+
   // Analyze a specific move (Fix Pack v5: now uses getGPTComment for pedagogical analysis)
   app.post("/api/analysis/move", async (req, res) => {
     try {
@@ -113,9 +788,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!moveNumber || !move || !fen) {
         return res.status(400).json({ error: "Missing required fields" });
       }
+      if (!(await chargeQuota(req, "llmCalls", 1))) {
+        return res.status(402).json(quotaExceeded("llmCalls", resolvePlanFromReq(req)));
+      }
 
       // Determine plan for this analysis (feat/subscriptions)
-      const planMode: PlanMode = (req.query.plan as PlanMode) || 'free';
+      const planMode = resolvePlanFromReq(req);
       const engineDepths = {
         free: parseInt(process.env.ENGINE_DEPTH_FREE || '14', 10),
         pro: parseInt(process.env.ENGINE_DEPTH_PRO || '20', 10),
@@ -127,7 +805,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let engineEval: { score?: number; mate?: number; bestMove?: string } | undefined;
       try {
         engineEval = await Promise.race([
-          getStockfishEvaluation(fen, engineDepth), // Plan-aware depth (feat/subscriptions)
+          getStockfishEvaluation(fen, engineDepth, 1, { plan: planMode }), // Plan-aware depth and queue priority
           new Promise<never>((_, reject) => 
             setTimeout(() => reject(new Error("Stockfish timeout")), 12000)
           )
@@ -151,13 +829,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         coachingStyle: settings?.coachingStyle || 'balanced'
       });
       
-      // Generate audio for the commentary (only if not muted) - Hotfix v5.1.1: language support
+      // Generate audio for the commentary (only if not muted and within the TTS quota) - Hotfix v5.1.1: language support
       let audioUrl;
-      if (!muted) {
+      if (!muted && (await chargeQuota(req, "ttsSeconds", estimateTtsSeconds(comment.text)))) {
         try {
           // Cost Saver Pack v6.0: Use plan-aware TTS provider
-          const planMode: PlanMode = (req.query.plan as PlanMode) || 'free';
-          const provider = getTTSProvider(planMode);
+          const provider = getTTSProvider(resolvePlanFromReq(req));
           
           const audioBuffer = await generateSpeech(comment.text, {
             provider,
@@ -199,17 +876,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!question || !context) {
         return res.status(400).json({ error: "Missing question or context" });
       }
+      if (!(await chargeQuota(req, "llmCalls", 1))) {
+        return res.status(402).json(quotaExceeded("llmCalls", resolvePlanFromReq(req)));
+      }
 
       // Get AI answer
       const answer = await answerQuestion(question, context, settings);
       
-      // Generate audio for the answer (only if not muted) - Cost Saver Pack v6.0: plan-aware TTS
+      // Generate audio for the answer (only if not muted and within the TTS quota) - Cost Saver Pack v6.0: plan-aware TTS
       let audioUrl;
-      if (!muted) {
+      if (!muted && (await chargeQuota(req, "ttsSeconds", estimateTtsSeconds(answer)))) {
         try {
           // Cost Saver Pack v6.0: Use plan-aware TTS provider
-          const planMode: PlanMode = (req.query.plan as PlanMode) || 'free';
-          const provider = getTTSProvider(planMode);
+          const provider = getTTSProvider(resolvePlanFromReq(req));
           
           const audioBuffer = await generateSpeech(answer, {
             provider,
@@ -241,6 +920,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!fen) {
         return res.status(400).json({ error: "Missing FEN position" });
       }
+      if (!(await chargeQuota(req, "llmCalls", 1))) {
+        return res.status(402).json(quotaExceeded("llmCalls", resolvePlanFromReq(req)));
+      }
 
       // Import getGPTComment function
       const { getGPTComment } = await import("./lib/openai");
@@ -257,13 +939,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         coachingStyle: settings?.coachingStyle || 'balanced'
       });
       
-      // Generate audio for the comment (only if not muted) - Hotfix v5.1.1: language support
+      // Generate audio for the comment (only if not muted and within the TTS quota) - Hotfix v5.1.1: language support
       let audioUrl;
-      if (!muted) {
+      if (!muted && (await chargeQuota(req, "ttsSeconds", estimateTtsSeconds(comment.text)))) {
         try {
           // Cost Saver Pack v6.0: Use plan-aware TTS provider
-          const planMode: PlanMode = (req.query.plan as PlanMode) || 'free';
-          const provider = getTTSProvider(planMode);
+          const provider = getTTSProvider(resolvePlanFromReq(req));
           
           const audioBuffer = await generateSpeech(comment.text, {
             provider,
@@ -288,12 +969,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user settings (HOTFIX v6.1: DB fallback, no 500)
-  app.get("/api/settings", async (req, res) => {
+  app.get("/api/settings", requireAuth, async (req, res) => {
     try {
       const { store, provider } = await getStore();
       console.log('[settings] GET provider=', provider);
       
-      const settings = await store.getSettings();
+      const settings = await store.getSettings(req.user!.id);
       
       // Return default settings if none exist
       if (!settings) {
@@ -319,7 +1000,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update user settings (HOTFIX v6.1: DB fallback, no 500)
-  app.put("/api/settings", async (req, res) => {
+  app.put("/api/settings", requireAuth, async (req, res) => {
     try {
       // Validate request body with Zod schema
       const settingsSchema = z.object({
@@ -343,7 +1024,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { store, provider } = await getStore();
       console.log('[settings] PUT provider=', provider, 'language=', language);
       
-      const settings = await store.updateSettings({
+      const settings = await store.updateSettings(req.user!.id, {
         coachingStyle,
         difficulty,
         verbosity,
@@ -421,10 +1102,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Build filters object only with valid values
-      const filters = (minRating !== undefined || maxRating !== undefined || themes !== undefined) 
-        ? { minRating, maxRating, themes }
-        : undefined;
+      // Signed-in users also get their own-game puzzles
+      const filters = { minRating, maxRating, themes, userId: req.user?.id };
       
       const { store, provider } = await getStore();
       console.log('[puzzles] GET provider=', provider);
@@ -436,6 +1115,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Next puzzle near the user's Glicko-2 puzzle rating (optional ?themes=Fork,Pin and ?exclude=<current id>)
+  app.get("/api/puzzles/next", requireAuth, async (req, res) => {
+    try {
+      const themes = typeof req.query.themes === "string"
+        ? req.query.themes.split(",").map((t) => t.trim()).filter(Boolean)
+        : undefined;
+      const exclude = req.query.exclude ? parseInt(String(req.query.exclude), 10) : NaN;
+
+      const { store } = await getStore();
+      const user = await store.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const puzzle = await pickNextPuzzle(store, user.id, user.puzzleRating, {
+        themes,
+        excludeId: isNaN(exclude) ? undefined : exclude,
+      });
+
+      res.json({
+        puzzle,
+        rating: Math.round(user.puzzleRating),
+        deviation: Math.round(user.puzzleRatingDeviation),
+      });
+    } catch (error: any) {
+      console.error("Failed to pick next puzzle:", error);
+      res.status(500).json({ error: error.message || "Failed to pick next puzzle" });
+    }
+  });
+
+  // Progress of the user's own-game puzzle generation (POST /api/puzzles/generate)
+  app.get("/api/puzzles/generate", requireAuth, async (req, res) => {
+    try {
+      const job = getPuzzleGenerationJob(req.user!.id);
+      if (!job) {
+        return res.status(404).json({ error: "No puzzle generation job" });
+      }
+      res.json(job);
+    } catch (error: any) {
+      console.error("Failed to fetch puzzle generation job:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch puzzle generation job" });
+    }
+  });
+
   // Get a single puzzle
   app.get("/api/puzzles/:id", async (req, res) => {
     try {
@@ -445,7 +1167,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const puzzle = await storage.getPuzzle(id);
-      if (!puzzle) {
+      if (!puzzle || (puzzle.userId !== null && puzzle.userId !== req.user?.id)) {
         return res.status(404).json({ error: "Puzzle not found" });
       }
       
@@ -468,7 +1190,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const puzzle = await storage.createPuzzle(validationResult.data);
+      try {
+        solutionToSan(validationResult.data.fen, validationResult.data.solution);
+      } catch (lineError: any) {
+        return res.status(400).json({ error: "Invalid puzzle solution", details: lineError.message });
+      }
+      
+      // Untagged puzzles get their theme from the motif detector
+      const theme = validationResult.data.theme || puzzleTheme(validationResult.data.fen, validationResult.data.solution);
+      const puzzle = await storage.createPuzzle({ ...validationResult.data, theme });
       res.json(puzzle);
     } catch (error: any) {
       console.error("Failed to create puzzle:", error);
@@ -477,7 +1207,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Record a puzzle attempt
-  app.post("/api/puzzles/:id/attempt", async (req, res) => {
+  app.post("/api/puzzles/:id/attempt", requireAuth, async (req, res) => {
     try {
       const puzzleId = parseInt(req.params.id, 10);
       if (isNaN(puzzleId)) {
@@ -487,7 +1217,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const attemptSchema = z.object({
         solved: z.number().int().min(0).max(1),
         timeSpent: z.number().int().nonnegative().optional(),
-        userId: z.number().int().optional().nullable(),
+        movesCompleted: z.number().int().nonnegative().optional(), // Solver moves found (partial progress)
       });
       
       const validationResult = attemptSchema.safeParse(req.body);
@@ -499,12 +1229,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const attempt = await storage.createPuzzleAttempt({
+      const { store } = await getStore();
+      const puzzle = await store.getPuzzle(puzzleId);
+      if (!puzzle || (puzzle.userId !== null && puzzle.userId !== req.user!.id)) {
+        return res.status(404).json({ error: "Puzzle not found" });
+      }
+      
+      // Only the first attempt at a puzzle moves the ratings
+      const firstAttempt = (await store.getPuzzleAttempts(puzzleId, req.user!.id)).length === 0;
+      const attempt = await store.createPuzzleAttempt({
         puzzleId,
         ...validationResult.data,
+        userId: req.user!.id,
       });
+      const rating = firstAttempt
+        ? await ratePuzzleAttempt(req.user!.id, puzzle, validationResult.data.solved === 1, store)
+        : null;
       
-      res.json(attempt);
+      res.json({ ...attempt, rating });
     } catch (error: any) {
       console.error("Failed to record puzzle attempt:", error);
       res.status(500).json({ error: error.message || "Failed to record attempt" });
@@ -512,9 +1254,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get puzzle statistics
-  app.get("/api/stats/puzzles", async (req, res) => {
+  app.get("/api/stats/puzzles", requireAuth, async (req, res) => {
     try {
-      const stats = await storage.getPuzzleStats();
+      const stats = await storage.getPuzzleStats(req.user!.id);
       res.json(stats);
     } catch (error: any) {
       console.error("Failed to fetch puzzle stats:", error);
@@ -522,10 +1264,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Current puzzle rating and its history
+  app.get("/api/stats/puzzle-rating", requireAuth, async (req, res) => {
+    try {
+      const { store } = await getStore();
+      const user = await store.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const history = await store.getProgressStats(user.id, PUZZLE_RATING_STAT);
+      const summary: PuzzleRatingSummary = {
+        rating: Math.round(user.puzzleRating),
+        deviation: Math.round(user.puzzleRatingDeviation),
+        history: history.map((stat) => ({ rating: stat.value, recordedAt: stat.recordedAt.toISOString() })),
+      };
+      res.json(summary);
+    } catch (error: any) {
+      console.error("Failed to fetch puzzle rating:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch puzzle rating" });
+    }
+  });
+
   // Get all puzzle attempts
-  app.get("/api/puzzle-attempts", async (req, res) => {
+  app.get("/api/puzzle-attempts", requireAuth, async (req, res) => {
     try {
-      const attempts = await storage.getAllPuzzleAttempts();
+      const attempts = await storage.getAllPuzzleAttempts(req.user!.id);
       res.json(attempts);
     } catch (error: any) {
       console.error("Failed to fetch puzzle attempts:", error);
@@ -551,7 +1314,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Load the complete PGN
       const pgn = lichessPuzzle.game?.pgn || "";
       const initialPly = lichessPuzzle.puzzle?.initialPly || 0;
+      // Full line in UCI: the solver's moves and the opponent's forced replies
+      const solution = (lichessPuzzle.puzzle?.solution || []).join(" ");
       
+      let fen: string | undefined;
       try {
         // Load the full PGN (strict: false allows some invalid PGN formats)
         chess.loadPgn(pgn, { strict: false });
@@ -565,24 +1331,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
           throw new Error(`Initial ply (${initialPly}) exceeds total moves (${totalMoves})`);
         }
         
-        // Undo moves to get to the puzzle starting position
-        const movesToUndo = totalMoves - initialPly;
-        for (let i = 0; i < movesToUndo; i++) {
+        // The puzzle usually starts after the last PGN move, but older payloads count
+        // initialPly differently; take the candidate position where the whole line is legal
+        const candidates = [chess.fen()];
+        for (let i = 0; i < totalMoves - initialPly; i++) {
           chess.undo();
         }
+        candidates.push(chess.fen());
+        fen = candidates.find((candidate) => {
+          try {
+            solutionToSan(candidate, solution);
+            return true;
+          } catch {
+            return false;
+          }
+        });
       } catch (error: any) {
         console.error("Failed to parse PGN from Lichess:", error);
         throw new Error(`Cannot parse puzzle PGN: ${error.message}`);
       }
-      
-      const fen = chess.fen();
+      if (!fen) {
+        throw new Error(`Solution "${solution}" does not fit the puzzle game`);
+      }
       
       // Extract puzzle data
       const puzzle = {
         fen,
-        solution: lichessPuzzle.puzzle?.solution?.[0] || "", // First move of solution
+        solution,
         explanation: `Lichess daily puzzle (#${lichessPuzzle.puzzle?.id || "N/A"}). Themes: ${lichessPuzzle.puzzle?.themes?.join(", ") || "Mixed"}`,
-        theme: lichessPuzzle.puzzle?.themes?.[0] || "Mixed",
+        theme: lichessThemeName(lichessPuzzle.puzzle?.themes || []),
         rating: lichessPuzzle.puzzle?.rating || 1500,
         source: "lichess",
         externalId: lichessPuzzle.puzzle?.id || null,
@@ -608,6 +1385,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Turn missed tactics and blunders from the user's games into puzzles
+  // (default: the most recent games; poll GET /api/puzzles/generate for progress)
+  app.post("/api/puzzles/generate", requireAuth, requirePlan((req) => depthPlan(req.body?.depth)), async (req, res) => {
+    try {
+      const generateSchema = z.object({
+        gameIds: z.array(z.number().int().positive()).min(1).max(100).optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+        depth: z.coerce.number().int().min(1).max(24).default(parseInt(process.env.PUZZLE_GENERATION_DEPTH || '14', 10)),
+      });
+      const validationResult = generateSchema.safeParse(req.body || {});
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid generation request",
+          details: validationResult.error.errors
+        });
+      }
+      const { gameIds, limit } = validationResult.data;
+      const depth = Math.min(validationResult.data.depth, PLAN_CONFIGS[resolvePlanFromReq(req)].engineDepth);
+
+      const { store, provider } = await getStore();
+      const user = (await store.getUser(req.user!.id))!;
+      const games = gameIds
+        ? (await Promise.all(gameIds.map((id) => store.getGame(id, user.id)))).filter((g) => g !== undefined)
+        : (await store.searchGames(user.id, { limit })).games;
+      if (games.length === 0) {
+        return res.status(404).json({ error: "No games to scan" });
+      }
+
+      console.log('[puzzle-generator] start user=', user.id, 'games=', games.length, 'provider=', provider, 'depth=', depth);
+      const job = startPuzzleGeneration(user, games, store, depth);
+      res.status(202).json(job);
+    } catch (error: any) {
+      console.error("Puzzle generation start error:", error);
+      res.status(500).json({ error: error.message || "Failed to start puzzle generation" });
+    }
+  });
+
+  // Bulk import of the Lichess puzzle database: the request body is the CSV
+  // itself, read as a stream (npm run puzzles:import does the same from a file)
+  app.post("/api/puzzles/import", requireAdmin, async (req, res) => {
+    try {
+      const optionsSchema = z.object({
+        themes: z.string().optional().transform((t) => (t ? t.split(",").map((theme) => theme.trim()).filter(Boolean) : undefined)),
+        minRating: z.coerce.number().int().optional(),
+        maxRating: z.coerce.number().int().optional(),
+        limit: z.coerce.number().int().positive().optional(),
+      });
+      const options = optionsSchema.safeParse(req.query);
+      if (!options.success) {
+        return res.status(400).json({ error: "Invalid import options", details: options.error.errors });
+      }
+      if (!req.is(["text/csv", "text/plain", "application/octet-stream"])) {
+        return res.status(415).json({ error: "Send the puzzle CSV as the request body (Content-Type: text/csv)" });
+      }
+
+      const { store, provider } = await getStore();
+      const started = Date.now();
+      const result = await importLichessPuzzles(req, store, options.data);
+      console.log(
+        `[puzzle-import] provider=${provider} imported=${result.imported} duplicates=${result.duplicates} skipped=${result.skipped} failed=${result.failed} in ${Date.now() - started}ms`
+      );
+      res.status(result.imported > 0 ? 201 : 200).json(result);
+    } catch (error: any) {
+      console.error("Puzzle import error:", error);
+      res.status(500).json({ error: error.message || "Failed to import puzzles" });
+    }
+  });
+
   // Seed sample puzzles - HOTFIX v6.2.2: Load from attached_assets, DB fallback
   app.post("/api/puzzles/seed", async (req, res) => {
     try {
@@ -661,160 +1506,325 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Stockfish engine analysis endpoint for Play vs Coach
-  app.post("/api/stockfish/analyze", async (req, res) => {
+  // Stockfish engine analysis endpoint for Play vs Coach; depth defaults to the plan's
+  app.post("/api/stockfish/analyze", requirePlan((req) => depthPlan(req.body?.depth)), async (req, res) => {
     try {
       // Validate request with Zod schema
       const stockfishRequestSchema = z.object({
         fen: z.string().min(1, "FEN string cannot be empty"),
-        depth: z.coerce.number().int().min(1).max(24).default(15),
+        depth: z.coerce.number().int().min(1).max(24).optional(),
+        multipv: z.coerce.number().int().min(1).max(MAX_MULTIPV).default(1),
       });
       
       const validated = stockfishRequestSchema.parse(req.body);
-      
-      const evaluation = await getStockfishEvaluation(validated.fen, validated.depth);
+      const plan = resolvePlanFromReq(req);
+      const depth = validated.depth ?? PLAN_CONFIGS[plan].engineDepth;
+
+      // Stop the search (or drop it from the queue) if the browser goes away
+      const controller = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) controller.abort();
+      });
+
+      const evaluation = await getStockfishEvaluation(validated.fen, depth, validated.multipv, {
+        plan,
+        clientId: quotaSubject(req),
+        signal: controller.signal,
+      });
       res.json(evaluation);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid request", details: error.errors });
       }
+      if (error instanceof InvalidFenError) {
+        return res.status(400).json({ error: "Invalid FEN", details: error.message });
+      }
+      if (error.message === "Analysis cancelled") {
+        return;
+      }
       console.error("Stockfish analysis error:", error);
       res.status(500).json({ error: error.message || "Failed to analyze position" });
     }
   });
 
-  //
-  // Lightweight subscription + trial endpoints (feat/subscriptions)
-  //
-  const TRIAL_STORE_PATH = path.join(process.cwd(), 'attached_assets', 'trial-store.json');
-  const USAGE_STORE_PATH = path.join(process.cwd(), 'attached_assets', 'usage-store.json');
-
-  async function readJsonFileSafe(p: string) {
-    try {
-      const raw = await fs.promises.readFile(p, 'utf-8');
-      return JSON.parse(raw);
-    } catch (e) {
-      return {};
+  // Live engine analysis over Server-Sent Events. Pushes an `info` event per
+  // engine update (score/mate from White's perspective), then `done`. Without
+  // `depth` the search runs to the plan's depth, or on plans above every depth
+  // limit until the client disconnects or STREAM_MAX_SECONDS pass.
+  app.get("/api/stockfish/stream", requirePlan((req) => depthPlan(req.query.depth)), async (req, res) => {
+    const streamRequestSchema = z.object({
+      fen: z.string().min(1, "FEN string cannot be empty"),
+      depth: z.coerce.number().int().min(1).max(99).optional(),
+      multipv: z.coerce.number().int().min(1).max(MAX_MULTIPV).default(1),
+    });
+
+    const parsed = streamRequestSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request", details: parsed.error.errors });
     }
-  }
-
-  async function writeJsonFileSafe(p: string, data: any) {
+    const { fen, multipv } = parsed.data;
+    const plan = resolvePlanFromReq(req);
+    const planDepth = PLAN_CONFIGS[plan].engineDepth;
+    const depth = parsed.data.depth !== undefined
+      ? Math.min(parsed.data.depth, planDepth)
+      : planForDepth(Infinity) === plan ? undefined : planDepth;
+
+    // Reject a bad FEN before the event stream starts, while a 400 can still be sent
     try {
-      await fs.promises.mkdir(path.dirname(p), { recursive: true });
-      await fs.promises.writeFile(p, JSON.stringify(data, null, 2), 'utf-8');
-    } catch (e) {
-      console.warn('[subscriptions] failed to persist file', p, e);
+      assertValidFen(fen);
+    } catch (error: any) {
+      return res.status(400).json({ error: "Invalid FEN", details: error.message });
     }
-  }
+    const sign = fen.split(" ")[1] === "b" ? -1 : 1;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
 
-  function getClientId(req: any) {
-    // Prefer authenticated user id if present (future); fallback to IP
-    const userId = (req as any).user?.id;
-    if (userId) return `user:${userId}`;
-    // Express provides req.ip (may include ::ffff:), normalize
-    return `ip:${req.ip || req.socket?.remoteAddress || 'anon'}`;
-  }
+    // Comment lines keep proxies from closing the connection during long searches
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+    const controller = new AbortController();
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      controller.abort();
+    });
 
-  function getTodayKey() {
-    const tz = process.env.TZ || 'America/Chicago';
-    return new Date().toLocaleDateString('en-CA', { timeZone: tz }); // YYYY-MM-DD (en-CA)
-  }
+    try {
+      const evaluation = await streamStockfishAnalysis(fen, depth, multipv, {
+        plan,
+        clientId: quotaSubject(req),
+        signal: controller.signal,
+        onInfo: (line) =>
+          send("info", {
+            ...line,
+            score: line.score !== undefined ? line.score * sign : undefined,
+            mate: line.mate !== undefined ? line.mate * sign : undefined,
+          }),
+      });
+      send("done", { bestMove: evaluation.bestMove, depth: evaluation.depth });
+    } catch (error: any) {
+      if (error.message !== "Analysis cancelled") {
+        console.error("[stockfish-stream] error:", error);
+        send("error", { error: error.message || "Failed to analyze position" });
+      }
+    } finally {
+      clearInterval(heartbeat);
+      res.end();
+    }
+  });
 
+  //
+  // Lightweight subscription + trial endpoints (feat/subscriptions)
+  //
   // Concurrent analysis tracking (in-memory)
   const concurrentMap = new Map<string, number>();
 
-  // Helper to increment telemetry
-  async function incrementUsage(clientId: string, fields: Partial<{ stockfishCalls: number; llmCalls: number; ttsSeconds: number; }>) {
-    const usage = await readJsonFileSafe(USAGE_STORE_PATH);
-    const day = getTodayKey();
-    usage[day] = usage[day] || {};
-    usage[day][clientId] = usage[day][clientId] || { stockfishCalls: 0, llmCalls: 0, ttsSeconds: 0 };
-    const rec = usage[day][clientId];
-    if (fields.stockfishCalls) rec.stockfishCalls += fields.stockfishCalls;
-    if (fields.llmCalls) rec.llmCalls += fields.llmCalls;
-    if (fields.ttsSeconds) rec.ttsSeconds += fields.ttsSeconds;
-    await writeJsonFileSafe(USAGE_STORE_PATH, usage);
-  }
-
-  // GET /api/plan -> returns plan + trial eligibility
+  // GET /api/plan -> plan + today's quota status (trial eligibility, usage, limits)
   app.get("/api/plan", async (req, res) => {
     try {
-      const planQuery = (req.query.plan as string) || process.env.DEFAULT_PLAN || 'FREE';
-      const plan = String(planQuery).toLowerCase() === 'pro' ? 'pro' : (String(planQuery).toLowerCase() === 'elite' ? 'elite' : 'free');
+      const plan = resolvePlanFromReq(req);
+      const { store } = await getStore();
+      const status = await getQuotaStatus(quotaSubject(req), plan, store);
+
+      let expiresAt: string | null = null;
+      if (req.user) {
+        const subscription = await store.getSubscription(req.user.id);
+        if (subscriptionPlan(subscription) && subscription!.expiresAt) expiresAt = subscription!.expiresAt.toISOString();
+      }
+
+      res.json({ ...status, plan, expiresAt });
+    } catch (error: any) {
+      console.error("[subscriptions] GET /api/plan error:", error);
+      res.status(500).json({ error: "Failed to fetch plan" });
+    }
+  });
+
+  // Today's usage counters for the caller
+  app.get("/api/usage/today", async (req, res) => {
+    try {
+      const { store } = await getStore();
+      const { day, usage, limits } = await getQuotaStatus(quotaSubject(req), resolvePlanFromReq(req), store);
+      res.json({ day, usage, limits });
+    } catch (error: any) {
+      console.error("[subscriptions] GET /api/usage error:", error);
+      res.status(500).json({ error: "Failed to fetch usage" });
+    }
+  });
+
+  // Admin: every user's plan (users without a row are on the default plan)
+  app.get("/api/admin/subscriptions", requireAdmin, async (req, res) => {
+    try {
+      const { store } = await getStore();
+      const users = await store.getUsers();
+      const summaries: SubscriptionSummary[] = [];
+      (await store.getSubscriptions()).forEach((subscription) => {
+        const user = users.find((u) => u.id === subscription.userId);
+        if (!user) return;
+        summaries.push({
+          userId: subscription.userId,
+          username: user.username,
+          plan: isPlanLevel(subscription.plan) ? subscription.plan : 'free',
+          status: subscription.status === 'revoked' ? 'revoked' : 'active',
+          active: subscriptionPlan(subscription) !== null,
+          expiresAt: subscription.expiresAt ? subscription.expiresAt.toISOString() : null,
+          grantedBy: subscription.grantedBy,
+          updatedAt: subscription.updatedAt.toISOString(),
+        });
+      });
+      res.json(summaries);
+    } catch (error: any) {
+      console.error("[subscriptions] GET /api/admin/subscriptions error:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch subscriptions" });
+    }
+  });
 
-      const tz = process.env.TZ || 'America/Chicago';
-      const today = getTodayKey();
+  // Admin: grant a plan (replaces the user's current one)
+  app.put("/api/admin/users/:id/plan", requireAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id, 10);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+      const grantSchema = z.object({
+        plan: z.enum(["free", "pro", "elite"]),
+        expiresAt: z.string().datetime().nullable().optional(),
+      });
+      const parsed = grantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid plan grant", details: parsed.error.errors });
+      }
 
-      const store = await readJsonFileSafe(TRIAL_STORE_PATH);
-      const clientId = getClientId(req);
-      const entry = store[clientId] || { date: null, used: false, usedAt: null, usedDurationMs: 0 };
+      const { store } = await getStore();
+      if (!(await store.getUser(userId))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const subscription = await store.saveSubscription({
+        userId,
+        plan: parsed.data.plan,
+        status: "active",
+        grantedBy: req.user!.id,
+        expiresAt: parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : null,
+      });
+      console.log(`[subscriptions] ${req.user!.username} granted ${subscription.plan} to user ${userId}`);
+      res.json(subscription);
+    } catch (error: any) {
+      console.error("[subscriptions] grant error:", error);
+      res.status(500).json({ error: error.message || "Failed to grant plan" });
+    }
+  });
 
-      const trialEnabled = (process.env.TRIAL_ENABLED || 'true') === 'true';
-      const trialDurationMin = parseInt(process.env.TRIAL_DURATION_MIN || '3', 10);
+  // Admin: revoke the user's plan; they fall back to the default plan
+  app.delete("/api/admin/users/:id/plan", requireAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id, 10);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
 
-      let eligible = false;
-      let remainingMs = 0;
-      let usedToday = false;
+      const { store } = await getStore();
+      const subscription = await store.getSubscription(userId);
+      if (!subscription) {
+        return res.status(404).json({ error: "User has no plan to revoke" });
+      }
+      await store.saveSubscription({
+        userId,
+        plan: subscription.plan,
+        status: "revoked",
+        grantedBy: req.user!.id,
+        expiresAt: subscription.expiresAt,
+      });
+      console.log(`[subscriptions] ${req.user!.username} revoked ${subscription.plan} from user ${userId}`);
+      res.status(204).end();
+    } catch (error: any) {
+      console.error("[subscriptions] revoke error:", error);
+      res.status(500).json({ error: error.message || "Failed to revoke plan" });
+    }
+  });
 
-      if (!trialEnabled) {
-        eligible = false;
-        usedToday = !!(entry.date === today && entry.used);
-      } else {
-        if (entry.date !== today || !entry.used) {
-          eligible = true;
-          usedToday = false;
-        } else {
-          usedToday = true;
-          // compute remaining if within duration
-          const usedAt = entry.usedAt ? new Date(entry.usedAt).getTime() : 0;
-          const elapsed = Date.now() - usedAt;
-          const allowedMs = (trialDurationMin || 3) * 60 * 1000;
-          remainingMs = Math.max(0, allowedMs - elapsed);
-          if (remainingMs > 0) eligible = true;
-          else eligible = false;
-        }
+  // Start a hosted checkout for a paid plan; the browser goes to the returned url
+  app.post("/api/billing/checkout", requireAuth, async (req, res) => {
+    try {
+      const parsed = z.object({ plan: z.enum(["pro", "elite"]) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid checkout", details: parsed.error.errors });
+      }
+      if (!isBillingConfigured()) {
+        return res.status(503).json({ error: "Payments are not available right now" });
       }
 
-      res.json({
-        plan,
-        trial: {
-          eligible,
-          remainingMs,
-          usedToday,
-        },
+      const origin = `${req.protocol}://${req.get("host")}`;
+      const session = await createCheckoutSession(req.user!.id, parsed.data.plan, {
+        successUrl: `${origin}/?checkout=success`,
+        cancelUrl: `${origin}/?checkout=canceled`,
       });
+      console.log(`[billing] checkout ${session.id} user=${req.user!.id} plan=${parsed.data.plan}`);
+      res.status(201).json(session);
     } catch (error: any) {
-      console.error("[subscriptions] GET /api/plan error:", error);
-      res.status(500).json({ error: "Failed to fetch plan" });
+      console.error("[billing] checkout error:", error);
+      res.status(502).json({ error: error.message || "Failed to start checkout" });
     }
   });
 
-  // Simple usage endpoint
-  app.get("/api/usage/today", async (req, res) => {
+  // Gateway webhook: verified against the raw body captured by express.json in server/index.ts
+  app.post("/api/billing/webhook", async (req, res) => {
+    let event;
     try {
-      const usage = await readJsonFileSafe(USAGE_STORE_PATH);
-      const day = getTodayKey();
-      res.json({ day, usage: usage[day] || {} });
+      event = verifyWebhook(req.rawBody as Buffer | undefined, req.get(SIGNATURE_HEADER));
     } catch (error: any) {
-      console.error("[subscriptions] GET /api/usage error:", error);
-      res.status(500).json({ error: "Failed to fetch usage" });
+      if (error instanceof BillingSignatureError || error instanceof SyntaxError) {
+        console.warn("[billing] rejected webhook:", error.message);
+        return res.status(400).json({ error: "Invalid webhook signature" });
+      }
+      console.error("[billing] webhook verification error:", error);
+      return res.status(500).json({ error: error.message || "Failed to verify webhook" });
+    }
+
+    try {
+      const { store } = await getStore();
+      const subscription = await applyBillingEvent(event, store);
+      console.log(
+        `[billing] ${event.type} ${event.data.subscriptionId}` +
+          (subscription ? ` -> user=${subscription.userId} ${subscription.plan} ${subscription.status}` : " (no matching subscription)")
+      );
+      res.json({ received: true });
+    } catch (error: any) {
+      console.error(`[billing] ${event.type} ${event.id} failed:`, error);
+      res.status(422).json({ error: error.message || "Failed to apply billing event" });
     }
   });
 
   // POST /api/analyze -> Select model/depth based on plan, support FREE trial one PRO analysis/day
-  app.post("/api/analyze", async (req, res) => {
+  // An explicit model must belong to the caller's plan (or one below it)
+  app.post("/api/analyze", requirePlan((req) => (req.body?.model ? planForModel(String(req.body.model)) : null)), async (req, res) => {
     const body = req.body || {};
     const fen = body.fen;
-    if (!fen) {
+    if (typeof fen !== "string" || !fen) {
       return res.status(400).json({ error: "Missing FEN" });
     }
+    try {
+      assertValidFen(fen);
+    } catch (error: any) {
+      return res.status(400).json({ error: "Invalid FEN", details: error.message });
+    }
+    const depthResult = z.coerce.number().int().min(1).max(24).optional().safeParse(body.depth ?? undefined);
+    if (!depthResult.success) {
+      return res.status(400).json({ error: "Invalid depth", details: depthResult.error.errors });
+    }
+    const explicitDepth = depthResult.data;
+    if (body.model && !planForModel(String(body.model))) {
+      return res.status(400).json({ error: `Unknown model "${body.model}"` });
+    }
 
     // Determine client / plan
-    const planQuery = (req.query.plan as string) || process.env.DEFAULT_PLAN || 'FREE';
-    const plan = String(planQuery).toLowerCase() === 'pro' ? 'pro' : (String(planQuery).toLowerCase() === 'elite' ? 'elite' : 'free');
+    const plan = resolvePlanFromReq(req);
 
-    const clientId = getClientId(req);
-    const today = getTodayKey();
+    const clientId = quotaSubject(req);
 
     // Concurrency limits
     const limits = {
@@ -831,13 +1841,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     concurrentMap.set(clientId, currentConcurrent + 1);
 
     try {
-      // Read trial store
-      const store = await readJsonFileSafe(TRIAL_STORE_PATH);
-      // entry shape: { date: YYYY-MM-DD, used: boolean, usedAt: ISOString, usedCount: number }
-      const entry = store[clientId] || { date: null, used: false, usedAt: null, usedCount: 0 };
-
-      const trialEnabled = (process.env.TRIAL_ENABLED || 'true') === 'true';
-      const trialDurationMin = parseInt(process.env.TRIAL_DURATION_MIN || '3', 10);
+      const { store } = await getStore();
+      const rules = getQuotaRules();
       const trialModel = process.env.TRIAL_MODEL || process.env.MODEL_PRO || 'gemini-2.5-flash';
       const trialDepth = parseInt(process.env.TRIAL_ENGINE_DEPTH || String(process.env.ENGINE_DEPTH_PRO || '22'), 10);
 
@@ -848,21 +1853,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       // Decide requested depth: body.depth or plan default
-      const requestedDepth = body.depth ? Number(body.depth) : engineDepths[plan as keyof typeof engineDepths];
-      const isProDepthRequested = requestedDepth > engineDepths.free;
+      const requestedDepth = explicitDepth ?? engineDepths[plan as keyof typeof engineDepths];
+      const requiredPlan = planForDepth(requestedDepth);
 
-      // Check trial eligibility for FREE requesting PRO depth
-      // RULE: FREE users get at most ONE PRO analysis per day (trial). Duration window also exists,
-      // but the trial is consumed by a single PRO analysis (3 minutes or 1 analysis, whichever first).
+      // FREE requesting PRO depth runs on the trial: TRIAL_ANALYSES_PER_DAY analyses inside the
+      // TRIAL_DURATION_MIN window, whichever runs out first. Taken up front (atomically) so two
+      // concurrent requests can't both use the last one; given back if the engine fails.
       let usingTrial = false;
-      if (plan === 'free' && trialEnabled && isProDepthRequested) {
-        if (entry.date !== today || !entry.used) {
-          // Not used today -> allow ONE trial analysis
-          usingTrial = true;
-        } else {
-          // Already consumed trial today -> deny immediately
+      if (plan === 'free' && rules.trialEnabled && requiredPlan === 'pro') {
+        if (!(await consumeTrialAnalysis(clientId, store, rules))) {
           return res.status(402).json({ reason: "TRIAL_ENDED", message: "Trial used for today. Upgrade to PRO to continue." });
         }
+        usingTrial = true;
+      } else if (!planAtLeast(plan, requiredPlan)) {
+        return upgradeRequired(res, requiredPlan, plan);
       }
 
       // Select model and depth
@@ -883,27 +1887,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else if (body.model) {
         model = body.model;
       }
-      // If body.depth explicitly provided, override (but still subject to trial checks)
-      if (body.depth) {
-        depth = Number(body.depth);
+      // An explicit depth overrides, capped at what the plan (or the trial) allows
+      if (explicitDepth !== undefined) {
+        depth = Math.min(explicitDepth, usingTrial ? trialDepth : PLAN_CONFIGS[plan].engineDepth);
       }
 
       // Telemetry: note one stockfish call
-      await incrementUsage(clientId, { stockfishCalls: 1 });
+      await recordUsage(clientId, { stockfishCalls: 1 }, store);
 
       // Perform the engine evaluation (use existing helper)
-      const evaluation = await getStockfishEvaluation(fen, depth);
-
-      // If using trial, mark trial as used (store usedAt and increment usedCount)
-      if (usingTrial) {
-        const prev = store[clientId] || {};
-        store[clientId] = { 
-          date: today, 
-          used: true, 
-          usedAt: new Date().toISOString(),
-          usedCount: (prev.usedCount ? Number(prev.usedCount) + 1 : 1)
-        };
-        await writeJsonFileSafe(TRIAL_STORE_PATH, store);
+      let evaluation;
+      try {
+        evaluation = await getStockfishEvaluation(fen, depth, 1, { plan, clientId });
+      } catch (engineError) {
+        if (usingTrial) await refundTrialAnalysis(clientId, store);
+        throw engineError;
       }
 
       res.json({
@@ -1,5 +1,6 @@
-import { type Game, type InsertGame, type MoveAnalysis, type InsertMoveAnalysis, type UserSettings, type InsertUserSettings, type Puzzle, type InsertPuzzle, type PuzzleAttempt, type InsertPuzzleAttempt, games, moveAnalyses, userSettings, puzzles, puzzleAttempts } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { type Game, type InsertGame, type User, type InsertUser, type Session, type InsertSession, type Subscription, type InsertSubscription, type QuotaUsage, type MoveAnalysis, type InsertMoveAnalysis, type UserSettings, type InsertUserSettings, type Puzzle, type InsertPuzzle, type PuzzleAttempt, type InsertPuzzleAttempt, type ProgressStat, type InsertProgressStat, type PositionEvaluation, type InsertPositionEvaluation, type Repertoire, type InsertRepertoire, type RepertoireNode, type InsertRepertoireNode, games, users, sessions, subscriptions, quotaUsage, moveAnalyses, userSettings, puzzles, puzzleAttempts, progressStats, positionEvaluations, repertoires, repertoireNodes } from "@shared/schema";
+import { eq, ne, and, or, isNull, inArray, notExists, ilike, gte, lte, desc, arrayContains, sql, type SQL } from "drizzle-orm";
+import type { GameFilters, QuotaMetric } from "@shared/types";
 
 /**
  * Lazily import the DB module at runtime so the server can start even if
@@ -15,40 +16,112 @@ const getDb = async () => {
 };
 
 export interface IStorage {
-  // Game storage
-  getGame(id: number): Promise<Game | undefined>;
+  // Game storage (scoped to the owning user)
+  getGame(id: number, userId: number): Promise<Game | undefined>;
   createGame(game: InsertGame): Promise<Game>;
-  getAllGames(): Promise<Game[]>;
+  getAllGames(userId: number): Promise<Game[]>;
+  searchGames(userId: number, filters: GameFilters): Promise<{ games: Game[]; total: number }>;
+  createGames(games: InsertGame[]): Promise<Game[]>;
+  getGamesByHeaderHash(userId: number, hashes: string[]): Promise<Game[]>;
+  updateGame(id: number, userId: number, updates: Partial<InsertGame>): Promise<Game | undefined>;
+  deleteGame(id: number, userId: number): Promise<void>;
   
   // Move analysis cache (for performance)
   getMoveAnalysis(gameId: number, moveNumber: number): Promise<MoveAnalysis | undefined>;
   saveMoveAnalysis(analysis: InsertMoveAnalysis): Promise<MoveAnalysis>;
   getGameAnalyses(gameId: number): Promise<MoveAnalysis[]>;
+  deleteGameAnalyses(gameId: number): Promise<void>;
   
+  // Users
+  getUsers(): Promise<User[]>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
+  // Rows saved before accounts existed (userId null) go to `userId`
+  claimUnownedData(userId: number): Promise<void>;
+
+  // Login sessions
+  createSession(session: InsertSession): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  deleteSession(id: string): Promise<void>;
+
+  // Plan subscriptions (one row per user)
+  getSubscription(userId: number): Promise<Subscription | undefined>;
+  getSubscriptions(): Promise<Subscription[]>;
+  getSubscriptionByBillingId(billingSubscriptionId: string): Promise<Subscription | undefined>;
+  saveSubscription(subscription: InsertSubscription): Promise<Subscription>;
+
+  // Daily quota counters, keyed by subject (user:<id> / ip:<address>) and day
+  getQuotaUsage(subject: string, day: string): Promise<QuotaUsage | undefined>;
+  // Adds `amounts` atomically. With `limit`, refuses (returns undefined) when
+  // that counter would go over `max`.
+  addQuotaUsage(
+    subject: string,
+    day: string,
+    amounts: Partial<Record<QuotaMetric, number>>,
+    limit?: { metric: QuotaMetric; max: number }
+  ): Promise<QuotaUsage | undefined>;
+
   // User settings
-  getSettings(): Promise<UserSettings | undefined>;
-  updateSettings(settings: Partial<InsertUserSettings>): Promise<UserSettings>;
+  getSettings(userId: number): Promise<UserSettings | undefined>;
+  updateSettings(userId: number, settings: Partial<InsertUserSettings>): Promise<UserSettings>;
   
   // Puzzles
-  getAllPuzzles(filters?: { minRating?: number; maxRating?: number; themes?: string[] }): Promise<Puzzle[]>;
+  getAllPuzzles(filters?: { minRating?: number; maxRating?: number; themes?: string[]; userId?: number }): Promise<Puzzle[]>; // Shared puzzles plus userId's own-game ones
+  // Up to `limit` puzzles visible to userId, nearest to `rating` first (unrated ones count as 1500);
+  // `unattempted` leaves out those the user has already tried
+  getPuzzlesNearRating(
+    userId: number,
+    rating: number,
+    options: { limit: number; themes?: string[]; excludeId?: number; unattempted?: boolean }
+  ): Promise<Puzzle[]>;
   getPuzzle(id: number): Promise<Puzzle | undefined>;
   createPuzzle(puzzle: InsertPuzzle): Promise<Puzzle>;
+  createPuzzles(puzzles: InsertPuzzle[]): Promise<Puzzle[]>;
+  getPuzzlesByExternalId(source: string, externalIds: string[]): Promise<Puzzle[]>;
+  updatePuzzle(id: number, updates: Partial<InsertPuzzle>): Promise<Puzzle | undefined>;
   
-  // Puzzle attempts
+  // Puzzle attempts (scoped to the user)
   createPuzzleAttempt(attempt: InsertPuzzleAttempt): Promise<PuzzleAttempt>;
-  getPuzzleAttempts(puzzleId: number): Promise<PuzzleAttempt[]>;
-  getAllPuzzleAttempts(): Promise<PuzzleAttempt[]>;
-  getPuzzleStats(): Promise<{
+  getPuzzleAttempts(puzzleId: number, userId: number): Promise<PuzzleAttempt[]>;
+  getAllPuzzleAttempts(userId: number): Promise<PuzzleAttempt[]>;
+  getPuzzleStats(userId: number): Promise<{
     totalAttempts: number;
     totalSolved: number;
     successRate: number;
     averageTime: number;
   }>;
+
+  // Progress history (e.g. statType "puzzle_rating"), oldest first
+  createProgressStat(stat: InsertProgressStat): Promise<ProgressStat>;
+  getProgressStats(userId: number, statType: string): Promise<ProgressStat[]>;
+
+  // Engine evaluation cache (keyed by normalized FEN and engine). Saving keeps
+  // the stored entry when it is deeper, or as deep with more lines
+  getPositionEvaluation(fen: string, engine: string): Promise<PositionEvaluation | undefined>;
+  savePositionEvaluation(evaluation: InsertPositionEvaluation): Promise<PositionEvaluation>;
+
+  // Opening repertoires (scoped to the owning user; nodes are reached through their repertoire)
+  getRepertoires(userId: number): Promise<Repertoire[]>;
+  getRepertoire(id: number, userId: number): Promise<Repertoire | undefined>;
+  createRepertoire(repertoire: InsertRepertoire): Promise<Repertoire>;
+  updateRepertoire(id: number, userId: number, updates: Partial<InsertRepertoire>): Promise<Repertoire | undefined>;
+  deleteRepertoire(id: number, userId: number): Promise<void>;
+  getRepertoireNodes(repertoireId: number): Promise<RepertoireNode[]>;
+  getRepertoireNode(id: number): Promise<RepertoireNode | undefined>;
+  createRepertoireNode(node: InsertRepertoireNode): Promise<RepertoireNode>;
+  updateRepertoireNode(id: number, updates: Partial<InsertRepertoireNode>): Promise<RepertoireNode | undefined>;
+  deleteRepertoireNodes(ids: number[]): Promise<void>;
 }
 
 export class DbStorage implements IStorage {
-  async getGame(id: number): Promise<Game | undefined> {
-    const result = await (await getDb()).select().from(games).where(eq(games.id, id)).limit(1);
+  async getGame(id: number, userId: number): Promise<Game | undefined> {
+    const result = await (await getDb())
+      .select()
+      .from(games)
+      .where(and(eq(games.id, id), eq(games.userId, userId)))
+      .limit(1);
     return result[0];
   }
 
@@ -57,8 +130,178 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async getAllGames(): Promise<Game[]> {
-    return await (await getDb()).select().from(games).orderBy(games.createdAt);
+  async getAllGames(userId: number): Promise<Game[]> {
+    return await (await getDb()).select().from(games).where(eq(games.userId, userId)).orderBy(games.createdAt);
+  }
+
+  async searchGames(userId: number, filters: GameFilters): Promise<{ games: Game[]; total: number }> {
+    const like = (value: string) => `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+    const conditions: SQL[] = [eq(games.userId, userId)];
+
+    if (filters.q) {
+      const q = like(filters.q);
+      conditions.push(or(
+        ilike(games.white, q), ilike(games.black, q), ilike(games.event, q), ilike(games.site, q),
+        ilike(games.opening, q), ilike(games.eco, q), ilike(games.collection, q), ilike(games.pgn, q),
+      )!);
+    }
+    if (filters.player) conditions.push(or(ilike(games.white, like(filters.player)), ilike(games.black, like(filters.player)))!);
+    if (filters.event) conditions.push(ilike(games.event, like(filters.event)));
+    if (filters.result) conditions.push(eq(games.result, filters.result));
+    if (filters.eco) conditions.push(ilike(games.eco, `${filters.eco}%`));
+    if (filters.collection) conditions.push(eq(games.collection, filters.collection));
+    if (filters.tag) conditions.push(arrayContains(games.tags, [filters.tag]));
+    if (filters.dateFrom) conditions.push(gte(games.date, filters.dateFrom));
+    if (filters.dateTo) conditions.push(lte(games.date, filters.dateTo));
+
+    const where = and(...conditions);
+    const db = await getDb();
+    const [rows, counted] = await Promise.all([
+      db.select().from(games).where(where)
+        .orderBy(desc(games.createdAt), desc(games.id))
+        .limit(filters.limit ?? 50)
+        .offset(filters.offset ?? 0),
+      db.select({ total: sql<number>`count(*)::int` }).from(games).where(where),
+    ]);
+    return { games: rows, total: counted[0]?.total ?? 0 };
+  }
+
+  async createGames(insertGames: InsertGame[]): Promise<Game[]> {
+    if (insertGames.length === 0) return [];
+    return await (await getDb()).insert(games).values(insertGames).returning();
+  }
+
+  async getGamesByHeaderHash(userId: number, hashes: string[]): Promise<Game[]> {
+    if (hashes.length === 0) return [];
+    return await (await getDb())
+      .select()
+      .from(games)
+      .where(and(eq(games.userId, userId), inArray(games.headerHash, hashes)));
+  }
+
+  async updateGame(id: number, userId: number, updates: Partial<InsertGame>): Promise<Game | undefined> {
+    const result = await (await getDb())
+      .update(games)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(games.id, id), eq(games.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteGame(id: number, userId: number): Promise<void> {
+    // moveAnalyses and training sessions go with it (ON DELETE CASCADE)
+    await (await getDb()).delete(games).where(and(eq(games.id, id), eq(games.userId, userId)));
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await (await getDb()).select().from(users).orderBy(users.id);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const result = await (await getDb()).select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await (await getDb()).select().from(users).where(eq(users.username, username)).limit(1);
+    return result[0];
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const result = await (await getDb()).insert(users).values(user).returning();
+    return result[0];
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const result = await (await getDb()).update(users).set(updates).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  async claimUnownedData(userId: number): Promise<void> {
+    const db = await getDb();
+    await db.update(games).set({ userId }).where(isNull(games.userId));
+    await db.update(puzzleAttempts).set({ userId }).where(isNull(puzzleAttempts.userId));
+    await db.update(userSettings).set({ userId }).where(isNull(userSettings.userId));
+    await db.update(repertoires).set({ userId }).where(isNull(repertoires.userId));
+  }
+
+  async createSession(session: InsertSession): Promise<Session> {
+    const result = await (await getDb()).insert(sessions).values(session).returning();
+    return result[0];
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const result = await (await getDb()).select().from(sessions).where(eq(sessions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await (await getDb()).delete(sessions).where(eq(sessions.id, id));
+  }
+
+  async getSubscription(userId: number): Promise<Subscription | undefined> {
+    const result = await (await getDb()).select().from(subscriptions).where(eq(subscriptions.userId, userId)).limit(1);
+    return result[0];
+  }
+
+  async getSubscriptions(): Promise<Subscription[]> {
+    return await (await getDb()).select().from(subscriptions).orderBy(desc(subscriptions.updatedAt));
+  }
+
+  async getSubscriptionByBillingId(billingSubscriptionId: string): Promise<Subscription | undefined> {
+    const result = await (await getDb())
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.billingSubscriptionId, billingSubscriptionId))
+      .limit(1);
+    return result[0];
+  }
+
+  async saveSubscription(subscription: InsertSubscription): Promise<Subscription> {
+    const result = await (await getDb())
+      .insert(subscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({ target: subscriptions.userId, set: { ...subscription, updatedAt: new Date() } })
+      .returning();
+    return result[0];
+  }
+
+  async getQuotaUsage(subject: string, day: string): Promise<QuotaUsage | undefined> {
+    const result = await (await getDb()).select().from(quotaUsage).where(eq(quotaUsage.key, `${day}|${subject}`)).limit(1);
+    return result[0];
+  }
+
+  async addQuotaUsage(
+    subject: string,
+    day: string,
+    amounts: Partial<Record<QuotaMetric, number>>,
+    limit?: { metric: QuotaMetric; max: number }
+  ): Promise<QuotaUsage | undefined> {
+    if (limit && (amounts[limit.metric] || 0) > limit.max) return undefined;
+
+    // Single INSERT .. ON CONFLICT statement, so concurrent requests can't both pass the limit
+    const set: Record<string, SQL | Date> = { updatedAt: new Date() };
+    (Object.keys(amounts) as QuotaMetric[]).forEach((metric) => {
+      set[metric] = sql`${quotaUsage[metric]} + ${amounts[metric] || 0}`;
+    });
+    if (amounts.trialAnalyses) set.trialStartedAt = sql`coalesce(${quotaUsage.trialStartedAt}, now())`;
+
+    const result = await (await getDb())
+      .insert(quotaUsage)
+      .values({
+        key: `${day}|${subject}`,
+        subject,
+        day,
+        ...amounts,
+        trialStartedAt: amounts.trialAnalyses ? new Date() : null,
+      })
+      .onConflictDoUpdate({
+        target: quotaUsage.key,
+        set,
+        setWhere: limit ? sql`${quotaUsage[limit.metric]} + ${amounts[limit.metric] || 0} <= ${limit.max}` : undefined,
+      })
+      .returning();
+    return result[0];
   }
 
   async getMoveAnalysis(gameId: number, moveNumber: number): Promise<MoveAnalysis | undefined> {
@@ -83,15 +326,110 @@ export class DbStorage implements IStorage {
       .orderBy(moveAnalyses.moveNumber);
   }
 
-  async getSettings(): Promise<UserSettings | undefined> {
-    // Get the first settings record (global settings for now)
-    const result = await (await getDb()).select().from(userSettings).limit(1);
+  async deleteGameAnalyses(gameId: number): Promise<void> {
+    await (await getDb()).delete(moveAnalyses).where(eq(moveAnalyses.gameId, gameId));
+  }
+
+  async getPositionEvaluation(fen: string, engine: string): Promise<PositionEvaluation | undefined> {
+    const result = await (await getDb())
+      .select()
+      .from(positionEvaluations)
+      .where(and(eq(positionEvaluations.fen, fen), eq(positionEvaluations.engine, engine)))
+      .limit(1);
+    return result[0];
+  }
+
+  async savePositionEvaluation(evaluation: InsertPositionEvaluation): Promise<PositionEvaluation> {
+    const multiPv = evaluation.multiPv ?? 1;
+    // Same statement decides, so a concurrent shallow save can't win over a deeper one
+    const result = await (await getDb())
+      .insert(positionEvaluations)
+      .values(evaluation)
+      .onConflictDoUpdate({
+        target: [positionEvaluations.fen, positionEvaluations.engine],
+        set: { ...evaluation, updatedAt: new Date() },
+        setWhere: sql`${positionEvaluations.depth} < ${evaluation.depth} or (${positionEvaluations.depth} = ${evaluation.depth} and ${positionEvaluations.multiPv} <= ${multiPv})`,
+      })
+      .returning();
+    return result[0] ?? (await this.getPositionEvaluation(evaluation.fen, evaluation.engine ?? ""))!;
+  }
+
+  async getRepertoires(userId: number): Promise<Repertoire[]> {
+    return await (await getDb())
+      .select()
+      .from(repertoires)
+      .where(eq(repertoires.userId, userId))
+      .orderBy(repertoires.createdAt);
+  }
+
+  async getRepertoire(id: number, userId: number): Promise<Repertoire | undefined> {
+    const result = await (await getDb())
+      .select()
+      .from(repertoires)
+      .where(and(eq(repertoires.id, id), eq(repertoires.userId, userId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createRepertoire(repertoire: InsertRepertoire): Promise<Repertoire> {
+    const result = await (await getDb()).insert(repertoires).values(repertoire).returning();
+    return result[0];
+  }
+
+  async updateRepertoire(id: number, userId: number, updates: Partial<InsertRepertoire>): Promise<Repertoire | undefined> {
+    const result = await (await getDb())
+      .update(repertoires)
+      .set(updates)
+      .where(and(eq(repertoires.id, id), eq(repertoires.userId, userId)))
+      .returning();
     return result[0];
   }
 
-  async updateSettings(settings: Partial<InsertUserSettings>): Promise<UserSettings> {
+  async deleteRepertoire(id: number, userId: number): Promise<void> {
+    // Its nodes go with it (ON DELETE CASCADE)
+    await (await getDb()).delete(repertoires).where(and(eq(repertoires.id, id), eq(repertoires.userId, userId)));
+  }
+
+  async getRepertoireNodes(repertoireId: number): Promise<RepertoireNode[]> {
+    return await (await getDb())
+      .select()
+      .from(repertoireNodes)
+      .where(eq(repertoireNodes.repertoireId, repertoireId))
+      .orderBy(repertoireNodes.id);
+  }
+
+  async getRepertoireNode(id: number): Promise<RepertoireNode | undefined> {
+    const result = await (await getDb()).select().from(repertoireNodes).where(eq(repertoireNodes.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createRepertoireNode(node: InsertRepertoireNode): Promise<RepertoireNode> {
+    const result = await (await getDb()).insert(repertoireNodes).values(node).returning();
+    return result[0];
+  }
+
+  async updateRepertoireNode(id: number, updates: Partial<InsertRepertoireNode>): Promise<RepertoireNode | undefined> {
+    const result = await (await getDb())
+      .update(repertoireNodes)
+      .set(updates)
+      .where(eq(repertoireNodes.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteRepertoireNodes(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await (await getDb()).delete(repertoireNodes).where(inArray(repertoireNodes.id, ids));
+  }
+
+  async getSettings(userId: number): Promise<UserSettings | undefined> {
+    const result = await (await getDb()).select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1);
+    return result[0];
+  }
+
+  async updateSettings(userId: number, settings: Partial<InsertUserSettings>): Promise<UserSettings> {
     // Check if settings exist
-    const existing = await this.getSettings();
+    const existing = await this.getSettings(userId);
     
     if (existing) {
       // Update existing settings
@@ -106,7 +444,7 @@ export class DbStorage implements IStorage {
       const result = await (await getDb())
         .insert(userSettings)
         .values({
-          userId: null,
+          userId,
           coachingStyle: settings.coachingStyle || "balanced",
           difficulty: settings.difficulty ?? 50,
           verbosity: settings.verbosity ?? 50,
@@ -117,9 +455,12 @@ export class DbStorage implements IStorage {
     }
   }
 
-  async getAllPuzzles(filters?: { minRating?: number; maxRating?: number; themes?: string[] }): Promise<Puzzle[]> {
-    // Get all puzzles
-    const allPuzzles = await (await getDb()).select().from(puzzles).orderBy(puzzles.rating);
+  async getAllPuzzles(filters?: { minRating?: number; maxRating?: number; themes?: string[]; userId?: number }): Promise<Puzzle[]> {
+    // Get all puzzles the user can see (own-game puzzles are private to their owner)
+    const owner = filters?.userId !== undefined
+      ? or(isNull(puzzles.userId), eq(puzzles.userId, filters.userId))
+      : isNull(puzzles.userId);
+    const allPuzzles = await (await getDb()).select().from(puzzles).where(owner).orderBy(puzzles.rating);
     
     // If no filters, return all
     if (!filters) {
@@ -143,6 +484,32 @@ export class DbStorage implements IStorage {
     });
   }
 
+  async getPuzzlesNearRating(
+    userId: number,
+    rating: number,
+    options: { limit: number; themes?: string[]; excludeId?: number; unattempted?: boolean }
+  ): Promise<Puzzle[]> {
+    const db = await getDb();
+    const conditions: SQL[] = [or(isNull(puzzles.userId), eq(puzzles.userId, userId))!];
+    if (options.themes?.length) conditions.push(inArray(puzzles.theme, options.themes));
+    if (options.excludeId !== undefined) conditions.push(ne(puzzles.id, options.excludeId));
+    if (options.unattempted) {
+      conditions.push(notExists(
+        db.select({ id: puzzleAttempts.id })
+          .from(puzzleAttempts)
+          .where(and(eq(puzzleAttempts.puzzleId, puzzles.id), eq(puzzleAttempts.userId, userId)))
+      ));
+    }
+
+    // The database keeps only the nearest `limit` rows, so this stays cheap on the full Lichess import
+    return await db
+      .select()
+      .from(puzzles)
+      .where(and(...conditions))
+      .orderBy(sql`abs(coalesce(${puzzles.rating}, 1500) - ${rating})`, puzzles.id)
+      .limit(options.limit);
+  }
+
   async getPuzzle(id: number): Promise<Puzzle | undefined> {
     const result = await (await getDb()).select().from(puzzles).where(eq(puzzles.id, id)).limit(1);
     return result[0];
@@ -153,33 +520,52 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async createPuzzles(insertPuzzles: InsertPuzzle[]): Promise<Puzzle[]> {
+    if (insertPuzzles.length === 0) return [];
+    return await (await getDb()).insert(puzzles).values(insertPuzzles).returning();
+  }
+
+  async getPuzzlesByExternalId(source: string, externalIds: string[]): Promise<Puzzle[]> {
+    if (externalIds.length === 0) return [];
+    return await (await getDb())
+      .select()
+      .from(puzzles)
+      .where(and(eq(puzzles.source, source), inArray(puzzles.externalId, externalIds)));
+  }
+
+  async updatePuzzle(id: number, updates: Partial<InsertPuzzle>): Promise<Puzzle | undefined> {
+    const result = await (await getDb()).update(puzzles).set(updates).where(eq(puzzles.id, id)).returning();
+    return result[0];
+  }
+
   async createPuzzleAttempt(attempt: InsertPuzzleAttempt): Promise<PuzzleAttempt> {
     const result = await (await getDb()).insert(puzzleAttempts).values(attempt).returning();
     return result[0];
   }
 
-  async getPuzzleAttempts(puzzleId: number): Promise<PuzzleAttempt[]> {
+  async getPuzzleAttempts(puzzleId: number, userId: number): Promise<PuzzleAttempt[]> {
     return await (await getDb())
       .select()
       .from(puzzleAttempts)
-      .where(eq(puzzleAttempts.puzzleId, puzzleId))
+      .where(and(eq(puzzleAttempts.puzzleId, puzzleId), eq(puzzleAttempts.userId, userId)))
       .orderBy(puzzleAttempts.attemptedAt);
   }
 
-  async getAllPuzzleAttempts(): Promise<PuzzleAttempt[]> {
+  async getAllPuzzleAttempts(userId: number): Promise<PuzzleAttempt[]> {
     return await (await getDb())
       .select()
       .from(puzzleAttempts)
+      .where(eq(puzzleAttempts.userId, userId))
       .orderBy(puzzleAttempts.attemptedAt);
   }
 
-  async getPuzzleStats(): Promise<{
+  async getPuzzleStats(userId: number): Promise<{
     totalAttempts: number;
     totalSolved: number;
     successRate: number;
     averageTime: number;
   }> {
-    const attempts = await this.getAllPuzzleAttempts();
+    const attempts = await this.getAllPuzzleAttempts(userId);
     
     const totalAttempts = attempts.length;
     const totalSolved = attempts.filter(a => a.solved === 1).length;
@@ -197,6 +583,19 @@ export class DbStorage implements IStorage {
       averageTime: Math.round(averageTime * 10) / 10,
     };
   }
+  async createProgressStat(stat: InsertProgressStat): Promise<ProgressStat> {
+    const result = await (await getDb()).insert(progressStats).values(stat).returning();
+    return result[0];
+  }
+
+  async getProgressStats(userId: number, statType: string): Promise<ProgressStat[]> {
+    return await (await getDb())
+      .select()
+      .from(progressStats)
+      .where(and(eq(progressStats.userId, userId), eq(progressStats.statType, statType)))
+      .orderBy(progressStats.recordedAt, progressStats.id);
+  }
+
 }
 
 export const storage = new DbStorage();
@@ -0,0 +1,433 @@
+// PGN reader shared by the server and the client. Handles multi-game files,
+// recursive variations, {comments}, `;` comments, $n NAGs and !?-style
+// suffixes, and the [%clk]/[%eval] comment commands. Moves are replayed with
+// chess.js so every move carries its UCI and resulting FEN; syntax errors and
+// illegal moves throw a PgnParseError with the line they were found on.
+
+import { Chess } from "chess.js";
+
+export const STANDARD_START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+export interface PgnEval {
+  score?: number; // Pawns, White's point of view
+  mate?: number;
+  depth?: number;
+}
+
+export interface PgnMove {
+  san: string;
+  uci: string;
+  fen: string; // Position after the move
+  moveNumber: number;
+  color: "w" | "b";
+  nags: number[];
+  comment?: string; // Comment after the move, without [%clk]/[%eval] commands
+  startingComment?: string; // Comment before the move (start of a game or variation)
+  clock?: string; // [%clk 0:03:21]
+  eval?: PgnEval; // [%eval 0.31] / [%eval #-4]
+  variations: PgnMove[][]; // Alternatives to this move
+  line: number;
+}
+
+export interface PgnGame {
+  headers: Record<string, string>;
+  startFen: string;
+  moves: PgnMove[]; // Main line
+  result: string; // "1-0", "0-1", "1/2-1/2" or "*"
+  line: number; // Where the game starts in the input
+}
+
+export class PgnParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = "PgnParseError";
+    this.line = line;
+  }
+}
+
+type TokenType = "tag" | "comment" | "open" | "close" | "nag" | "result" | "number" | "move";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  name?: string; // Tag name
+  line: number;
+  start: number; // Offsets into the input, for splitting
+  end: number;
+}
+
+const SUFFIX_NAGS: Record<string, number> = { "!": 1, "?": 2, "!!": 3, "??": 4, "!?": 5, "?!": 6 };
+const RESULTS = ["1-0", "0-1", "1/2-1/2", "*"];
+const DELIMITERS = " \t\r\n{}()[];$";
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const countLines = (from: number, to: number) => {
+    for (let j = from; j < to; j++) if (text[j] === "\n") line++;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === "\n") {
+      line++;
+      i++;
+    } else if (ch === " " || ch === "\t" || ch === "\r" || ch === "\ufeff") {
+      i++;
+    } else if (ch === "%" && (i === 0 || text[i - 1] === "\n")) {
+      // Escape mechanism: the whole line is ignored
+      const eol = text.indexOf("\n", i);
+      i = eol === -1 ? text.length : eol;
+    } else if (ch === ";") {
+      const eol = text.indexOf("\n", i);
+      const end = eol === -1 ? text.length : eol;
+      tokens.push({ type: "comment", value: text.slice(i + 1, end).trim(), line, start: i, end });
+      i = end;
+    } else if (ch === "{") {
+      const close = text.indexOf("}", i + 1);
+      if (close === -1) throw new PgnParseError("Unterminated comment", line);
+      tokens.push({ type: "comment", value: text.slice(i + 1, close).trim(), line, start: i, end: close + 1 });
+      countLines(i, close);
+      i = close + 1;
+    } else if (ch === "[") {
+      const eol = text.indexOf("\n", i);
+      const rest = text.slice(i, eol === -1 ? text.length : eol);
+      const match = rest.match(/^\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]/);
+      if (!match) throw new PgnParseError(`Malformed tag pair: ${rest.trim()}`, line);
+      const value = match[2].replace(/\\(["\\])/g, "$1");
+      tokens.push({ type: "tag", name: match[1], value, line, start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ type: ch === "(" ? "open" : "close", value: ch, line, start: i, end: i + 1 });
+      i++;
+    } else if (ch === "$") {
+      const digits = text.slice(i + 1).match(/^\d+/);
+      if (!digits) throw new PgnParseError("Malformed NAG", line);
+      tokens.push({ type: "nag", value: digits[0], line, start: i, end: i + 1 + digits[0].length });
+      i += 1 + digits[0].length;
+    } else if (ch === "}" || ch === "]") {
+      throw new PgnParseError(`Unexpected "${ch}"`, line);
+    } else {
+      let end = i;
+      while (end < text.length && DELIMITERS.indexOf(text[end]) === -1) end++;
+      pushWord(tokens, text.slice(i, end), line, i, end);
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+// A symbol: move number, result, or SAN with optional !? suffix (possibly glued together: "1.e4!")
+function pushWord(tokens: Token[], word: string, line: number, start: number, end: number) {
+  const result = word === "½-½" ? "1/2-1/2" : word;
+  if (RESULTS.indexOf(result) !== -1) {
+    tokens.push({ type: "result", value: result, line, start, end });
+    return;
+  }
+
+  const number = word.match(/^(\d+)?\.*/)![0];
+  if (number) tokens.push({ type: "number", value: number, line, start, end: start + number.length });
+  let rest = word.slice(number.length);
+  if (rest === "") return;
+
+  const suffix = rest.match(/[!?]+$/);
+  if (suffix) rest = rest.slice(0, -suffix[0].length);
+  if (!/^[A-Za-z0-9+#=:\-]+$/.test(rest)) {
+    throw new PgnParseError(`Unexpected token "${word}"`, line);
+  }
+
+  tokens.push({ type: "move", value: rest.replace(/0-0-0/, "O-O-O").replace(/0-0/, "O-O"), line, start, end });
+  if (suffix) {
+    const nag = SUFFIX_NAGS[suffix[0]];
+    if (nag === undefined) throw new PgnParseError(`Unknown annotation "${suffix[0]}"`, line);
+    tokens.push({ type: "nag", value: String(nag), line, start, end });
+  }
+}
+
+// Pulls [%clk] and [%eval] out of a comment; other commands stay in the text
+function parseCommentCommands(raw: string): { text: string; clock?: string; eval?: PgnEval } {
+  let clock: string | undefined;
+  let evaluation: PgnEval | undefined;
+
+  const text = raw
+    .replace(/\[%clk\s+([^\]\s]+)\s*\]/g, (_m, value: string) => {
+      clock = value;
+      return "";
+    })
+    .replace(/\[%eval\s+([^\]\s,]+)(?:,(\d+))?\s*\]/g, (_m, value: string, depth?: string) => {
+      evaluation = value.startsWith("#")
+        ? { mate: parseInt(value.slice(1), 10) }
+        : { score: parseFloat(value) };
+      if (depth) evaluation.depth = parseInt(depth, 10);
+      return "";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return { text, clock, eval: evaluation };
+}
+
+function joinComments(existing: string | undefined, text: string): string {
+  return existing ? `${existing} ${text}` : text;
+}
+
+interface Frame {
+  chess: Chess;
+  moves: PgnMove[];
+  fensBefore: string[]; // Position before each move, where its variations start
+  parent?: PgnMove; // The move this frame is a variation of
+  pendingComment?: string; // Comment seen before the frame's next move
+}
+
+function startFenFor(headers: Record<string, string>, line: number): string {
+  if (!headers.FEN) return STANDARD_START_FEN;
+  try {
+    new Chess(headers.FEN);
+  } catch (error: any) {
+    throw new PgnParseError(`Invalid FEN header: ${error.message}`, line);
+  }
+  return headers.FEN;
+}
+
+function newFrame(fen: string, parent?: PgnMove): Frame {
+  return { chess: new Chess(fen), moves: [], fensBefore: [], parent };
+}
+
+/**
+ * Parse every game in `text`. Games may be separated by a result token or by
+ * the next tag section; a missing [Event] tag or headers are fine.
+ */
+export function parsePgn(text: string): PgnGame[] {
+  const tokens = tokenize(text);
+  const games: PgnGame[] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    const first = tokens[i];
+    const headers: Record<string, string> = {};
+    while (i < tokens.length && tokens[i].type === "tag") {
+      headers[tokens[i].name!] = tokens[i].value;
+      i++;
+    }
+
+    const startFen = startFenFor(headers, first.line);
+    const stack: Frame[] = [newFrame(startFen)];
+    let result: string | undefined;
+
+    for (; i < tokens.length; i++) {
+      const token = tokens[i];
+      const frame = stack[stack.length - 1];
+      const last = frame.moves[frame.moves.length - 1];
+
+      if (token.type === "tag") break; // Next game's headers
+      if (token.type === "result") {
+        if (stack.length > 1) throw new PgnParseError("Unclosed variation before result", token.line);
+        result = token.value;
+        i++;
+        break;
+      }
+
+      if (token.type === "number") {
+        continue; // Move numbers are recomputed from the position
+      } else if (token.type === "comment") {
+        const { text: comment, clock, eval: evaluation } = parseCommentCommands(token.value);
+        if (!last) {
+          if (comment) frame.pendingComment = joinComments(frame.pendingComment, comment);
+          continue;
+        }
+        if (comment) last.comment = joinComments(last.comment, comment);
+        if (clock) last.clock = clock;
+        if (evaluation) last.eval = evaluation;
+      } else if (token.type === "nag") {
+        if (last) last.nags.push(parseInt(token.value, 10));
+      } else if (token.type === "open") {
+        if (!last) throw new PgnParseError("Variation before any move", token.line);
+        stack.push(newFrame(frame.fensBefore[frame.fensBefore.length - 1], last));
+      } else if (token.type === "close") {
+        if (stack.length === 1) throw new PgnParseError('Unmatched ")"', token.line);
+        stack.pop();
+        if (frame.moves.length > 0) frame.parent!.variations.push(frame.moves);
+      } else {
+        const fenBefore = frame.chess.fen();
+        let played;
+        try {
+          played = frame.chess.move(token.value);
+        } catch {
+          played = null;
+        }
+        if (!played) throw new PgnParseError(`Illegal move "${token.value}"`, token.line);
+
+        const move: PgnMove = {
+          san: played.san,
+          uci: played.from + played.to + (played.promotion || ""),
+          fen: frame.chess.fen(),
+          moveNumber: parseInt(fenBefore.split(" ")[5], 10) || 1,
+          color: played.color,
+          nags: [],
+          variations: [],
+          line: token.line,
+        };
+        if (frame.pendingComment) {
+          move.startingComment = frame.pendingComment;
+          frame.pendingComment = undefined;
+        }
+        frame.moves.push(move);
+        frame.fensBefore.push(fenBefore);
+      }
+    }
+
+    if (stack.length > 1) {
+      throw new PgnParseError("Unclosed variation at end of game", tokens[i - 1].line);
+    }
+    if (Object.keys(headers).length === 0 && stack[0].moves.length === 0 && !result) continue; // Stray comment
+
+    games.push({
+      headers,
+      startFen,
+      moves: stack[0].moves,
+      result: result || headers.Result || "*",
+      line: first.line,
+    });
+  }
+
+  return games;
+}
+
+/**
+ * Split a multi-game file into the source text of each game, without
+ * replaying moves (an illegal move only breaks its own game).
+ */
+export function splitPgn(text: string): string[] {
+  const tokens = tokenize(text);
+  const games: string[] = [];
+  let start = -1;
+  let inMovetext = false;
+  let hasContent = false; // Tags or moves, not just a stray comment
+
+  const close = (end: number) => {
+    if (start !== -1 && hasContent) games.push(text.slice(start, end).trim());
+    start = -1;
+    inMovetext = false;
+    hasContent = false;
+  };
+
+  tokens.forEach((token, index) => {
+    if (token.type === "tag" && inMovetext) close(token.start);
+    if (start === -1) start = token.start;
+    if (token.type !== "tag") inMovetext = true;
+    if (token.type === "tag" || token.type === "move" || token.type === "result") hasContent = true;
+    if (token.type === "result") close(token.end);
+    if (index === tokens.length - 1) close(token.end);
+  });
+
+  return games;
+}
+
+/**
+ * Tag pairs of the first game. Only the tag section is read, so broken
+ * movetext doesn't prevent showing who played.
+ */
+export function readPgnHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("%")) {
+      if (Object.keys(headers).length > 0 && line === "") break;
+      continue;
+    }
+    const match = line.match(/^\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]$/);
+    if (!match) break;
+    headers[match[1]] = match[2].replace(/\\(["\\])/g, "$1");
+  }
+  return headers;
+}
+
+// Seven Tag Roster first, in the standard order; other tags follow as given
+const ROSTER = ["Event", "Site", "Date", "Round", "White", "Black", "Result"];
+const ROSTER_DEFAULTS: Record<string, string> = { Event: "?", Site: "?", Date: "????.??.??", Round: "?", White: "?", Black: "?" };
+const MAX_LINE_LENGTH = 80;
+
+function escapeTag(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function formatEval(evaluation: PgnEval): string {
+  const value = evaluation.mate !== undefined ? `#${evaluation.mate}` : (evaluation.score ?? 0).toFixed(2);
+  return evaluation.depth !== undefined ? `${value},${evaluation.depth}` : value;
+}
+
+// Braces can't be escaped inside a PGN comment
+function commentToken(text: string): string {
+  return `{${text.replace(/{/g, "(").replace(/}/g, ")")}}`;
+}
+
+function moveTokens(moves: PgnMove[], tokens: string[]) {
+  moves.forEach((move, index) => {
+    if (move.startingComment) tokens.push(commentToken(move.startingComment));
+    // Black's moves need "N..." at the start of a line and after anything that interrupts it
+    const previous = moves[index - 1];
+    const interrupted =
+      index === 0 || !!move.startingComment || !!previous.comment || !!previous.clock || !!previous.eval || previous.variations.length > 0;
+    if (move.color === "w") tokens.push(`${move.moveNumber}.`);
+    else if (interrupted) tokens.push(`${move.moveNumber}...`);
+
+    tokens.push(move.san);
+    move.nags.forEach((nag) => tokens.push(`$${nag}`));
+
+    const commands = [
+      move.clock ? `[%clk ${move.clock}]` : "",
+      move.eval ? `[%eval ${formatEval(move.eval)}]` : "",
+    ].filter(Boolean);
+    const comment = [...commands, move.comment || ""].filter(Boolean).join(" ");
+    if (comment) tokens.push(commentToken(comment));
+
+    move.variations.forEach((variation) => {
+      tokens.push("(");
+      moveTokens(variation, tokens);
+      tokens.push(")");
+    });
+  });
+}
+
+/**
+ * Serialize a game to export-format PGN: roster tags first, every variation,
+ * comments with their [%clk]/[%eval] commands, and NAGs as $n. `parsePgn`
+ * reads the output back to the same game.
+ */
+export function writePgn(game: PgnGame): string {
+  const headers: Record<string, string> = { ...ROSTER_DEFAULTS, ...game.headers, Result: game.result };
+  if (game.startFen !== STANDARD_START_FEN) {
+    delete headers.FEN; // SetUp goes first
+    headers.SetUp = "1";
+    headers.FEN = game.startFen;
+  }
+  const tagNames = ROSTER.concat(Object.keys(headers).filter((name) => ROSTER.indexOf(name) === -1));
+  const tagSection = tagNames.map((name) => `[${name} "${escapeTag(headers[name])}"]`).join("\n");
+
+  const tokens: string[] = [];
+  moveTokens(game.moves, tokens);
+  tokens.push(game.result);
+
+  // Wrap at 80 columns; "(" and ")" hug their neighbours
+  const lines: string[] = [];
+  let line = "";
+  tokens.forEach((token, index) => {
+    const glue = line === "" || tokens[index - 1] === "(" || token === ")" ? "" : " ";
+    if (line !== "" && line.length + glue.length + token.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line += glue + token;
+    }
+  });
+  lines.push(line);
+
+  return `${tagSection}\n\n${lines.join("\n")}\n`;
+}
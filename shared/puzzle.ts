@@ -0,0 +1,120 @@
+// Puzzle solution lines, shared by the server (import/validation) and the
+// puzzle board. `puzzles.solution` holds the whole line as space-separated
+// SAN or UCI moves ("Qxf7#", "e2e4 d7d5 e4d5"): the solver plays the even
+// plies and the opponent's forced replies are the odd plies in between.
+
+import { Chess, type Move } from "chess.js";
+
+const UCI_MOVE = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+export function parseSolution(solution: string): string[] {
+  return solution.trim().split(/\s+/).filter(Boolean);
+}
+
+function bareSan(san: string): string {
+  return san.replace(/[+#!?]+$/, "");
+}
+
+/**
+ * Whether `move` is the line's `expected` move (SAN, ignoring check marks and
+ * annotations, or UCI).
+ */
+export function moveMatches(move: Move, expected: string): boolean {
+  if (UCI_MOVE.test(expected)) return move.lan === expected;
+  return bareSan(move.san) === bareSan(expected);
+}
+
+/**
+ * Play one move of the line on `chess`; null when it isn't legal there.
+ */
+export function playSolutionMove(chess: Chess, notation: string): Move | null {
+  try {
+    if (UCI_MOVE.test(notation)) {
+      return chess.move({ from: notation.slice(0, 2), to: notation.slice(2, 4), promotion: notation[4] });
+    }
+    return chess.move(notation);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The line in SAN, e.g. for showing the solution. Throws if any move is
+ * illegal from `fen`, which is also how imports validate a line.
+ */
+export function solutionToSan(fen: string, solution: string): string[] {
+  const chess = new Chess(fen);
+  const line = parseSolution(solution);
+  if (line.length === 0) throw new Error("Empty solution");
+  return line.map((notation) => {
+    const move = playSolutionMove(chess, notation);
+    if (!move) throw new Error(`Illegal solution move "${notation}" in ${chess.fen()}`);
+    return move.san;
+  });
+}
+
+/**
+ * Number of moves the solver has to find.
+ */
+export function solverMoveCount(solution: string): number {
+  return Math.ceil(parseSolution(solution).length / 2);
+}
+
+export type PuzzleStep = "incorrect" | "continue" | "solved";
+
+/**
+ * Judge the solver's move at `ply` (an even index into `line`), with `move`
+ * already made on `chess`. Any checkmate solves the puzzle, so alternative
+ * mates are accepted; otherwise the move has to follow the line. "continue"
+ * means the opponent's reply, line[ply + 1], is next.
+ */
+export function checkPuzzleMove(chess: Chess, line: string[], ply: number, move: Move): PuzzleStep {
+  if (chess.isCheckmate()) return "solved";
+  if (!moveMatches(move, line[ply] ?? "")) return "incorrect";
+  return ply + 2 >= line.length ? "solved" : "continue";
+}
+
+export type TacticalMotif =
+  | "fork"
+  | "pin"
+  | "skewer"
+  | "discoveredAttack"
+  | "hangingPiece"
+  | "promotion"
+  | "backRankWeakness"
+  | "mate"
+  | "backRankMate"
+  | "smotheredMate";
+
+// Puzzle theme for each motif found by server/lib/tactics.ts ("mate" becomes
+// "Checkmate in 1" / "Mate in N", see mateTheme; a back-rank weakness is a
+// fact about the position, not a theme). Imports map onto the same names.
+export const MOTIF_THEMES: Record<Exclude<TacticalMotif, "mate" | "backRankWeakness">, string> = {
+  backRankMate: "Back rank mate",
+  smotheredMate: "Smothered mate",
+  fork: "Fork",
+  pin: "Pin",
+  skewer: "Skewer",
+  discoveredAttack: "Discovered attack",
+  promotion: "Promotion",
+  hangingPiece: "Material gain",
+};
+
+export function mateTheme(solverMoves: number): string {
+  return solverMoves <= 1 ? "Checkmate in 1" : solverMoves >= 5 ? "Mate in 5+" : `Mate in ${solverMoves}`;
+}
+
+// Theme filter on the puzzle page: the tagger's vocabulary, mates first
+export const PUZZLE_THEMES = [
+  mateTheme(1),
+  mateTheme(2),
+  mateTheme(3),
+  MOTIF_THEMES.backRankMate,
+  MOTIF_THEMES.smotheredMate,
+  MOTIF_THEMES.fork,
+  MOTIF_THEMES.pin,
+  MOTIF_THEMES.skewer,
+  MOTIF_THEMES.discoveredAttack,
+  MOTIF_THEMES.promotion,
+  MOTIF_THEMES.hangingPiece,
+];
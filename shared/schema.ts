@@ -1,4 +1,5 @@
-import { pgTable, serial, varchar, text, integer, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, serial, varchar, text, integer, timestamp, json, real, boolean, unique } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,6 +10,7 @@ import { z } from "zod";
 // Games table - stores imported chess games
 export const games = pgTable("games", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
   pgn: text("pgn").notNull(),
   white: varchar("white", { length: 255 }).notNull(),
   black: varchar("black", { length: 255 }).notNull(),
@@ -17,7 +19,15 @@ export const games = pgTable("games", {
   event: varchar("event", { length: 255 }),
   site: varchar("site", { length: 255 }),
   opening: varchar("opening", { length: 255 }),
+  eco: varchar("eco", { length: 10 }),
+  whiteRating: integer("white_rating"),
+  blackRating: integer("black_rating"),
+  timeControl: varchar("time_control", { length: 20 }), // PGN TimeControl, e.g. "300+3"
+  collection: varchar("collection", { length: 255 }), // Library folder, e.g. "Club archive 2023"
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  headerHash: varchar("header_hash", { length: 64 }), // Dedupe key for bulk uploads (see server/lib/game-library.ts)
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Move analyses table - caches AI analysis and engine evaluations
@@ -41,8 +51,50 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: varchar("username", { length: 100 }).notNull().unique(),
   email: varchar("email", { length: 255 }),
+  passwordHash: varchar("password_hash", { length: 255 }), // scrypt, see server/lib/auth.ts
+  isAdmin: boolean("is_admin").notNull().default(false), // May grant and revoke plans
   lichessUsername: varchar("lichess_username", { length: 100 }),
+  lichessSyncedUntil: timestamp("lichess_synced_until"), // Creation time of the newest synced Lichess game
+  // Glicko-2 puzzle rating (server/lib/puzzle-rating.ts)
+  puzzleRating: real("puzzle_rating").notNull().default(1500),
+  puzzleRatingDeviation: real("puzzle_rating_deviation").notNull().default(350),
+  puzzleVolatility: real("puzzle_volatility").notNull().default(0.06),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Login sessions table - one row per signed-in browser (id = SHA-256 of the cookie token)
+export const sessions = pgTable("sessions", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Subscriptions table - the plan each user is entitled to; the server never trusts a client-sent plan
+export const subscriptions = pgTable("subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  plan: varchar("plan", { length: 20 }).notNull(), // free, pro, elite
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, revoked, canceled
+  grantedBy: integer("granted_by").references(() => users.id, { onDelete: "set null" }), // Admin who granted it
+  billingSubscriptionId: varchar("billing_subscription_id", { length: 255 }).unique(), // Set when bought through checkout
+  billingCustomerId: varchar("billing_customer_id", { length: 255 }),
+  expiresAt: timestamp("expires_at"), // Null = no end date; paid plans end with the billing period
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Quota usage table - per-day counters for each user (or anonymous IP), see server/lib/quota.ts
+export const quotaUsage = pgTable("quota_usage", {
+  key: varchar("key", { length: 150 }).primaryKey(), // "<day>|<subject>"
+  subject: varchar("subject", { length: 120 }).notNull(), // user:<id> or ip:<address>
+  day: varchar("day", { length: 10 }).notNull(), // YYYY-MM-DD in the server's TZ
+  trialAnalyses: integer("trial_analyses").notNull().default(0),
+  trialStartedAt: timestamp("trial_started_at"), // First trial analysis of the day; starts the minutes window
+  stockfishCalls: integer("stockfish_calls").notNull().default(0),
+  llmCalls: integer("llm_calls").notNull().default(0),
+  ttsSeconds: integer("tts_seconds").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Training sessions table - tracks when users practice
@@ -72,12 +124,18 @@ export const progressStats = pgTable("progress_stats", {
 export const puzzles = pgTable("puzzles", {
   id: serial("id").primaryKey(),
   fen: text("fen").notNull(), // Starting position
-  solution: text("solution").notNull(), // Solution move(s) (e.g., "Qxf7#" or "Nxe5")
+  solution: text("solution").notNull(), // Full solution line, space-separated SAN or UCI (e.g., "Qxf7#" or "d1h5 g8f6 h5f7"), see shared/puzzle.ts
   explanation: text("explanation"), // Explanation of the puzzle solution
   theme: varchar("theme", { length: 100 }), // Puzzle theme (e.g., "Knight fork", "Checkmate in 1")
-  rating: integer("rating"), // Difficulty rating
+  rating: integer("rating"), // Difficulty rating (Glicko-2, updated after each first attempt)
+  ratingDeviation: real("rating_deviation").notNull().default(350),
+  volatility: real("volatility").notNull().default(0.06),
+  plays: integer("plays").notNull().default(0), // Rated attempts
   source: varchar("source", { length: 100 }), // lichess, custom, etc.
   externalId: varchar("external_id", { length: 100 }), // ID from external source
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }), // Owner of an own-game puzzle; null = shared with everyone
+  gameId: integer("game_id").references(() => games.id, { onDelete: "set null" }), // Game an own-game puzzle was found in
+  gamePly: integer("game_ply"), // Ply of the missed move in that game (1-based, like moveAnalyses.moveNumber)
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -88,6 +146,7 @@ export const puzzleAttempts = pgTable("puzzle_attempts", {
   puzzleId: integer("puzzle_id").notNull().references(() => puzzles.id, { onDelete: "cascade" }),
   solved: integer("solved").notNull(), // 1 = solved, 0 = failed
   timeSpent: integer("time_spent"), // Time in seconds
+  movesCompleted: integer("moves_completed"), // Solver moves found before the attempt ended (null on older rows)
   attemptedAt: timestamp("attempted_at").defaultNow().notNull(),
 });
 
@@ -102,13 +161,58 @@ export const userSettings = pgTable("user_settings", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Position evaluations table - persistent engine cache keyed by normalized FEN and engine
+export const positionEvaluations = pgTable("position_evaluations", {
+  id: serial("id").primaryKey(),
+  fen: text("fen").notNull(), // First four FEN fields (no move counters)
+  engine: varchar("engine", { length: 255 }).notNull().default(""), // engineCacheId of the engine that searched it
+  depth: integer("depth").notNull(), // Depth the search was run to
+  multiPv: integer("multi_pv").notNull().default(1),
+  score: integer("score"), // Centipawns, side to move
+  mate: integer("mate"),
+  bestMove: varchar("best_move", { length: 20 }),
+  lines: json("lines"), // Ranked engine lines (rank, score, mate, depth, pv, san)
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.fen, table.engine)]);
+
+// Repertoires table - opening lines a player wants to learn, for one color
+export const repertoires = pgTable("repertoires", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  color: varchar("color", { length: 10 }).notNull(), // white, black (the side being learned)
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Repertoire nodes table - one move in a repertoire tree (parentId null = first move)
+export const repertoireNodes = pgTable("repertoire_nodes", {
+  id: serial("id").primaryKey(),
+  repertoireId: integer("repertoire_id").notNull().references(() => repertoires.id, { onDelete: "cascade" }),
+  parentId: integer("parent_id"), // Parent node; subtrees are deleted by the app
+  fen: text("fen").notNull(), // Position after the move
+  move: varchar("move", { length: 20 }).notNull(), // SAN
+  uci: varchar("uci", { length: 10 }).notNull(),
+  color: varchar("color", { length: 10 }).notNull(), // Side that plays the move
+  comment: text("comment"),
+  eco: varchar("eco", { length: 10 }), // From eco.min.json, inherited from the parent when unnamed
+  openingName: varchar("opening_name", { length: 255 }),
+  // SM-2 review state (only used for moves of the repertoire's color)
+  repetitions: integer("repetitions").notNull().default(0),
+  interval: integer("interval").notNull().default(0), // Days
+  easeFactor: real("ease_factor").notNull().default(2.5),
+  dueAt: timestamp("due_at"), // Null = never reviewed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // ============================================================================
 // Insert Schemas (Zod validation)
 // ============================================================================
 
 export const insertGameSchema = createInsertSchema(games).omit({ 
   id: true, 
-  createdAt: true 
+  createdAt: true,
+  updatedAt: true
 });
 export type InsertGame = z.infer<typeof insertGameSchema>;
 
@@ -124,6 +228,18 @@ export const insertUserSchema = createInsertSchema(users).omit({
 });
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export const insertSessionSchema = createInsertSchema(sessions).omit({ 
+  createdAt: true 
+});
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+
+export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({ 
+  id: true, 
+  createdAt: true,
+  updatedAt: true 
+});
+export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+
 export const insertTrainingSessionSchema = createInsertSchema(trainingSessions).omit({ 
   id: true, 
   startedAt: true 
@@ -154,6 +270,24 @@ export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
 });
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 
+export const insertRepertoireSchema = createInsertSchema(repertoires).omit({ 
+  id: true, 
+  createdAt: true 
+});
+export type InsertRepertoire = z.infer<typeof insertRepertoireSchema>;
+
+export const insertRepertoireNodeSchema = createInsertSchema(repertoireNodes).omit({ 
+  id: true, 
+  createdAt: true 
+});
+export type InsertRepertoireNode = z.infer<typeof insertRepertoireNodeSchema>;
+
+export const insertPositionEvaluationSchema = createInsertSchema(positionEvaluations).omit({ 
+  id: true, 
+  updatedAt: true 
+});
+export type InsertPositionEvaluation = z.infer<typeof insertPositionEvaluationSchema>;
+
 // ============================================================================
 // Select Types (TypeScript types for queried data)
 // ============================================================================
@@ -161,11 +295,17 @@ export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type Game = typeof games.$inferSelect;
 export type MoveAnalysis = typeof moveAnalyses.$inferSelect;
 export type User = typeof users.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type Subscription = typeof subscriptions.$inferSelect;
+export type QuotaUsage = typeof quotaUsage.$inferSelect;
 export type TrainingSession = typeof trainingSessions.$inferSelect;
 export type ProgressStat = typeof progressStats.$inferSelect;
 export type Puzzle = typeof puzzles.$inferSelect;
 export type PuzzleAttempt = typeof puzzleAttempts.$inferSelect;
 export type UserSettings = typeof userSettings.$inferSelect;
+export type PositionEvaluation = typeof positionEvaluations.$inferSelect;
+export type Repertoire = typeof repertoires.$inferSelect;
+export type RepertoireNode = typeof repertoireNodes.$inferSelect;
 
 // ============================================================================
 // API Request/Response Schemas (for routes that don't map to tables)
@@ -61,4 +61,219 @@ export interface TrialInfo {
   usedToday: boolean;
   remainingMs: number;
   startTime?: number;
+  remainingAnalyses: number;
+}
+
+// Daily counters kept by the quota service (server/lib/quota.ts)
+export type QuotaMetric = 'trialAnalyses' | 'stockfishCalls' | 'llmCalls' | 'ttsSeconds';
+
+export interface QuotaStatus {
+  day: string; // YYYY-MM-DD
+  plan: PlanMode;
+  trial: TrialInfo;
+  usage: Record<QuotaMetric, number>;
+  limits: { llmCalls: number | null; ttsSeconds: number | null }; // null = unlimited
+}
+
+// Full-game batch analysis job progress (POST/GET /api/games/:id/analyze)
+export type AnalysisJobStatus = 'running' | 'completed' | 'failed';
+
+export interface AnalysisJob {
+  gameId: number;
+  status: AnalysisJobStatus;
+  depth: number;
+  totalPlies: number;
+  analyzedPlies: number;
+  startScore?: number; // Start position eval, White's perspective (rows only hold the eval after each ply)
+  startMate?: number;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+// Game Review report (GET /api/games/:id/report)
+export interface PlayerReport {
+  name: string;
+  accuracy: number; // 0-100
+  averageCentipawnLoss: number;
+  moves: number;
+  brilliant: number;
+  inaccuracies: number;
+  mistakes: number;
+  blunders: number;
+}
+
+export interface SwingMoment {
+  ply: number;
+  moveNumber: number;
+  color: 'white' | 'black';
+  move: string;
+  evaluation: string | null;
+  before: number; // centipawns, White's perspective
+  after: number;
+  swing: number; // drop in the mover's winning chances (percentage points)
+  bestMove: string | null;
+}
+
+export interface GameReport {
+  gameId: number;
+  analyzedPlies: number;
+  white: PlayerReport;
+  black: PlayerReport;
+  swings: SwingMoment[];
+}
+
+// Opening explorer over stored games (GET /api/explorer?fen=)
+export interface ExplorerStats {
+  total: number;
+  white: number; // games won by White
+  draws: number;
+  black: number;
+  whitePercent: number; // 0-100, rounded
+  drawPercent: number;
+  blackPercent: number;
+}
+
+export interface ExplorerMove extends ExplorerStats {
+  uci: string;
+  san: string;
+}
+
+export interface ExplorerPosition extends ExplorerStats {
+  fen: string;
+  moves: ExplorerMove[]; // most played first
+}
+
+// Repertoire drill queue (GET /api/repertoires/:id/drill)
+export interface DrillItem {
+  nodeId: number; // A move of the repertoire's color that is due for review
+  path: number[]; // Node ids from the first move down to nodeId
+  dueAt: string | null; // Null = never reviewed
+}
+
+// Game library (GET /api/games, POST /api/games/upload)
+export interface GameFilters {
+  q?: string; // Free text over players, event, site, opening, ECO, collection and movetext
+  player?: string; // White or Black
+  event?: string;
+  result?: string; // "1-0", "0-1", "1/2-1/2" or "*"
+  eco?: string; // Code prefix: "B" or "B90"
+  collection?: string;
+  tag?: string;
+  dateFrom?: string; // PGN dates ("2023.05.01"); "-" separators are accepted too
+  dateTo?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface GameUploadError {
+  game: number; // 1-based position in the uploaded file
+  line?: number; // Line in the uploaded file, when known
+  message: string;
+}
+
+export interface GameUploadResult {
+  imported: number;
+  duplicates: number; // Already in the library (same header hash) or repeated within the file
+  failed: GameUploadError[];
+  gameIds: number[];
+}
+
+// Lichess account sync (GET/POST /api/lichess/sync)
+export interface LichessSyncJob {
+  userId: number;
+  lichessUsername: string;
+  trigger: 'manual' | 'schedule';
+  status: 'running' | 'completed' | 'failed';
+  received: number; // Games streamed from Lichess so far
+  imported: number;
+  duplicates: number;
+  failed: number; // Games whose PGN could not be parsed
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface LichessSyncState {
+  lichessUsername: string | null;
+  syncedUntil: string | null; // Creation time of the newest synced game
+  scheduleMinutes: number | null; // Null when automatic sync is off
+  job: LichessSyncJob | null; // Current or last run since the server started
+}
+
+// Chess.com archive import (POST /api/games/import-chesscom with a username)
+export interface ChessComImportGame {
+  url: string;
+  month: string; // "YYYY-MM"
+  status: 'imported' | 'duplicate' | 'failed';
+  gameId?: number; // Set when imported
+  error?: string; // Set when failed
+}
+
+export interface ChessComImportResult {
+  username: string;
+  months: Array<{ month: string; games: number; error?: string }>;
+  imported: number;
+  duplicates: number;
+  failed: number;
+  games: ChessComImportGame[];
+}
+
+// Signed-in account (GET /api/auth/me); never includes the password hash
+export interface AuthUser {
+  id: number;
+  username: string;
+  email: string | null;
+  lichessUsername: string | null;
+  isAdmin: boolean;
+}
+
+// A user's plan as admins see it (GET /api/admin/subscriptions)
+export interface SubscriptionSummary {
+  userId: number;
+  username: string;
+  plan: PlanMode;
+  status: 'active' | 'revoked';
+  active: boolean; // Active and not past expiresAt
+  expiresAt: string | null;
+  grantedBy: number | null;
+  updatedAt: string;
+}
+
+// Result of a rated puzzle attempt (POST /api/puzzles/:id/attempt → rating)
+export interface PuzzleRatingUpdate {
+  rating: number; // User's new Glicko-2 puzzle rating
+  deviation: number;
+  change: number;
+  puzzleRating: number; // Puzzle's new rating
+}
+
+// GET /api/stats/puzzle-rating
+export interface PuzzleRatingSummary {
+  rating: number;
+  deviation: number;
+  history: { rating: number; recordedAt: string }[]; // Oldest first
+}
+
+export interface PuzzleImportResult {
+  imported: number;
+  duplicates: number; // Already stored (same Lichess id)
+  skipped: number; // Filtered out by themes / rating range
+  failed: number;
+  errors: { line: number; message: string }[]; // First few failures only
+}
+
+// Own-game puzzle generation (POST /api/puzzles/generate, polled with GET)
+export interface PuzzleGenerationJob {
+  userId: number;
+  status: 'running' | 'completed' | 'failed';
+  depth: number;
+  totalGames: number;
+  scannedGames: number;
+  created: number;
+  duplicates: number; // Positions already turned into puzzles by an earlier run
+  failed: number; // Games whose PGN could not be replayed
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
 }